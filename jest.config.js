@@ -8,6 +8,13 @@ module.exports = {
   ],
   transform: {
     '^.+\\.ts$': 'ts-jest',
+    // The MCP SDK is published as ES modules only
+    '^.+\\.js$': ['ts-jest', { tsconfig: { allowJs: true } }],
+  },
+  transformIgnorePatterns: ['/node_modules/(?!@modelcontextprotocol/sdk/)'],
+  // Sources import with `.js` extensions, as ES modules require
+  moduleNameMapper: {
+    '^(\\.{1,2}/.*)\\.js$': '$1',
   },
   collectCoverageFrom: [
     'src/**/*.ts',
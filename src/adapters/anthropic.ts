@@ -82,7 +82,9 @@ export class AnthropicAdapter extends BaseModelAdapter {
         ...settings,
       };
 
-      const response = await this.client.post<AnthropicResponse>('/messages', payload);
+      const response = await this.client.post<AnthropicResponse>('/messages', payload, {
+        ...(request.context.signal ? { signal: request.context.signal } : {}),
+      });
 
       const content = response.data.content[0];
       if (!content || content.type !== 'text') {
@@ -107,7 +109,7 @@ export class AnthropicAdapter extends BaseModelAdapter {
         },
       };
     } catch (error) {
-      this.handleApiError(error, 'Anthropic execution');
+      this.handleApiError(error, 'Anthropic execution', request.context.signal);
     }
   }
 
@@ -208,6 +210,7 @@ export class AnthropicAdapter extends BaseModelAdapter {
 
       const response = await this.client.post('/messages', payload, {
         responseType: 'stream',
+        ...(request.context.signal ? { signal: request.context.signal } : {}),
       });
 
       // Parse SSE stream
@@ -241,7 +244,7 @@ export class AnthropicAdapter extends BaseModelAdapter {
         }
       }
     } catch (error) {
-      this.handleApiError(error, 'Anthropic streaming');
+      this.handleApiError(error, 'Anthropic streaming', request.context.signal);
     }
   }
 
@@ -264,8 +267,8 @@ export class AnthropicAdapter extends BaseModelAdapter {
   /**
    * Handle Claude-specific error responses
    */
-  protected handleApiError(error: any, context: string): never {
-    if (error.response?.data?.error) {
+  protected handleApiError(error: any, context: string, signal?: AbortSignal | undefined): never {
+    if (!signal?.aborted && error.response?.data?.error) {
       const anthropicError = error.response.data.error;
       
       if (anthropicError.type === 'invalid_request_error') {
@@ -287,6 +290,6 @@ export class AnthropicAdapter extends BaseModelAdapter {
     }
 
     // Fall back to base error handling
-    super.handleApiError(error, context);
+    super.handleApiError(error, context, signal);
   }
 } 
\ No newline at end of file
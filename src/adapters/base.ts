@@ -5,6 +5,7 @@ import {
   PromptHubMCPError,
   ErrorCodes,
 } from '../types';
+import { abortError, delay } from '../utils/abort';
 
 /**
  * Model execution request
@@ -14,6 +15,7 @@ export interface ModelExecutionRequest {
   inputs: Record<string, any>;
   settings?: Record<string, any>;
   context: ExecutionContext;
+  responseSchema?: Record<string, any>; // JSON schema for adapters with a native JSON mode
 }
 
 /**
@@ -78,6 +80,13 @@ export abstract class BaseModelAdapter {
     };
   }
 
+  /**
+   * Whether the adapter can constrain responses to a JSON schema natively
+   */
+  supportsJsonMode(): boolean {
+    return this.getCapabilities().includes('json-mode');
+  }
+
   /**
    * Get provider name
    */
@@ -115,9 +124,13 @@ export abstract class BaseModelAdapter {
   }
 
   /**
-   * Handle API errors consistently
+   * Handle API errors consistently; requests aborted through `signal` fail with its abort error
    */
-  protected handleApiError(error: any, context: string): never {
+  protected handleApiError(error: any, context: string, signal?: AbortSignal | undefined): never {
+    if (signal?.aborted) {
+      throw abortError(signal);
+    }
+
     if (error.response) {
       // HTTP error response
       const status = error.response.status;
@@ -208,13 +221,17 @@ export class MockModelAdapter extends BaseModelAdapter {
 
   async execute(request: ModelExecutionRequest): Promise<ModelExecutionResponse> {
     // Simulate processing time
-    await new Promise(resolve => setTimeout(resolve, 100));
+    await delay(100, request.context.signal);
 
+    const settings = this.prepareSettings(request.settings);
     const promptTokens = this.estimateTokenCount(request.prompt);
     const completionTokens = Math.floor(Math.random() * 200) + 50;
+    const text = `Mock response for prompt: "${request.prompt.substring(0, 50)}..."`;
 
     return {
-      content: `Mock response for prompt: "${request.prompt.substring(0, 50)}..."`,
+      content: request.responseSchema
+        ? JSON.stringify(this.sampleFromSchema(request.responseSchema, text))
+        : text,
       tokenUsage: {
         promptTokens,
         completionTokens,
@@ -224,6 +241,7 @@ export class MockModelAdapter extends BaseModelAdapter {
       metadata: {
         model: this.modelName,
         timestamp: Date.now(),
+        settings,
       },
     };
   }
@@ -237,6 +255,40 @@ export class MockModelAdapter extends BaseModelAdapter {
   }
 
   protected getCapabilities(): string[] {
-    return ['text-generation', 'conversation'];
+    return ['text-generation', 'conversation', 'json-mode'];
+  }
+
+  /**
+   * Build a value that satisfies a JSON schema, using `text` for strings
+   */
+  private sampleFromSchema(schema: Record<string, any>, text: string): any {
+    if (schema.enum && schema.enum.length > 0) {
+      return schema.enum[0];
+    }
+
+    const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+    switch (type) {
+      case 'object': {
+        const value: Record<string, any> = {};
+        for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+          value[key] = this.sampleFromSchema(propertySchema as Record<string, any>, text);
+        }
+        return value;
+      }
+      case 'array':
+        return Array.from(
+          { length: schema.minItems || (schema.items ? 1 : 0) },
+          () => this.sampleFromSchema(schema.items || {}, text)
+        );
+      case 'number':
+      case 'integer':
+        return schema.minimum ?? 0;
+      case 'boolean':
+        return true;
+      case 'null':
+        return null;
+      default:
+        return text;
+    }
   }
 } 
\ No newline at end of file
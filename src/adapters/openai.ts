@@ -83,10 +83,20 @@ export class OpenAIAdapter extends BaseModelAdapter {
             content: sanitizedPrompt,
           },
         ],
+        ...(request.responseSchema
+          ? {
+              response_format: {
+                type: 'json_schema',
+                json_schema: { name: 'prompt_output', schema: request.responseSchema },
+              },
+            }
+          : {}),
         ...settings,
       };
 
-      const response = await this.client.post<OpenAIResponse>('/chat/completions', payload);
+      const response = await this.client.post<OpenAIResponse>('/chat/completions', payload, {
+        ...(request.context.signal ? { signal: request.context.signal } : {}),
+      });
 
       const choice = response.data.choices[0];
       if (!choice) {
@@ -111,7 +121,7 @@ export class OpenAIAdapter extends BaseModelAdapter {
         },
       };
     } catch (error) {
-      this.handleApiError(error, 'OpenAI execution');
+      this.handleApiError(error, 'OpenAI execution', request.context.signal);
     }
   }
 
@@ -138,7 +148,7 @@ export class OpenAIAdapter extends BaseModelAdapter {
   }
 
   protected getCapabilities(): string[] {
-    const capabilities = ['text-generation', 'conversation'];
+    const capabilities = ['text-generation', 'conversation', 'json-mode'];
     
     // Add model-specific capabilities
     if (this.modelName.includes('gpt-4')) {
@@ -210,6 +220,7 @@ export class OpenAIAdapter extends BaseModelAdapter {
 
       const response = await this.client.post('/chat/completions', payload, {
         responseType: 'stream',
+        ...(request.context.signal ? { signal: request.context.signal } : {}),
       });
 
       // Parse SSE stream
@@ -241,7 +252,7 @@ export class OpenAIAdapter extends BaseModelAdapter {
         }
       }
     } catch (error) {
-      this.handleApiError(error, 'OpenAI streaming');
+      this.handleApiError(error, 'OpenAI streaming', request.context.signal);
     }
   }
 } 
\ No newline at end of file
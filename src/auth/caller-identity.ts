@@ -0,0 +1,271 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual, verify } from 'node:crypto';
+import { IncomingHttpHeaders } from 'node:http';
+import { PublicKey } from '@solana/web3.js';
+import { PromptHubMCPError, ErrorCodes } from '../types';
+
+/**
+ * Credentials presented by an MCP client
+ */
+export interface CallerCredentials {
+  apiKey?: string | undefined;
+  token?: string | undefined; // HMAC-signed token
+  wallet?: WalletSignature | undefined;
+}
+
+/**
+ * A Solana wallet's signature over a challenge nonce
+ */
+export interface WalletSignature {
+  publicKey: string; // Base58 wallet address
+  signature: string; // Base64 ed25519 signature of challengeMessage(nonce)
+  nonce: string;
+}
+
+/**
+ * Resolves credentials to a caller ID. Returns null when the credentials are not of
+ * this provider's kind and throws ACCESS_DENIED when they are but fail verification.
+ */
+export interface CallerIdentityProvider {
+  authenticate(credentials: CallerCredentials): Promise<string | null>;
+}
+
+/**
+ * Options for building a resolver from server configuration
+ */
+export interface AuthConfig {
+  apiKeys?: Record<string, string> | undefined; // API key -> caller ID
+  hmacSecret?: string | undefined;
+  solanaSignatures?: boolean | undefined;
+  anonymousCaller?: string | undefined; // Caller used when no credentials are presented; unset requires them
+}
+
+/**
+ * Static API keys mapped to caller IDs
+ */
+export class ApiKeyIdentityProvider implements CallerIdentityProvider {
+  private keys: Array<{ digest: Buffer; caller: string }>;
+
+  constructor(apiKeys: Record<string, string>) {
+    this.keys = Object.entries(apiKeys).map(([key, caller]) => ({ digest: sha256(key), caller }));
+  }
+
+  async authenticate(credentials: CallerCredentials): Promise<string | null> {
+    if (!credentials.apiKey) {
+      return null;
+    }
+
+    // Compare digests so every comparison takes the same time
+    const digest = sha256(credentials.apiKey);
+    const match = this.keys.find(entry => timingSafeEqual(entry.digest, digest));
+    if (!match) {
+      throw new PromptHubMCPError(ErrorCodes.ACCESS_DENIED, 'Invalid API key');
+    }
+    return match.caller;
+  }
+}
+
+/**
+ * Tokens of the form `base64url(payload).base64url(hmac-sha256(payload))` with payload `{sub, exp}`
+ */
+export class HmacTokenIdentityProvider implements CallerIdentityProvider {
+  constructor(private secret: string) {}
+
+  /**
+   * Issue a token for a caller, valid for `ttl` milliseconds
+   */
+  issueToken(caller: string, ttl: number = 3600000): string {
+    const payload = Buffer.from(JSON.stringify({ sub: caller, exp: Date.now() + ttl })).toString('base64url');
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  async authenticate(credentials: CallerCredentials): Promise<string | null> {
+    if (!credentials.token) {
+      return null;
+    }
+
+    const [payload, signature, ...rest] = credentials.token.split('.');
+    const expected = Buffer.from(this.sign(payload || ''));
+    const actual = Buffer.from(signature || '');
+    if (rest.length > 0 || actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      throw new PromptHubMCPError(ErrorCodes.ACCESS_DENIED, 'Invalid token signature');
+    }
+
+    let claims: { sub?: unknown; exp?: unknown };
+    try {
+      claims = JSON.parse(Buffer.from(payload!, 'base64url').toString('utf8'));
+    } catch {
+      throw new PromptHubMCPError(ErrorCodes.ACCESS_DENIED, 'Malformed token');
+    }
+
+    if (typeof claims.sub !== 'string' || typeof claims.exp !== 'number') {
+      throw new PromptHubMCPError(ErrorCodes.ACCESS_DENIED, 'Malformed token');
+    }
+    if (claims.exp <= Date.now()) {
+      throw new PromptHubMCPError(ErrorCodes.ACCESS_DENIED, 'Token expired');
+    }
+    return claims.sub;
+  }
+
+  private sign(payload: string): string {
+    return createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
+}
+
+// DER header of an ed25519 SubjectPublicKeyInfo; the 32 raw key bytes follow it
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+/**
+ * Message a wallet signs to prove ownership for a challenge nonce
+ */
+export function challengeMessage(nonce: string): string {
+  return `Sign in to PromptHub MCP\nNonce: ${nonce}`;
+}
+
+/**
+ * Solana wallets proving key ownership by signing a single-use challenge nonce.
+ * The caller ID is the wallet address.
+ */
+export class SolanaSignatureIdentityProvider implements CallerIdentityProvider {
+  private nonces: Map<string, number> = new Map(); // Outstanding nonce -> expiry time
+
+  constructor(private challengeTtl: number = 300000) {}
+
+  /**
+   * Issue a nonce for a wallet to sign
+   */
+  createChallenge(): { nonce: string; message: string; expiresAt: number } {
+    const now = Date.now();
+    for (const [nonce, expiresAt] of this.nonces) {
+      if (expiresAt <= now) {
+        this.nonces.delete(nonce);
+      }
+    }
+
+    const nonce = randomBytes(16).toString('hex');
+    const expiresAt = now + this.challengeTtl;
+    this.nonces.set(nonce, expiresAt);
+    return { nonce, message: challengeMessage(nonce), expiresAt };
+  }
+
+  async authenticate(credentials: CallerCredentials): Promise<string | null> {
+    const { wallet } = credentials;
+    if (!wallet) {
+      return null;
+    }
+
+    // Nonces are single-use, whether or not the signature verifies
+    const expiresAt = this.nonces.get(wallet.nonce);
+    this.nonces.delete(wallet.nonce);
+    if (expiresAt === undefined || expiresAt <= Date.now()) {
+      throw new PromptHubMCPError(ErrorCodes.ACCESS_DENIED, 'Unknown or expired challenge nonce');
+    }
+
+    let publicKey: PublicKey;
+    try {
+      publicKey = new PublicKey(wallet.publicKey);
+    } catch {
+      throw new PromptHubMCPError(ErrorCodes.ACCESS_DENIED, 'Invalid wallet public key');
+    }
+
+    const signature = Buffer.from(wallet.signature, 'base64');
+    const key = { key: Buffer.concat([ED25519_SPKI_PREFIX, publicKey.toBytes()]), format: 'der' as const, type: 'spki' as const };
+    if (signature.length !== 64 || !verify(null, Buffer.from(challengeMessage(wallet.nonce)), key, signature)) {
+      throw new PromptHubMCPError(ErrorCodes.ACCESS_DENIED, 'Invalid wallet signature');
+    }
+    return publicKey.toBase58();
+  }
+}
+
+/**
+ * Resolves the caller of an MCP session from its credentials using the configured providers
+ */
+export class CallerIdentityResolver {
+  private anonymousCaller: string | undefined;
+
+  constructor(private providers: CallerIdentityProvider[], options: { anonymousCaller?: string | undefined } = {}) {
+    this.anonymousCaller = options.anonymousCaller;
+  }
+
+  /**
+   * Resolve a caller ID, throwing ACCESS_DENIED when the credentials are missing or invalid
+   */
+  async resolve(credentials: CallerCredentials): Promise<string> {
+    if (!credentials.apiKey && !credentials.token && !credentials.wallet) {
+      if (this.anonymousCaller !== undefined) {
+        return this.anonymousCaller;
+      }
+      throw new PromptHubMCPError(ErrorCodes.ACCESS_DENIED, 'Authentication required');
+    }
+
+    for (const provider of this.providers) {
+      const caller = await provider.authenticate(credentials);
+      if (caller !== null) {
+        return caller;
+      }
+    }
+
+    throw new PromptHubMCPError(ErrorCodes.ACCESS_DENIED, 'Unsupported credentials');
+  }
+
+  /**
+   * Get the configured provider of a given class, e.g. to issue wallet challenges
+   */
+  getProvider<T extends CallerIdentityProvider>(type: new (...args: any[]) => T): T | undefined {
+    return this.providers.find((provider): provider is T => provider instanceof type);
+  }
+}
+
+/**
+ * Build a resolver from server configuration
+ */
+export function createCallerIdentityResolver(config: AuthConfig): CallerIdentityResolver {
+  const providers: CallerIdentityProvider[] = [];
+
+  if (config.apiKeys) {
+    providers.push(new ApiKeyIdentityProvider(config.apiKeys));
+  }
+  if (config.hmacSecret) {
+    providers.push(new HmacTokenIdentityProvider(config.hmacSecret));
+  }
+  if (config.solanaSignatures) {
+    providers.push(new SolanaSignatureIdentityProvider());
+  }
+
+  return new CallerIdentityResolver(providers, { anonymousCaller: config.anonymousCaller });
+}
+
+/**
+ * Read credentials from HTTP headers: `X-API-Key`, `Authorization: Bearer <token>`,
+ * or `X-PromptHub-Wallet` / `X-PromptHub-Signature` / `X-PromptHub-Nonce`
+ */
+export function credentialsFromHeaders(headers: IncomingHttpHeaders): CallerCredentials {
+  const header = (name: string) => {
+    const value = headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  };
+
+  const authorization = header('authorization');
+  const wallet = header('x-prompthub-wallet');
+  const signature = header('x-prompthub-signature');
+  const nonce = header('x-prompthub-nonce');
+
+  return {
+    apiKey: header('x-api-key'),
+    token: authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length).trim() : undefined,
+    wallet: wallet && signature && nonce ? { publicKey: wallet, signature, nonce } : undefined,
+  };
+}
+
+/**
+ * Read credentials for a stdio session from `PROMPTHUB_API_KEY` / `PROMPTHUB_TOKEN`
+ */
+export function credentialsFromEnv(env: NodeJS.ProcessEnv): CallerCredentials {
+  return {
+    apiKey: env.PROMPTHUB_API_KEY || undefined,
+    token: env.PROMPTHUB_TOKEN || undefined,
+  };
+}
+
+function sha256(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
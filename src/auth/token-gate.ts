@@ -0,0 +1,234 @@
+import { Connection, ParsedAccountData, PublicKey } from '@solana/web3.js';
+import { AccessPolicy, PromptHubMCPError, ErrorCodes } from '../types';
+import { defaultConfig } from '../config/default';
+
+export const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+export const TOKEN_2022_PROGRAM_ID = 'TokenzQdBNbLqP7VEhdKAS5EPFJXT8xKMs4kJz5D5hQ';
+export const TOKEN_METADATA_PROGRAM_ID = 'metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s';
+
+/**
+ * The RPC methods token gating needs, so tests can inject a fake connection
+ */
+export type TokenGateConnection = Pick<Connection, 'getParsedTokenAccountsByOwner' | 'getMultipleAccountsInfo'>;
+
+/**
+ * Options for TokenGateVerifier
+ */
+export interface TokenGateOptions {
+  cacheTtl?: number | undefined; // How long a caller's balance or ownership result is reused
+}
+
+interface CacheEntry<T> {
+  value: Promise<T>;
+  expiresAt: number;
+}
+
+/**
+ * Checks SPL token balances and NFT ownership for token- and NFT-gated prompts.
+ * Results are cached per caller and mint for a short TTL.
+ */
+export class TokenGateVerifier {
+  private cacheTtl: number;
+  private cache: Map<string, CacheEntry<unknown>> = new Map();
+
+  constructor(private connection: TokenGateConnection, options: TokenGateOptions = {}) {
+    this.cacheTtl = options.cacheTtl ?? defaultConfig.security.tokenGateCacheTtl;
+  }
+
+  /**
+   * Throw unless the caller satisfies a token- or NFT-gated policy:
+   * INSUFFICIENT_BALANCE for a low token balance, ACCESS_DENIED otherwise
+   */
+  async assertAccess(caller: string, policy: AccessPolicy): Promise<void> {
+    if (!policy.tokenAddress) {
+      throw new PromptHubMCPError(ErrorCodes.ACCESS_DENIED, `Access policy '${policy.type}' has no token address`);
+    }
+
+    if (policy.type === 'nft_gated') {
+      if (!(await this.ownsNft(caller, policy.tokenAddress))) {
+        throw new PromptHubMCPError(
+          ErrorCodes.ACCESS_DENIED,
+          `Caller does not hold an NFT from collection ${policy.tokenAddress}`
+        );
+      }
+      return;
+    }
+
+    const required = parseAmount(policy.minimumBalance);
+    const balance = await this.getTokenBalance(caller, policy.tokenAddress);
+    if (balance < required) {
+      throw new PromptHubMCPError(
+        ErrorCodes.INSUFFICIENT_BALANCE,
+        `Token balance ${balance} of ${policy.tokenAddress} is below the required ${required}`,
+        { tokenAddress: policy.tokenAddress, balance: balance.toString(), required: required.toString() }
+      );
+    }
+  }
+
+  /**
+   * Total raw balance (in base units) of a mint across the owner's token accounts
+   */
+  async getTokenBalance(owner: string, mint: string): Promise<bigint> {
+    return this.cached(`balance:${owner}:${mint}`, async () => {
+      const { value } = await this.rpc(() =>
+        this.connection.getParsedTokenAccountsByOwner(toPublicKey(owner, 'caller'), {
+          mint: toPublicKey(mint, 'token'),
+        })
+      );
+
+      return value.reduce((total, { account }) => total + BigInt(tokenAmount(account.data)?.amount ?? '0'), 0n);
+    });
+  }
+
+  /**
+   * Whether the owner holds the NFT with this mint, or an NFT in the verified collection with this address
+   */
+  async ownsNft(owner: string, collection: string): Promise<boolean> {
+    return this.cached(`nft:${owner}:${collection}`, async () => {
+      const ownerKey = toPublicKey(owner, 'caller');
+      const mints: string[] = [];
+
+      for (const programId of [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID]) {
+        const { value } = await this.rpc(() =>
+          this.connection.getParsedTokenAccountsByOwner(ownerKey, { programId: new PublicKey(programId) })
+        );
+        for (const { account } of value) {
+          const amount = tokenAmount(account.data);
+          if (amount?.amount === '1' && amount.decimals === 0) {
+            mints.push(account.data.parsed.info.mint);
+          }
+        }
+      }
+
+      if (mints.includes(collection)) {
+        return true;
+      }
+      if (mints.length === 0) {
+        return false;
+      }
+
+      const metadataProgram = new PublicKey(TOKEN_METADATA_PROGRAM_ID);
+      const metadataAddresses = mints.map(mint =>
+        PublicKey.findProgramAddressSync(
+          [Buffer.from('metadata'), metadataProgram.toBuffer(), new PublicKey(mint).toBuffer()],
+          metadataProgram
+        )[0]
+      );
+      const accounts = await this.rpc(() => this.connection.getMultipleAccountsInfo(metadataAddresses));
+
+      return accounts.some(account => {
+        const verified = account && readVerifiedCollection(account.data);
+        return verified === collection;
+      });
+    });
+  }
+
+  /**
+   * Forget cached results, for one caller or for everyone
+   */
+  clearCache(caller?: string): void {
+    if (caller === undefined) {
+      this.cache.clear();
+      return;
+    }
+    for (const key of this.cache.keys()) {
+      if (key.split(':')[1] === caller) {
+        this.cache.delete(key);
+      }
+    }
+  }
+
+  private async cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const now = Date.now();
+    const entry = this.cache.get(key);
+    if (entry && entry.expiresAt > now) {
+      return entry.value as Promise<T>;
+    }
+
+    // Cache the pending lookup so concurrent checks share one RPC call; failures are not cached
+    const value = load();
+    this.cache.set(key, { value, expiresAt: now + this.cacheTtl });
+    value.catch(() => {
+      if (this.cache.get(key)?.value === value) {
+        this.cache.delete(key);
+      }
+    });
+    return value;
+  }
+
+  private async rpc<T>(call: () => Promise<T>): Promise<T> {
+    try {
+      return await call();
+    } catch (error) {
+      if (error instanceof PromptHubMCPError) {
+        throw error;
+      }
+      throw new PromptHubMCPError(ErrorCodes.BLOCKCHAIN_ERROR, 'Failed to read token accounts', error);
+    }
+  }
+}
+
+/**
+ * Read the verified collection address from a Metaplex token metadata account, or null if it has none
+ */
+export function readVerifiedCollection(data: Buffer): string | null {
+  let offset = 1 + 32 + 32; // key, update authority, mint
+
+  const skip = (length: number) => {
+    offset += length;
+    return offset <= data.length;
+  };
+  const skipString = () => offset + 4 <= data.length && skip(4 + data.readUInt32LE(offset));
+  const readOption = () => (offset < data.length ? data[offset++] : undefined);
+
+  // name, symbol, uri, seller fee basis points
+  if (!skipString() || !skipString() || !skipString() || !skip(2)) {
+    return null;
+  }
+
+  // creators: Option<Vec<{ address, verified, share }>>
+  if (readOption() === 1) {
+    if (offset + 4 > data.length || !skip(4 + data.readUInt32LE(offset) * 34)) {
+      return null;
+    }
+  }
+
+  // primary sale happened, is mutable
+  if (!skip(2)) {
+    return null;
+  }
+
+  // edition nonce and token standard: Option<u8>
+  for (let i = 0; i < 2; i++) {
+    if (readOption() === 1 && !skip(1)) {
+      return null;
+    }
+  }
+
+  // collection: Option<{ verified, key }>
+  if (readOption() !== 1 || offset + 33 > data.length) {
+    return null;
+  }
+  const verified = data[offset] === 1;
+  return verified ? new PublicKey(data.subarray(offset + 1, offset + 33)).toBase58() : null;
+}
+
+function tokenAmount(data: ParsedAccountData): { amount: string; decimals: number } | undefined {
+  return data.parsed?.info?.tokenAmount;
+}
+
+function parseAmount(amount: string | undefined): bigint {
+  try {
+    return BigInt(amount || '0');
+  } catch {
+    throw new PromptHubMCPError(ErrorCodes.ACCESS_DENIED, `Invalid minimum balance: ${amount}`);
+  }
+}
+
+function toPublicKey(address: string, label: string): PublicKey {
+  try {
+    return new PublicKey(address);
+  } catch {
+    throw new PromptHubMCPError(ErrorCodes.ACCESS_DENIED, `Invalid ${label} address: ${address}`);
+  }
+}
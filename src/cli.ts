@@ -4,7 +4,7 @@ import { program } from 'commander';
 import { PromptHubMCP } from './index';
 import { createMCPServer, createDevServer, createProductionServer } from './utils/server-factory';
 import { validatePromptDSL } from './utils/validation';
-import { getConfig, validateConfig } from './config/default';
+import { defaultConfig, getConfig, validateConfig } from './config/default';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -26,17 +26,52 @@ program
   .option('-k, --keypair <path>', 'Solana keypair file path')
   .option('-r, --rpc <url>', 'Solana RPC URL')
   .option('-p, --program-id <id>', 'PromptVault program ID')
+  .option('--idl <path>', 'PromptVault IDL file (fetched from chain by default)')
   .option('--dev', 'Use development configuration')
+  .option('-t, --transport <type>', 'Transport (stdio, http)')
+  .option('--port <number>', 'HTTP port when using the http transport')
+  .option('--vault-backend <type>', 'Vault backend (solana, filesystem)')
+  .option('--vault-dir <path>', 'Prompt directory for the filesystem vault backend')
+  .option('--ipfs-cache <dir>', 'Cache fetched IPFS definitions in this directory')
+  .option('--offline', 'Serve IPFS definitions from the cache directory only')
   .action(async (options) => {
     try {
       let server;
 
+      if (options.transport && !['stdio', 'http'].includes(options.transport)) {
+        console.error(`Unknown transport: ${options.transport} (expected stdio or http)`);
+        process.exit(1);
+      }
+      if (options.vaultBackend && !['solana', 'filesystem'].includes(options.vaultBackend)) {
+        console.error(`Unknown vault backend: ${options.vaultBackend} (expected solana or filesystem)`);
+        process.exit(1);
+      }
+      // --vault-dir alone selects the filesystem backend
+      const vault = options.vaultBackend || options.vaultDir
+        ? { backend: options.vaultBackend || 'filesystem', path: options.vaultDir || defaultConfig.vault.path }
+        : undefined;
+      // --offline needs a cache directory, from --ipfs-cache or the configuration file
+      const ipfs = options.ipfsCache || options.offline
+        ? { ...(options.ipfsCache ? { cacheDir: options.ipfsCache } : {}), ...(options.offline ? { offline: true } : {}) }
+        : undefined;
+      const port = options.port !== undefined ? Number(options.port) : undefined;
+      if (port !== undefined && (!Number.isInteger(port) || port < 0 || port > 65535)) {
+        console.error(`Invalid port: ${options.port}`);
+        process.exit(1);
+      }
+
       if (options.dev) {
         console.log('Starting PromptHub MCP server in development mode...');
-        server = await createDevServer();
+        server = await createDevServer(vault, ipfs);
       } else if (options.config) {
         console.log(`Loading configuration from ${options.config}...`);
         const configData = JSON.parse(fs.readFileSync(options.config, 'utf8'));
+        if (vault) {
+          configData.vault = vault;
+        }
+        if (ipfs) {
+          configData.ipfs = { ...configData.ipfs, ...ipfs };
+        }
         const validation = validateConfig(configData);
         
         if (!validation.valid) {
@@ -47,23 +82,39 @@ program
 
         const prompthub = new PromptHubMCP();
         await prompthub.initialize({
-          blockchain: {
+          blockchain: configData.blockchain && {
             network: configData.blockchain.network,
             rpcUrl: options.rpc || configData.blockchain.rpcUrl,
             programId: options.programId || configData.blockchain.programId,
             keypairPath: options.keypair || configData.blockchain.keypairPath,
+            idlPath: options.idl || configData.blockchain.idlPath,
           },
+          vault: configData.vault,
+          ipfs: configData.ipfs,
           server: {
             name: configData.server.name,
             version: configData.server.version,
           },
+          models: configData.models,
+          promptTools: configData.promptTools,
+          auth: configData.auth,
+          usage: configData.usage,
+          environment: options.env,
         });
         server = prompthub.getServer();
       } else {
         // Use environment-based configuration
         const config = getConfig(options.env);
         
-        if (options.env === 'production') {
+        if (options.env === 'production' && vault?.backend === 'filesystem') {
+          // A private vault needs no keypair or program
+          server = await createMCPServer({
+            name: config.server.name,
+            version: config.server.version,
+            vault,
+            environment: 'production',
+          });
+        } else if (options.env === 'production') {
           if (!options.keypair) {
             console.error('Keypair path is required for production environment');
             process.exit(1);
@@ -73,14 +124,14 @@ program
             process.exit(1);
           }
           
-          server = await createProductionServer(options.programId, options.keypair);
+          server = await createProductionServer(options.programId, options.keypair, options.idl, ipfs);
         } else {
-          server = await createDevServer();
+          server = await createDevServer(vault, ipfs);
         }
       }
 
       console.log('PromptHub MCP server starting...');
-      await server.start();
+      await server.start({ transport: options.transport, port });
     } catch (error) {
       console.error('Failed to start server:', error);
       process.exit(1);
@@ -1,4 +1,5 @@
-import { BlockchainConfig } from '../types';
+import { BlockchainConfig, IpfsGatewayConfig } from '../types';
+import { VaultBackendType } from '../vault/vault-backend';
 
 /**
  * Default configuration for PromptHub MCP
@@ -9,7 +10,20 @@ export const defaultConfig = {
     name: 'prompthub-mcp',
     version: '1.0.0',
     timeout: 60000, // 60 seconds
-    maxConcurrentRequests: 10,
+    maxConcurrentRequests: 10, // Tool calls running at once (0 disables the limit)
+    maxQueuedRequests: 100, // Tool calls waiting for a free slot before new ones are rejected
+    queueTimeout: 30000, // Max wait for a free slot
+    maxDagConcurrency: 4, // DAG nodes executed at once
+    promptListRefreshInterval: 60000, // Poll the vault for prompt list changes (0 disables)
+    transport: 'stdio' as 'stdio' | 'http',
+    host: '127.0.0.1', // HTTP listen address
+    port: 3000,
+    httpPath: '/mcp', // Streamable HTTP endpoint
+    ssePath: '/sse', // Legacy SSE stream endpoint
+    sseMessagesPath: '/messages', // Legacy SSE message endpoint
+    authChallengePath: '/auth/challenge', // Issues nonces for Solana wallet sign-in
+    shutdownTimeout: 30000, // Max wait for in-flight executions on shutdown
+    sessionIdleTimeout: 1800000, // Close HTTP sessions not heard from for this long (0 disables)
   },
 
   // Blockchain configuration
@@ -34,6 +48,12 @@ export const defaultConfig = {
     },
   } as Record<string, BlockchainConfig>,
 
+  // Vault backend configuration
+  vault: {
+    backend: 'solana' as VaultBackendType, // 'solana' (PromptVault program + IPFS) or 'filesystem'
+    path: './prompts', // Prompt directory of the filesystem backend
+  },
+
   // Model adapter configurations
   models: {
     openai: {
@@ -77,6 +97,7 @@ export const defaultConfig = {
     allowedFileTypes: ['json', 'txt', 'md'], // Allowed file types for uploads
     maxDagNodes: 50, // Maximum nodes in a DAG
     maxDagDepth: 10, // Maximum depth of DAG
+    outputRepairAttempts: 2, // Retries when model output fails output_schema
   },
 
   // Security configuration
@@ -84,10 +105,12 @@ export const defaultConfig = {
     enableInputSanitization: true,
     enableOutputFiltering: true,
     maxExecutionTime: 300000, // 5 minutes
+    tokenGateCacheTtl: 30000, // Reuse a caller's token balance and NFT ownership checks for 30 seconds
     rateLimiting: {
       enabled: true,
       windowMs: 60000, // 1 minute
-      maxRequests: 100, // Max requests per window
+      maxRequests: 100, // Max requests per caller per window
+      globalMaxRequests: 1000, // Max requests across all callers per window
     },
   },
 
@@ -102,10 +125,13 @@ export const defaultConfig = {
 
   // IPFS configuration
   ipfs: {
-    gateway: 'https://ipfs.io/ipfs/',
+    gateways: ['https://ipfs.io/ipfs/', 'https://dweb.link/ipfs/'] as Array<string | IpfsGatewayConfig>, // Tried in order
+    nodeApiUrl: undefined as string | undefined, // Local node RPC API tried before the gateways, e.g. http://127.0.0.1:5001
     uploadEndpoint: 'https://api.pinata.cloud/pinning/pinFileToIPFS',
-    timeout: 30000, // 30 seconds
+    timeout: 30000, // 30 seconds per gateway
     maxFileSize: 10485760, // 10MB
+    cacheDir: undefined as string | undefined, // Content-addressed cache of fetched definitions (disabled when unset)
+    offline: false, // Serve definitions from cacheDir only
   },
 
   // Error handling configuration
@@ -233,7 +259,16 @@ export function validateConfig(config: any): { valid: boolean; errors: string[]
     errors.push('Server version is required');
   }
 
-  if (!config.blockchain) {
+  const vaultBackend = config.vault?.backend ?? 'solana';
+  if (!['solana', 'filesystem'].includes(vaultBackend)) {
+    errors.push(`Unknown vault backend: ${vaultBackend}`);
+  }
+
+  if (vaultBackend === 'filesystem' && !config.vault?.path) {
+    errors.push('Vault path is required for the filesystem backend');
+  }
+
+  if (!config.blockchain && vaultBackend === 'solana') {
     errors.push('Blockchain configuration is required');
   }
 
@@ -247,6 +282,10 @@ export function validateConfig(config: any): { valid: boolean; errors: string[]
     }
   }
 
+  if (config.ipfs?.offline && !config.ipfs?.cacheDir) {
+    errors.push('IPFS cacheDir is required to work offline');
+  }
+
   // Validate numeric values
   if (config.server?.timeout && config.server.timeout < 1000) {
     errors.push('Server timeout must be at least 1000ms');
@@ -1,23 +1,122 @@
+import { createServer as createHttpServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'node:http';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
   ListResourcesRequestSchema,
   ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  McpError,
 } from '@modelcontextprotocol/sdk/types.js';
 import { PromptModule } from './prompt-module.js';
-import { PromptVaultClient } from './vault-client.js';
+import { VaultBackend } from '../vault/vault-backend.js';
 import { PromptRouter } from './prompt-router.js';
 import {
   PromptExecutionRequest,
   PromptExecutionResult,
   MCPTool,
   MCPResource,
+  MCPPrompt,
   PromptHubMCPError,
   ErrorCodes,
   ExecutionContext,
+  PromptMetadata,
 } from '../types.js';
+import { defaultConfig } from '../config/default.js';
+import { inputParametersToJsonSchema } from '../utils/json-schema.js';
+import {
+  CallerCredentials,
+  CallerIdentityResolver,
+  SolanaSignatureIdentityProvider,
+  credentialsFromEnv,
+  credentialsFromHeaders,
+} from '../auth/caller-identity.js';
+import {
+  StreamableHTTPServerTransport,
+  SESSION_ID_HEADER,
+  isInitializeRequest,
+  readJsonBody,
+  writeJsonRpcError,
+} from '../transports/streamable-http.js';
+import { AdmissionConfig, RequestAdmission, admissionConfigFrom } from '../quota/request-admission.js';
+import { createExecutionSignal } from '../utils/abort.js';
 import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+
+// Caller recorded for every request when no identity resolver is configured
+const DEFAULT_CALLER = 'mcp-client';
+
+// Name prefix of the per-prompt tools, e.g. `prompt__text-summarizer-v1`
+export const PROMPT_TOOL_PREFIX = 'prompt__';
+
+// JSON-RPC error code of tool calls rejected by rate or concurrency limits (implementation-defined server error)
+export const RATE_LIMITED_ERROR_CODE = -32029;
+
+// Tools that execute prompts; they run up to security.maxExecutionTime instead of server.timeout
+const EXECUTION_TOOLS = new Set(['execute_prompt', 'compose_prompt_dag']);
+
+// Sent by clients to cancel a request they issued earlier (not modelled by the SDK yet)
+const CancelledNotificationSchema = z.object({
+  method: z.literal('notifications/cancelled'),
+  params: z.object({
+    requestId: z.union([z.string(), z.number()]),
+    reason: z.string().optional(),
+  }),
+});
+
+/**
+ * Selects which vault prompts are registered as their own tools; all criteria must match
+ */
+export interface PromptToolOptions {
+  tags?: string[] | undefined; // Prompt must have at least one of these tags
+  authors?: string[] | undefined;
+  allowlist?: string[] | undefined; // Prompt IDs
+}
+
+/**
+ * Optional features of a PromptHubMCPServer
+ */
+export interface PromptHubMCPServerOptions {
+  promptTools?: PromptToolOptions | undefined; // Register one tool per vault prompt when set
+  identity?: CallerIdentityResolver | undefined; // Authenticate callers; without it every caller is 'mcp-client'
+  admission?: AdmissionConfig | undefined; // Rate and concurrency limits for tool calls; defaults to defaultConfig
+  requestTimeout?: number | undefined; // Max duration of tool calls that do not execute prompts; defaults to server.timeout
+  executionTimeout?: number | undefined; // Max duration of prompt and DAG executions; defaults to security.maxExecutionTime
+}
+
+/**
+ * How the server is reached: stdio for a single local client, http for a shared service
+ */
+export type MCPTransportType = 'stdio' | 'http';
+
+/**
+ * Options for PromptHubMCPServer.start; unset values come from defaultConfig.server
+ */
+export interface StartOptions {
+  transport?: MCPTransportType | undefined;
+  host?: string | undefined;
+  port?: number | undefined;
+  credentials?: CallerCredentials | undefined; // stdio only; defaults to PROMPTHUB_API_KEY / PROMPTHUB_TOKEN
+  sessionIdleTimeout?: number | undefined; // http only
+}
+
+/**
+ * Authenticated caller of one MCP connection; unset until authentication succeeds
+ */
+interface SessionIdentity {
+  caller: string | undefined;
+}
+
+/**
+ * A connected HTTP client with its own MCP server instance
+ */
+interface MCPSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+}
 
 /**
  * PromptHub MCP Server
@@ -25,38 +124,73 @@ import { v4 as uuidv4 } from 'uuid';
  */
 export class PromptHubMCPServer {
   private server: Server;
-  private vaultClient: PromptVaultClient;
+  private name: string;
+  private version: string;
+  private vaultClient: VaultBackend;
   private promptRouter: PromptRouter;
-  private loadedModules: Map<string, PromptModule> = new Map();
+  private promptListFingerprint: string | undefined;
+  private promptList: { prompts: Promise<PromptMetadata[]>; listedAt: number } | undefined; // Shared by list requests
+  private promptListTimer: NodeJS.Timeout | undefined;
+  private unsubscribeVault: (() => void) | undefined;
+  private connected: boolean = false;
+  private promptTools: PromptToolOptions | undefined;
+  private sessions: Map<string, MCPSession> = new Map(); // HTTP sessions by session ID
+  private httpServer: HttpServer | undefined;
+  private sessionSweepTimer: NodeJS.Timeout | undefined;
+  private inFlight: Map<Promise<unknown>, AbortController> = new Map(); // Running tool calls and their cancel handles
+  private shuttingDown: boolean = false;
+  private identity: CallerIdentityResolver | undefined;
+  private primaryIdentity: SessionIdentity; // Caller of the stdio connection
+  private admission: RequestAdmission;
+  private requestTimeout: number;
+  private executionTimeout: number;
 
   constructor(
     name: string,
     version: string,
-    vaultClient: PromptVaultClient,
-    promptRouter: PromptRouter
+    vaultClient: VaultBackend,
+    promptRouter: PromptRouter,
+    options: PromptHubMCPServerOptions = {}
   ) {
-    this.server = new Server(
+    this.name = name;
+    this.version = version;
+    this.vaultClient = vaultClient;
+    this.promptRouter = promptRouter;
+    this.promptTools = options.promptTools;
+    this.identity = options.identity;
+    this.primaryIdentity = { caller: options.identity ? undefined : DEFAULT_CALLER };
+    this.admission = new RequestAdmission(options.admission || admissionConfigFrom());
+    this.requestTimeout = options.requestTimeout ?? defaultConfig.server.timeout;
+    this.executionTimeout = options.executionTimeout ?? defaultConfig.security.maxExecutionTime;
+
+    this.server = this.createServer(this.primaryIdentity);
+  }
+
+  /**
+   * Create an MCP server with all handlers; HTTP sessions each get their own
+   */
+  private createServer(identity: SessionIdentity): Server {
+    const server = new Server(
       {
-        name,
-        version,
+        name: this.name,
+        version: this.version,
       },
       {
         capabilities: {
           tools: {},
           resources: {},
+          prompts: { listChanged: true },
         },
       }
     );
 
-    this.vaultClient = vaultClient;
-    this.promptRouter = promptRouter;
-
-    this.setupHandlers();
+    this.setupHandlers(server, identity);
+    return server;
   }
 
-  private setupHandlers(): void {
+  private setupHandlers(server: Server, identity: SessionIdentity): void {
     // List available tools (prompts as tools)
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       const tools: MCPTool[] = [];
 
       // Add core PromptHub tools
@@ -82,6 +216,11 @@ export class PromptHubMCPServer {
               type: 'string',
               description: 'Preferred AI model provider (optional)',
             },
+            validationMode: {
+              type: 'string',
+              enum: ['strict', 'lenient'],
+              description: 'Lenient mode coerces string values such as "42" or "true" (optional)',
+            },
           },
           required: ['promptId', 'inputs'],
         },
@@ -149,6 +288,11 @@ export class PromptHubMCPServer {
               type: 'object',
               description: 'Input parameters to validate',
             },
+            validationMode: {
+              type: 'string',
+              enum: ['strict', 'lenient'],
+              description: 'Lenient mode coerces string values such as "42" or "true" (optional)',
+            },
           },
           required: ['promptId', 'inputs'],
         },
@@ -173,75 +317,91 @@ export class PromptHubMCPServer {
         },
       });
 
+      tools.push({
+        name: 'get_usage',
+        description: "Get the caller's executions and remaining daily allowance per prompt",
+        inputSchema: {
+          type: 'object',
+          properties: {
+            promptId: {
+              type: 'string',
+              description: 'The ID of the prompt (optional; defaults to every prompt used today)',
+            },
+          },
+        },
+      });
+
+      if (this.promptTools) {
+        tools.push(...(await this.listPromptTools()));
+      }
+
       return { tools };
     });
 
-    // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    // Tool calls of this connection by JSON-RPC request ID, for cancellation
+    const running = new Map<string | number, AbortController>();
+
+    // Handle tool calls; tracked so shutdown can drain in-flight executions.
+    // The passthrough schema keeps the request ID that cancellation notifications refer to.
+    server.setRequestHandler(CallToolRequestSchema.passthrough(), async (request) => {
       const { name, arguments: args } = request.params;
+      const requestId = request['id'] as string | number | undefined;
+
+      const controller = new AbortController();
+      if (requestId !== undefined) {
+        running.set(requestId, controller);
+      }
 
+      const execution = this.admitToolCall(name, args, identity, controller.signal);
+      this.inFlight.set(execution, controller);
       try {
-        switch (name) {
-          case 'execute_prompt':
-            return await this.handleExecutePrompt(args);
-          
-          case 'search_prompts':
-            return await this.handleSearchPrompts(args);
-          
-          case 'get_prompt_info':
-            return await this.handleGetPromptInfo(args);
-          
-          case 'validate_prompt_input':
-            return await this.handleValidatePromptInput(args);
-          
-          case 'compose_prompt_dag':
-            return await this.handleComposePromptDAG(args);
-          
-          default:
-            throw new PromptHubMCPError(
-              ErrorCodes.INVALID_INPUT,
-              `Unknown tool: ${name}`
-            );
-        }
-      } catch (error) {
-        if (error instanceof PromptHubMCPError) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify({
-                  error: {
-                    code: error.code,
-                    message: error.message,
-                    details: error.details,
-                  },
-                }),
-              },
-            ],
-            isError: true,
-          };
+        return await execution;
+      } finally {
+        this.inFlight.delete(execution);
+        if (requestId !== undefined && running.get(requestId) === controller) {
+          running.delete(requestId);
         }
+      }
+    });
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                error: {
-                  code: ErrorCodes.EXECUTION_FAILED,
-                  message: error instanceof Error ? error.message : 'Unknown error',
-                  details: error,
-                },
-              }),
+    // Abort a running tool call when the client cancels it
+    server.setNotificationHandler(CancelledNotificationSchema, async (notification) => {
+      const { requestId, reason } = notification.params;
+      running.get(requestId)?.abort(new PromptHubMCPError(
+        ErrorCodes.EXECUTION_CANCELLED,
+        reason ? `Cancelled by client: ${reason}` : 'Cancelled by client'
+      ));
+    });
+
+    // List vault prompts as native MCP prompts
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return { prompts: await this.listMCPPrompts(this.sessionCaller(identity)) };
+    });
+
+    // Render a vault prompt into messages
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args = {} } = request.params;
+
+      const module = await this.getPromptModule(name);
+      await module.assertAccess(this.sessionCaller(identity));
+      const definition = module.getDefinition();
+
+      return {
+        description: definition.description,
+        messages: [
+          {
+            role: 'user' as const,
+            content: {
+              type: 'text' as const,
+              text: module.renderPrompt(args),
             },
-          ],
-          isError: true,
-        };
-      }
+          },
+        ],
+      };
     });
 
     // List available resources
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
       const resources: MCPResource[] = [];
 
       // Add PromptHub resources
@@ -263,11 +423,11 @@ export class PromptHubMCPServer {
     });
 
     // Handle resource reads
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
       const { uri } = request.params;
 
       if (uri === 'prompthub://vault/prompts') {
-        const prompts = await this.vaultClient.listPrompts();
+        const prompts = await this.listVaultPrompts();
         return {
           contents: [
             {
@@ -299,18 +459,148 @@ export class PromptHubMCPServer {
     });
   }
 
-  private async handleExecutePrompt(args: any) {
-    const { promptId, version, inputs, modelProvider } = args;
+  /**
+   * Caller of a session, or ACCESS_DENIED while it has not authenticated
+   */
+  private sessionCaller(identity: SessionIdentity): string {
+    if (identity.caller === undefined) {
+      throw new PromptHubMCPError(ErrorCodes.ACCESS_DENIED, 'Authentication required');
+    }
+    return identity.caller;
+  }
+
+  /**
+   * Run a tool call once rate and concurrency limits admit it.
+   * Rejections are protocol errors carrying `retryAfter`, so clients can tell them from failed executions.
+   */
+  private async admitToolCall(name: string, args: any, identity: SessionIdentity, signal: AbortSignal) {
+    let release: () => void;
+    try {
+      release = await this.admission.admit(identity.caller, signal);
+    } catch (error) {
+      if (error instanceof PromptHubMCPError && error.code === ErrorCodes.RATE_LIMIT_EXCEEDED) {
+        throw new McpError(RATE_LIMITED_ERROR_CODE, error.message, { code: error.code, ...error.details });
+      }
+      // Cancelled while queued
+      return this.toolError(error);
+    }
+
+    // Calls are cancelled by the client, by shutdown, or after their timeout
+    const execution = createExecutionSignal(signal, this.toolTimeout(name));
+    try {
+      return await this.callTool(name, args, identity, execution.signal);
+    } finally {
+      execution.dispose();
+      release();
+    }
+  }
+
+  /**
+   * How long a tool call may run: prompt executions get the execution timeout, other tools the request timeout
+   */
+  private toolTimeout(name: string): number {
+    const executes = EXECUTION_TOOLS.has(name) || (this.promptTools !== undefined && name.startsWith(PROMPT_TOOL_PREFIX));
+    return executes ? this.executionTimeout : this.requestTimeout;
+  }
+
+  /**
+   * Dispatch a tool call; errors are returned as `isError` results
+   */
+  private async callTool(name: string, args: any, identity: SessionIdentity, signal: AbortSignal) {
+    try {
+      if (this.shuttingDown) {
+        throw new PromptHubMCPError(ErrorCodes.EXECUTION_FAILED, 'Server is shutting down');
+      }
+
+      const caller = this.sessionCaller(identity);
+
+      if (this.promptTools && name.startsWith(PROMPT_TOOL_PREFIX)) {
+        return await this.handlePromptTool(name.slice(PROMPT_TOOL_PREFIX.length), args || {}, caller, signal);
+      }
+
+      switch (name) {
+        case 'execute_prompt':
+          return await this.handleExecutePrompt(args, caller, signal);
+        
+        case 'search_prompts':
+          return await this.handleSearchPrompts(args);
+        
+        case 'get_prompt_info':
+          return await this.handleGetPromptInfo(args);
+        
+        case 'validate_prompt_input':
+          return await this.handleValidatePromptInput(args);
+        
+        case 'compose_prompt_dag':
+          return await this.handleComposePromptDAG(args, caller, signal);
+
+        case 'get_usage':
+          return await this.handleGetUsage(args || {}, caller);
+        
+        default:
+          throw new PromptHubMCPError(
+            ErrorCodes.INVALID_INPUT,
+            `Unknown tool: ${name}`
+          );
+      }
+    } catch (error) {
+      return this.toolError(error);
+    }
+  }
+
+  /**
+   * Format an error as an `isError` tool result
+   */
+  private toolError(error: unknown) {
+    if (error instanceof PromptHubMCPError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              error: {
+                code: error.code,
+                message: error.message,
+                details: error.details,
+              },
+            }),
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            error: {
+              code: ErrorCodes.EXECUTION_FAILED,
+              message: error instanceof Error ? error.message : 'Unknown error',
+              details: error,
+            },
+          }),
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  private async handleExecutePrompt(args: any, caller: string, signal: AbortSignal) {
+    const { promptId, version, inputs, modelProvider, validationMode } = args;
 
     // Load or get cached prompt module
     const module = await this.getPromptModule(promptId, version);
 
     // Create execution context
     const context: ExecutionContext = {
-      caller: 'mcp-client', // TODO: Get actual caller identity
+      caller,
       modelProvider,
       timestamp: Date.now(),
       requestId: uuidv4(),
+      validationMode,
+      signal,
     };
 
     // Execute the prompt
@@ -358,6 +648,7 @@ export class PromptHubMCPServer {
       definition,
       royaltyInfo: module.getRoyaltyInfo(),
       accessControl: module.getAccessControl(),
+      integrity: module.getContentVerification() || { verified: false },
     };
 
     return {
@@ -371,10 +662,10 @@ export class PromptHubMCPServer {
   }
 
   private async handleValidatePromptInput(args: any) {
-    const { promptId, inputs } = args;
+    const { promptId, inputs, validationMode } = args;
 
     const module = await this.getPromptModule(promptId);
-    const validation = module.validateInput(inputs);
+    const validation = module.validateInput(inputs, { coerce: validationMode === 'lenient' });
 
     return {
       content: [
@@ -386,11 +677,32 @@ export class PromptHubMCPServer {
     };
   }
 
-  private async handleComposePromptDAG(args: any) {
+  private async handleGetUsage(args: any, caller: string) {
+    const { promptId } = args;
+    const quota = this.promptRouter.getUsageQuota();
+    const promptIds: string[] = promptId ? [promptId] : await quota.listPrompts(caller);
+
+    // Limits come from each prompt's current access policy
+    const usage = await Promise.all(promptIds.map(async id => {
+      const module = await this.getPromptModule(id);
+      return quota.getUsage(caller, id, module.getAccessControl().maxUsagePerDay);
+    }));
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ caller, usage }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleComposePromptDAG(args: any, caller: string, signal: AbortSignal) {
     const { dag, rootInputs } = args;
 
     // Execute DAG through PromptRouter
-    const result = await this.promptRouter.executeDag(dag, rootInputs);
+    const result = await this.promptRouter.executeDag(dag, rootInputs, { caller, signal });
 
     return {
       content: [
@@ -402,44 +714,487 @@ export class PromptHubMCPServer {
     };
   }
 
-  private async getPromptModule(promptId: string, version?: string): Promise<PromptModule> {
-    const cacheKey = `${promptId}@${version || 'latest'}`;
+  /**
+   * Build one tool per selected vault prompt, with an input schema generated from its inputs
+   */
+  private async listPromptTools(): Promise<MCPTool[]> {
+    const prompts = (await this.listVaultPrompts()).filter(prompt => this.isPromptToolSelected(prompt));
+
+    const tools = await Promise.all(
+      prompts.map(async (metadata): Promise<MCPTool | null> => {
+        try {
+          const definition = (await this.getPromptModule(metadata.id)).getDefinition();
+          const inputSchema = inputParametersToJsonSchema(definition.inputs);
+          return {
+            name: `${PROMPT_TOOL_PREFIX}${definition.id}`,
+            description: definition.description,
+            inputSchema: {
+              type: 'object',
+              properties: inputSchema.properties || {},
+              ...(inputSchema.required ? { required: inputSchema.required } : {}),
+            },
+          };
+        } catch (error) {
+          console.warn(`Skipping prompt tool ${metadata.id}:`, error);
+          return null;
+        }
+      })
+    );
+
+    return tools.filter((tool): tool is MCPTool => tool !== null);
+  }
 
-    if (this.loadedModules.has(cacheKey)) {
-      return this.loadedModules.get(cacheKey)!;
+  private isPromptToolSelected(prompt: PromptMetadata): boolean {
+    const { tags, authors, allowlist } = this.promptTools || {};
+
+    if (allowlist && !allowlist.includes(prompt.id)) {
+      return false;
+    }
+    if (authors && !authors.includes(prompt.author)) {
+      return false;
     }
+    if (tags && !tags.some(tag => prompt.tags.includes(tag))) {
+      return false;
+    }
+    return true;
+  }
 
-    // Load prompt from vault
-    const promptData = await this.vaultClient.getPrompt(promptId, version);
-    if (!promptData) {
+  /**
+   * Execute a per-prompt tool; its arguments are the prompt inputs
+   */
+  private async handlePromptTool(promptId: string, inputs: Record<string, any>, caller: string, signal: AbortSignal) {
+    let metadata: PromptMetadata | undefined;
+    try {
+      metadata = (await this.getPromptModule(promptId)).getMetadata();
+    } catch (error) {
+      if (!(error instanceof PromptHubMCPError && error.code === ErrorCodes.PROMPT_NOT_FOUND)) {
+        throw error;
+      }
+    }
+    if (!metadata || !this.isPromptToolSelected(metadata)) {
       throw new PromptHubMCPError(
-        ErrorCodes.PROMPT_NOT_FOUND,
-        `Prompt not found: ${promptId}${version ? `@${version}` : ''}`
+        ErrorCodes.INVALID_INPUT,
+        `Unknown tool: ${PROMPT_TOOL_PREFIX}${promptId}`
       );
     }
 
-    // Create and cache module
-    const module = new PromptModule(promptData.definition, promptData.metadata);
-    this.loadedModules.set(cacheKey, module);
+    const context: ExecutionContext = {
+      caller,
+      timestamp: Date.now(),
+      requestId: uuidv4(),
+      signal,
+    };
+
+    const result = await this.promptRouter.executePrompt(promptId, inputs, context);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+      ...(result.success ? {} : { isError: true }),
+    };
+  }
+
+  /**
+   * Map the vault prompts the caller may access to MCP prompts; arguments come from each definition's inputs
+   */
+  private async listMCPPrompts(caller: string): Promise<MCPPrompt[]> {
+    const prompts = await this.listVaultPrompts();
+    this.promptListFingerprint = this.fingerprintPrompts(prompts);
+
+    const results = await Promise.all(
+      prompts.map(async (metadata): Promise<MCPPrompt | null> => {
+        try {
+          const module = await this.getPromptModule(metadata.id);
+          await module.assertAccess(caller);
+          const definition = module.getDefinition();
+          return {
+            name: definition.id,
+            description: definition.description,
+            arguments: Object.entries(definition.inputs).map(([name, param]) => ({
+              name,
+              // MCP prompt arguments are strings; note the declared type for anything else
+              description: [param.description, param.type !== 'string' ? `(${param.type})` : undefined]
+                .filter(Boolean)
+                .join(' '),
+              required: param.required,
+            })),
+          };
+        } catch (error) {
+          // Prompts the caller may not access are left out silently
+          const denied = error instanceof PromptHubMCPError &&
+            (error.code === ErrorCodes.ACCESS_DENIED || error.code === ErrorCodes.INSUFFICIENT_BALANCE);
+          if (!denied) {
+            console.warn(`Skipping prompt ${metadata.id}:`, error);
+          }
+          return null;
+        }
+      })
+    );
+
+    return results.filter((prompt): prompt is MCPPrompt => prompt !== null);
+  }
+
+  /**
+   * Check the vault for prompt list changes and notify clients when it changed.
+   * Returns true when a change was detected.
+   */
+  async refreshPromptList(): Promise<boolean> {
+    const prompts = await this.vaultClient.listPrompts();
+    this.promptList = { prompts: Promise.resolve(prompts), listedAt: Date.now() };
+    const fingerprint = this.fingerprintPrompts(prompts);
+    const previous = this.promptListFingerprint;
+    this.promptListFingerprint = fingerprint;
+
+    if (previous === undefined || previous === fingerprint) {
+      return false;
+    }
+
+    await this.handlePromptListChanged();
+    return true;
+  }
+
+  private async handlePromptListChanged(): Promise<void> {
+    // Definitions may have changed, so modules are reloaded on next use
+    this.promptRouter.clearModuleCache();
+
+    const servers = [...this.sessions.values()].map(session => session.server);
+    if (this.connected) {
+      servers.push(this.server);
+    }
+
+    await Promise.all(
+      servers.map(server =>
+        server.sendPromptListChanged().catch(error => {
+          console.error('Failed to send prompt list change notification:', error);
+        })
+      )
+    );
+  }
+
+  /**
+   * Notify clients on vault changes, and poll for changes made outside this process
+   */
+  private watchPromptList(): void {
+    this.unsubscribeVault = this.vaultClient.onPromptsChanged(() => {
+      // The next poll takes a fresh baseline instead of reporting this change again
+      this.promptListFingerprint = undefined;
+      this.promptList = undefined;
+      void this.handlePromptListChanged();
+    });
 
-    return module;
+    const interval = defaultConfig.server.promptListRefreshInterval;
+    if (interval > 0) {
+      this.promptListTimer = setInterval(() => {
+        this.refreshPromptList().catch(error => console.warn('Failed to refresh prompt list:', error));
+      }, interval);
+      this.promptListTimer.unref();
+    }
+  }
+
+  private stopWatchingPromptList(): void {
+    this.unsubscribeVault?.();
+    this.unsubscribeVault = undefined;
+    if (this.promptListTimer) {
+      clearInterval(this.promptListTimer);
+      this.promptListTimer = undefined;
+    }
   }
 
   /**
-   * Start the MCP server
+   * The vault's prompts, listed at most once per `server.promptListRefreshInterval` unless the vault reports a change.
+   * Only list requests use it; tool calls load the one prompt they need.
    */
-  async start(): Promise<void> {
-    // Connect to stdin/stdout for MCP communication
-    const transport = this.server.connect();
+  private listVaultPrompts(): Promise<PromptMetadata[]> {
+    const now = Date.now();
+    if (!this.promptList || now - this.promptList.listedAt >= defaultConfig.server.promptListRefreshInterval) {
+      const prompts = this.vaultClient.listPrompts();
+      const listing = { prompts, listedAt: now };
+      this.promptList = listing;
+      // A failed listing is retried by the next request
+      prompts.catch(() => {
+        if (this.promptList === listing) {
+          this.promptList = undefined;
+        }
+      });
+    }
+    return this.promptList.prompts;
+  }
+
+  private fingerprintPrompts(prompts: Array<{ id: string; version: string; updatedAt: number }>): string {
+    return prompts
+      .map(prompt => `${prompt.id}@${prompt.version}:${prompt.updatedAt}`)
+      .sort()
+      .join('|');
+  }
+
+  private async getPromptModule(promptId: string, version?: string): Promise<PromptModule> {
+    // Modules are built and cached by the router so they share its model providers
+    return this.promptRouter.getPromptModule(promptId, version);
+  }
+
+  /**
+   * Register a PromptDSL helper available to every prompt served by this server
+   */
+  registerTemplateHelper(name: string, fn: Function): void {
+    this.promptRouter.getTemplateEngine().registerHelper(name, fn);
+  }
+
+  /**
+   * Start the MCP server over stdio or HTTP
+   */
+  async start(options: StartOptions = {}): Promise<void> {
+    const transport = options.transport || defaultConfig.server.transport;
+
+    if (transport === 'http') {
+      await this.listen(options.host || defaultConfig.server.host, options.port ?? defaultConfig.server.port);
+      this.expireIdleSessions(options.sessionIdleTimeout ?? defaultConfig.server.sessionIdleTimeout);
+    } else {
+      if (this.identity) {
+        this.primaryIdentity.caller = await this.identity.resolve(options.credentials || credentialsFromEnv(process.env));
+      }
+
+      // Connect to stdin/stdout for MCP communication
+      await this.server.connect(new StdioServerTransport());
+      this.connected = true;
+    }
+    this.watchPromptList();
     
-    console.error('PromptHub MCP Server started');
+    console.error(`PromptHub MCP Server started (${transport})`);
     
-    // Keep the process alive
-    process.on('SIGINT', async () => {
+    // Keep the process alive until a shutdown signal
+    const shutdown = async () => {
       console.error('Shutting down PromptHub MCP Server');
-      await transport.close();
+      await this.stop();
       process.exit(0);
+    };
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
+  }
+
+  /**
+   * Stop accepting requests, wait for in-flight executions (up to `server.shutdownTimeout`) and close all sessions
+   */
+  async stop(): Promise<void> {
+    if (this.shuttingDown) {
+      return;
+    }
+    this.shuttingDown = true;
+    this.stopWatchingPromptList();
+    clearInterval(this.sessionSweepTimer);
+
+    const httpServer = this.httpServer;
+    const httpClosed = httpServer
+      ? new Promise<void>(resolve => httpServer.close(() => resolve()))
+      : Promise.resolve();
+
+    await this.drainExecutions(defaultConfig.server.shutdownTimeout);
+
+    await Promise.all([...this.sessions.values()].map(session => session.server.close()));
+    this.sessions.clear();
+    if (this.connected) {
+      await this.server.close();
+      this.connected = false;
+    }
+
+    httpServer?.closeIdleConnections();
+    await httpClosed;
+    this.httpServer = undefined;
+  }
+
+  /**
+   * Address of the HTTP listener, once started with the http transport
+   */
+  getHttpAddress(): { host: string; port: number } | undefined {
+    const address = this.httpServer?.address();
+    return address && typeof address === 'object' ? { host: address.address, port: address.port } : undefined;
+  }
+
+  private async drainExecutions(timeout: number): Promise<void> {
+    if (this.inFlight.size === 0) {
+      return;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<void>(resolve => {
+      timer = setTimeout(() => {
+        console.error(`Shutdown timeout: cancelling ${this.inFlight.size} in-flight execution(s)`);
+        for (const controller of this.inFlight.values()) {
+          controller.abort(new PromptHubMCPError(ErrorCodes.EXECUTION_CANCELLED, 'Server is shutting down'));
+        }
+        resolve();
+      }, timeout);
     });
+
+    await Promise.race([Promise.allSettled([...this.inFlight.keys()]), timedOut]);
+    clearTimeout(timer);
+  }
+
+  /**
+   * Close Streamable HTTP sessions whose client has not been heard from for `timeout`, such as clients that
+   * never finished initializing or went away without a DELETE. SSE sessions end with their stream.
+   */
+  private expireIdleSessions(timeout: number): void {
+    if (timeout <= 0) {
+      return;
+    }
+
+    this.sessionSweepTimer = setInterval(() => {
+      for (const [sessionId, session] of this.sessions) {
+        if (session.transport instanceof StreamableHTTPServerTransport && session.transport.idleTime() >= timeout) {
+          session.server.close().catch(error => console.warn(`Failed to close idle session ${sessionId}:`, error));
+        }
+      }
+    }, Math.min(timeout, 60000));
+    this.sessionSweepTimer.unref();
+  }
+
+  private listen(host: string, port: number): Promise<void> {
+    const httpServer = createHttpServer((req, res) => {
+      this.handleHttpRequest(req, res).catch(error => {
+        console.error('HTTP request failed:', error);
+        if (!res.headersSent) {
+          writeJsonRpcError(res, 500, -32603, 'Internal error');
+        }
+      });
+    });
+    this.httpServer = httpServer;
+
+    return new Promise((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(port, host, () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Route Streamable HTTP requests, with the legacy SSE endpoints as a fallback for older clients
+   */
+  private async handleHttpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (this.shuttingDown) {
+      writeJsonRpcError(res, 503, -32000, 'Server is shutting down');
+      return;
+    }
+
+    const { pathname, searchParams } = new URL(req.url || '/', 'http://localhost');
+    const { httpPath, ssePath, sseMessagesPath, authChallengePath } = defaultConfig.server;
+
+    if (pathname === httpPath) {
+      await this.handleStreamableHttp(req, res);
+    } else if (pathname === ssePath && req.method === 'GET') {
+      const caller = await this.authenticateRequest(req, res);
+      if (caller !== undefined) {
+        await this.connectSession(new SSEServerTransport(sseMessagesPath, res), caller);
+      }
+    } else if (pathname === authChallengePath && req.method === 'GET') {
+      const wallets = this.identity?.getProvider(SolanaSignatureIdentityProvider);
+      if (!wallets) {
+        res.writeHead(404).end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(wallets.createChallenge()));
+    } else if (pathname === sseMessagesPath && req.method === 'POST') {
+      const session = this.sessions.get(searchParams.get('sessionId') || '');
+      if (!session || !(session.transport instanceof SSEServerTransport)) {
+        writeJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      // Failures are already answered with an error status
+      await session.transport.handlePostMessage(req, res).catch(() => undefined);
+    } else {
+      res.writeHead(404).end();
+    }
+  }
+
+  private async handleStreamableHttp(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers[SESSION_ID_HEADER];
+    let body: unknown;
+
+    if (req.method === 'POST') {
+      try {
+        body = await readJsonBody(req);
+      } catch {
+        writeJsonRpcError(res, 400, -32700, 'Parse error');
+        return;
+      }
+
+      if (sessionId === undefined && isInitializeRequest(body)) {
+        const caller = await this.authenticateRequest(req, res);
+        if (caller === undefined) {
+          return;
+        }
+
+        const transport = new StreamableHTTPServerTransport();
+        await this.connectSession(transport, caller);
+        await transport.handlePost(res, body);
+        return;
+      }
+    }
+
+    const session = typeof sessionId === 'string' ? this.sessions.get(sessionId) : undefined;
+    if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+      if (sessionId === undefined) {
+        writeJsonRpcError(res, 400, -32000, `Missing ${SESSION_ID_HEADER} header`);
+      } else {
+        writeJsonRpcError(res, 404, -32001, 'Session not found');
+      }
+      return;
+    }
+
+    switch (req.method) {
+      case 'POST':
+        await session.transport.handlePost(res, body);
+        break;
+
+      case 'GET':
+        session.transport.handleGet(req, res);
+        break;
+
+      case 'DELETE':
+        await session.server.close();
+        res.writeHead(204).end();
+        break;
+
+      default:
+        res.writeHead(405, { Allow: 'GET, POST, DELETE' }).end();
+    }
+  }
+
+  /**
+   * Resolve the caller of a new HTTP session, answering 401 when authentication fails
+   */
+  private async authenticateRequest(req: IncomingMessage, res: ServerResponse): Promise<string | undefined> {
+    if (!this.identity) {
+      return DEFAULT_CALLER;
+    }
+
+    try {
+      return await this.identity.resolve(credentialsFromHeaders(req.headers));
+    } catch (error) {
+      if (error instanceof PromptHubMCPError) {
+        writeJsonRpcError(res, 401, -32001, error.message, { code: error.code });
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private async connectSession(
+    transport: StreamableHTTPServerTransport | SSEServerTransport,
+    caller: string
+  ): Promise<void> {
+    const server = this.createServer({ caller });
+    server.onclose = () => {
+      this.sessions.delete(transport.sessionId);
+    };
+
+    this.sessions.set(transport.sessionId, { server, transport });
+    await server.connect(transport);
   }
 
   /**
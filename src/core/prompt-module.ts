@@ -8,11 +8,61 @@ import {
   PromptMetadata,
   RoyaltyConfiguration,
   AccessPolicy,
+  ContentVerification,
   PromptHubMCPError,
   ErrorCodes,
   PromptDefinitionSchema,
   ExecutionContextSchema,
 } from '../types';
+import { ModelProviderManager } from '../providers/model-provider';
+import { ModelExecutionResponse } from '../adapters/base';
+import { PromptTemplateEngine } from '../utils/template-engine';
+import { validateJsonSchema, parseJsonResponse, JsonSchema } from '../utils/json-schema';
+import { validateParameterValue } from '../utils/validation';
+import { defaultConfig } from '../config/default';
+import { TokenGateVerifier } from '../auth/token-gate';
+import { UsageQuota } from '../quota/usage-quota';
+import { abortable, createExecutionSignal, throwIfAborted } from '../utils/abort';
+
+/**
+ * Loads the modules a prompt depends on (implemented by PromptRouter)
+ */
+export interface DependencyLoader {
+  getPromptModule(promptId: string, version?: string): Promise<PromptModule>;
+}
+
+/**
+ * State shared by every module taking part in one top-level execution
+ */
+export interface DependencyExecutionState {
+  stack: string[]; // Prompt IDs from the root execution down to the current module
+  memo: Map<string, Promise<ModuleResponse>>; // Dependency results keyed by prompt ID and inputs
+}
+
+/**
+ * Optional collaborators injected into a PromptModule
+ */
+export interface PromptModuleOptions {
+  modelProvider?: ModelProviderManager | undefined;
+  dependencyLoader?: DependencyLoader | undefined;
+  templateEngine?: PromptTemplateEngine | undefined;
+  maxDependencyDepth?: number;
+  outputRepairAttempts?: number; // Extra attempts when structured output fails output_schema
+  tokenGate?: TokenGateVerifier | undefined; // Required to execute token- or NFT-gated prompts
+  usageQuota?: UsageQuota | undefined; // Enforces accessPolicy.maxUsagePerDay when set
+  executionTimeout?: number | undefined; // Milliseconds before an execution fails with EXECUTION_TIMEOUT (0 disables)
+  contentVerification?: ContentVerification | undefined; // How the vault checked the definition, if it did
+}
+
+/**
+ * Options for PromptModule.validateInput
+ */
+export interface InputValidationOptions {
+  coerce?: boolean; // Convert numeric and boolean strings to the declared type
+}
+
+// Engine used by modules that are not given one, so helpers registered on it apply everywhere
+const sharedTemplateEngine = new PromptTemplateEngine();
 
 /**
  * Core PromptModule implementation
@@ -23,10 +73,20 @@ export class PromptModule {
   private metadata: PromptMetadata;
   private executionCount: number = 0;
   private lastExecutionTime?: number;
+  private modelProvider: ModelProviderManager | undefined;
+  private dependencyLoader: DependencyLoader | undefined;
+  private maxDependencyDepth: number;
+  private outputRepairAttempts: number;
+  private templateEngine: PromptTemplateEngine;
+  private tokenGate: TokenGateVerifier | undefined;
+  private usageQuota: UsageQuota | undefined;
+  private executionTimeout: number;
+  private contentVerification: ContentVerification | undefined;
 
   constructor(
     definition: PromptDefinition,
-    metadata: PromptMetadata
+    metadata: PromptMetadata,
+    options: PromptModuleOptions = {}
   ) {
     // Validate definition on construction
     const validationResult = PromptDefinitionSchema.safeParse(definition);
@@ -38,8 +98,25 @@ export class PromptModule {
       );
     }
 
+    this.templateEngine = options.templateEngine || sharedTemplateEngine;
+
+    if (definition.template_dialect && !this.templateEngine.supportsDialect(definition.template_dialect)) {
+      throw new PromptHubMCPError(
+        ErrorCodes.VALIDATION_ERROR,
+        `Template dialect ${definition.template_dialect} is not supported (engine implements ${PromptTemplateEngine.DIALECT_VERSION})`
+      );
+    }
+
     this.definition = definition;
     this.metadata = metadata;
+    this.modelProvider = options.modelProvider;
+    this.dependencyLoader = options.dependencyLoader;
+    this.maxDependencyDepth = options.maxDependencyDepth ?? defaultConfig.validation.maxDagDepth;
+    this.outputRepairAttempts = options.outputRepairAttempts ?? defaultConfig.validation.outputRepairAttempts;
+    this.tokenGate = options.tokenGate;
+    this.usageQuota = options.usageQuota;
+    this.executionTimeout = options.executionTimeout ?? defaultConfig.security.maxExecutionTime;
+    this.contentVerification = options.contentVerification;
   }
 
   /**
@@ -61,11 +138,20 @@ export class PromptModule {
   }
 
   /**
-   * Validate input against the prompt's input schema
+   * Get the integrity check of the definition, or undefined when the vault did not check it
    */
-  validateInput(input: Record<string, any>): ValidationResult {
+  getContentVerification(): ContentVerification | undefined {
+    return this.contentVerification;
+  }
+
+  /**
+   * Validate input against the prompt's input schema.
+   * Nested values are reported by JSON pointer, e.g. `/filters/0/field`.
+   */
+  validateInput(input: Record<string, any>, options: InputValidationOptions = {}): ValidationResult {
     const errors: string[] = [];
     const warnings: string[] = [];
+    const value: Record<string, any> = { ...input };
 
     // Check required fields
     for (const [key, param] of Object.entries(this.definition.inputs)) {
@@ -75,11 +161,7 @@ export class PromptModule {
       }
 
       if (key in input) {
-        const value = input[key];
-        const validationError = this.validateParameterValue(key, value, param);
-        if (validationError) {
-          errors.push(validationError);
-        }
+        value[key] = validateParameterValue(input[key], param, [key], errors, options.coerce === true);
       }
     }
 
@@ -94,20 +176,47 @@ export class PromptModule {
       valid: errors.length === 0,
       errors,
       warnings,
+      value,
     };
   }
 
   /**
-   * Execute the prompt with given inputs and context
+   * Render the template for the given inputs without calling a model.
+   * Inputs are coerced leniently; `{{module}}` references are left unresolved.
+   */
+  renderPrompt(input: Record<string, any>): string {
+    const inputValidation = this.validateInput(input, { coerce: true });
+    if (!inputValidation.valid) {
+      throw new PromptHubMCPError(
+        ErrorCodes.INVALID_INPUT,
+        'Input validation failed',
+        inputValidation.errors
+      );
+    }
+
+    return this.renderTemplate(this.prepareExecutionInputs(inputValidation.value || input), {});
+  }
+
+  /**
+   * Execute the prompt with given inputs and context.
+   * `dependencyState` is only passed when this module runs as another module's dependency.
    */
   async execute(
     input: Record<string, any>,
-    context: ExecutionContext
+    context: ExecutionContext,
+    dependencyState?: DependencyExecutionState
   ): Promise<ModuleResponse> {
     const startTime = Date.now();
     const executionId = uuidv4();
+    let usageRecordedAt: number | undefined;
+
+    // Aborts on the caller's signal or when this execution runs out of time; dependencies inherit it
+    const execution = createExecutionSignal(context.signal, this.executionTimeout);
+    context = { ...context, signal: execution.signal };
 
     try {
+      throwIfAborted(context.signal);
+
       // Validate context
       const contextValidation = ExecutionContextSchema.safeParse(context);
       if (!contextValidation.success) {
@@ -118,8 +227,8 @@ export class PromptModule {
         );
       }
 
-      // Validate inputs
-      const inputValidation = this.validateInput(input);
+      // Validate inputs, coercing string values when the caller asked for lenient mode
+      const inputValidation = this.validateInput(input, { coerce: context.validationMode === 'lenient' });
       if (!inputValidation.valid) {
         throw new PromptHubMCPError(
           ErrorCodes.INVALID_INPUT,
@@ -129,15 +238,17 @@ export class PromptModule {
       }
 
       // Check access permissions
-      await this.checkAccess(context.caller);
+      await this.assertAccess(context.caller);
+      usageRecordedAt = await this.consumeUsage(context.caller);
 
       // Prepare execution inputs with defaults
-      const executionInputs = this.prepareExecutionInputs(input);
+      const executionInputs = this.prepareExecutionInputs(inputValidation.value || input);
 
       // Resolve dependencies if any
       const resolvedDependencies = await this.resolveDependencies(
         executionInputs,
-        context
+        context,
+        dependencyState || { stack: [this.definition.id], memo: new Map() }
       );
 
       // Render template with inputs
@@ -146,13 +257,23 @@ export class PromptModule {
         resolvedDependencies
       );
 
-      // Execute the prompt (this would integrate with actual AI models)
-      const output = await this.executePrompt(
+      // Execute the rendered prompt against the selected model adapter
+      const { provider, response, structuredOutput, tokenUsage, attempts } = await this.executePrompt(
         renderedPrompt,
-        context,
-        executionId
+        executionInputs,
+        context
       );
 
+      // Object and array schemas yield the parsed JSON; other prompts return the text
+      const output = this.expectsStructuredOutput()
+        ? structuredOutput
+        : {
+            text: response.content,
+            finishReason: response.finishReason,
+            executionId,
+            timestamp: Date.now(),
+          };
+
       // Update execution statistics
       this.executionCount++;
       this.lastExecutionTime = Date.now();
@@ -176,11 +297,18 @@ export class PromptModule {
           version: this.definition.version,
           executionTime,
           timestamp: startTime,
+          modelProvider: provider,
+          model: response.metadata?.model,
+          attempts,
         },
         executionTime,
+        tokenUsage,
         signature,
       };
     } catch (error) {
+      if (usageRecordedAt !== undefined) {
+        await this.refundUsage(context.caller, usageRecordedAt);
+      }
       const executionTime = Date.now() - startTime;
       
       if (error instanceof PromptHubMCPError) {
@@ -220,6 +348,8 @@ export class PromptModule {
         },
         executionTime,
       };
+    } finally {
+      execution.dispose();
     }
   }
 
@@ -260,71 +390,6 @@ export class PromptModule {
 
   // Private helper methods
 
-  private validateParameterValue(
-    key: string,
-    value: any,
-    param: any
-  ): string | null {
-    // Type validation
-    switch (param.type) {
-      case 'string':
-        if (typeof value !== 'string') {
-          return `Parameter '${key}' must be a string`;
-        }
-        if (param.minLength && value.length < param.minLength) {
-          return `Parameter '${key}' must be at least ${param.minLength} characters`;
-        }
-        if (param.maxLength && value.length > param.maxLength) {
-          return `Parameter '${key}' must be at most ${param.maxLength} characters`;
-        }
-        if (param.pattern && !new RegExp(param.pattern).test(value)) {
-          return `Parameter '${key}' does not match required pattern`;
-        }
-        if (param.enum && !param.enum.includes(value)) {
-          return `Parameter '${key}' must be one of: ${param.enum.join(', ')}`;
-        }
-        break;
-
-      case 'number':
-        if (typeof value !== 'number') {
-          return `Parameter '${key}' must be a number`;
-        }
-        if (param.minimum !== undefined && value < param.minimum) {
-          return `Parameter '${key}' must be at least ${param.minimum}`;
-        }
-        if (param.maximum !== undefined && value > param.maximum) {
-          return `Parameter '${key}' must be at most ${param.maximum}`;
-        }
-        break;
-
-      case 'boolean':
-        if (typeof value !== 'boolean') {
-          return `Parameter '${key}' must be a boolean`;
-        }
-        break;
-
-      case 'array':
-        if (!Array.isArray(value)) {
-          return `Parameter '${key}' must be an array`;
-        }
-        if (param.minItems && value.length < param.minItems) {
-          return `Parameter '${key}' must have at least ${param.minItems} items`;
-        }
-        if (param.maxItems && value.length > param.maxItems) {
-          return `Parameter '${key}' must have at most ${param.maxItems} items`;
-        }
-        break;
-
-      case 'object':
-        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
-          return `Parameter '${key}' must be an object`;
-        }
-        break;
-    }
-
-    return null;
-  }
-
   private prepareExecutionInputs(input: Record<string, any>): Record<string, any> {
     const executionInputs: Record<string, any> = {};
 
@@ -342,7 +407,8 @@ export class PromptModule {
 
   private async resolveDependencies(
     inputs: Record<string, any>,
-    context: ExecutionContext
+    context: ExecutionContext,
+    state: DependencyExecutionState
   ): Promise<Record<string, any>> {
     const resolved: Record<string, any> = {};
 
@@ -350,60 +416,197 @@ export class PromptModule {
       return resolved;
     }
 
-    // This would integrate with PromptRouter to resolve dependencies
-    // For now, return empty resolved dependencies
-    // TODO: Implement dependency resolution
-    
+    if (!this.dependencyLoader) {
+      throw new PromptHubMCPError(
+        ErrorCodes.EXECUTION_FAILED,
+        `Prompt ${this.definition.id} has dependencies but no dependency loader is configured`
+      );
+    }
+
+    if (state.stack.length > this.maxDependencyDepth) {
+      throw new PromptHubMCPError(
+        ErrorCodes.VALIDATION_ERROR,
+        `Dependency depth exceeds maximum of ${this.maxDependencyDepth}`,
+        { path: state.stack }
+      );
+    }
+
+    for (const dependencyId of this.definition.dependencies) {
+      if (state.stack.includes(dependencyId)) {
+        throw new PromptHubMCPError(
+          ErrorCodes.VALIDATION_ERROR,
+          `Circular dependency detected: ${[...state.stack, dependencyId].join(' -> ')}`,
+          { path: [...state.stack, dependencyId] }
+        );
+      }
+
+      const module = await this.dependencyLoader.getPromptModule(dependencyId);
+
+      // Only forward the inputs the dependency declares
+      const dependencyInputs: Record<string, any> = {};
+      for (const key of Object.keys(module.getDefinition().inputs)) {
+        if (key in inputs) {
+          dependencyInputs[key] = inputs[key];
+        }
+      }
+
+      const memoKey = `${dependencyId}:${JSON.stringify(dependencyInputs)}`;
+      let pending = state.memo.get(memoKey);
+      if (!pending) {
+        pending = module.execute(dependencyInputs, context, {
+          stack: [...state.stack, dependencyId],
+          memo: state.memo,
+        });
+        state.memo.set(memoKey, pending);
+      }
+
+      const result = await pending;
+      if (!result.success) {
+        const error = result.metadata?.error;
+        throw new PromptHubMCPError(
+          error?.code || ErrorCodes.EXECUTION_FAILED,
+          `Dependency ${dependencyId} failed: ${error?.message || 'Unknown error'}`,
+          error?.details
+        );
+      }
+
+      resolved[dependencyId] = this.stringifyDependencyOutput(result.output);
+    }
+
     return resolved;
   }
 
+  private stringifyDependencyOutput(output: any): string {
+    if (output && typeof output.text === 'string') {
+      return output.text;
+    }
+    return typeof output === 'string' ? output : JSON.stringify(output);
+  }
+
   private renderTemplate(
     inputs: Record<string, any>,
     dependencies: Record<string, any>
   ): string {
-    let rendered = this.definition.template;
+    return this.templateEngine.render(this.definition.template, {
+      variables: inputs,
+      dependencies,
+    });
+  }
 
-    // Simple template rendering - replace {{variable}} with values
-    for (const [key, value] of Object.entries(inputs)) {
-      const placeholder = `{{${key}}}`;
-      const stringValue = typeof value === 'string' ? value : JSON.stringify(value);
-      rendered = rendered.replace(new RegExp(placeholder, 'g'), stringValue);
+  private async executePrompt(
+    renderedPrompt: string,
+    inputs: Record<string, any>,
+    context: ExecutionContext
+  ): Promise<{
+    provider: string;
+    response: ModelExecutionResponse;
+    structuredOutput?: any;
+    tokenUsage?: ModuleResponse['tokenUsage'];
+    attempts: number;
+  }> {
+    if (!this.modelProvider) {
+      throw new PromptHubMCPError(
+        ErrorCodes.EXECUTION_FAILED,
+        'No model provider configured for prompt execution'
+      );
     }
 
-    // Replace dependency references
-    for (const [key, value] of Object.entries(dependencies)) {
-      const placeholder = `{{${key}}}`;
-      const stringValue = typeof value === 'string' ? value : JSON.stringify(value);
-      rendered = rendered.replace(new RegExp(placeholder, 'g'), stringValue);
+    // Context provider takes precedence over the models declared by the prompt
+    const { provider, adapter } = this.modelProvider.selectAdapter(
+      context.modelProvider,
+      this.definition.models
+    );
+
+    const structured = this.expectsStructuredOutput();
+    const schema = this.definition.output_schema;
+    const maxAttempts = structured ? this.outputRepairAttempts + 1 : 1;
+    let prompt = renderedPrompt;
+    let tokenUsage: ModuleResponse['tokenUsage'];
+    let violations: string[] = [];
+    let response: ModelExecutionResponse | undefined;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      // Adapters merge execution_settings over their defaults via prepareSettings and abort
+      // their requests on context.signal; the race covers adapters that ignore it
+      response = await abortable(adapter.execute({
+        prompt,
+        inputs,
+        settings: this.definition.execution_settings || {},
+        context,
+        ...(structured && adapter.supportsJsonMode() ? { responseSchema: schema } : {}),
+      }), context.signal);
+
+      if (response.tokenUsage) {
+        tokenUsage = {
+          promptTokens: (tokenUsage?.promptTokens || 0) + response.tokenUsage.promptTokens,
+          completionTokens: (tokenUsage?.completionTokens || 0) + response.tokenUsage.completionTokens,
+          totalTokens: (tokenUsage?.totalTokens || 0) + response.tokenUsage.totalTokens,
+        };
+      }
+
+      if (!structured) {
+        return { provider, response, ...(tokenUsage ? { tokenUsage } : {}), attempts: attempt };
+      }
+
+      const parsed = parseJsonResponse(response.content);
+      violations = parsed.error !== undefined
+        ? [`Response is not valid JSON: ${parsed.error}`]
+        : validateJsonSchema(parsed.value, schema as JsonSchema);
+
+      if (violations.length === 0) {
+        return {
+          provider,
+          response,
+          structuredOutput: parsed.value,
+          ...(tokenUsage ? { tokenUsage } : {}),
+          attempts: attempt,
+        };
+      }
+
+      prompt = this.buildRepairPrompt(renderedPrompt, response.content, violations);
     }
 
-    return rendered;
+    throw new PromptHubMCPError(
+      ErrorCodes.VALIDATION_ERROR,
+      `Model output did not match output_schema after ${maxAttempts} attempt(s)`,
+      {
+        violations,
+        attempts: maxAttempts,
+        rawOutput: response?.content,
+      }
+    );
   }
 
-  private async executePrompt(
-    renderedPrompt: string,
-    context: ExecutionContext,
-    executionId: string
-  ): Promise<any> {
-    // This is where the actual AI model execution would happen
-    // For now, return a mock response
-    // TODO: Integrate with actual AI models via MCP
-    
-    return {
-      text: `Mock response for prompt: ${this.definition.name}`,
-      renderedPrompt,
-      executionId,
-      timestamp: Date.now(),
-    };
+  private expectsStructuredOutput(): boolean {
+    return ['object', 'array'].includes(this.definition.output_schema.type);
+  }
+
+  private buildRepairPrompt(originalPrompt: string, previousOutput: string, violations: string[]): string {
+    return [
+      originalPrompt,
+      '',
+      'Your previous response did not match the required output schema.',
+      'Problems:',
+      ...violations.map(violation => `- ${violation}`),
+      '',
+      'Previous response:',
+      previousOutput,
+      '',
+      'Respond again with only valid JSON matching this schema:',
+      JSON.stringify(this.definition.output_schema, null, 2),
+    ].join('\n');
   }
 
-  private async checkAccess(caller: string): Promise<void> {
+  /**
+   * Throw when the prompt's access policy does not admit the caller, or access has expired
+   */
+  async assertAccess(caller: string): Promise<void> {
     const policy = this.metadata.accessPolicy;
 
     switch (policy.type) {
       case 'public':
-        // Public access - no restrictions
-        return;
+        // Public access - no restrictions beyond expiration and usage limits
+        break;
 
       case 'private':
         if (caller !== this.metadata.author) {
@@ -412,16 +615,17 @@ export class PromptModule {
             'This prompt is private and can only be accessed by the author'
           );
         }
-        return;
-
-      case 'token_gated':
-        // TODO: Implement token balance checking
-        // This would check if the caller has sufficient token balance
         break;
 
+      case 'token_gated':
       case 'nft_gated':
-        // TODO: Implement NFT ownership checking
-        // This would check if the caller owns the required NFT
+        if (!this.tokenGate) {
+          throw new PromptHubMCPError(
+            ErrorCodes.ACCESS_DENIED,
+            `Access to this ${policy.type === 'nft_gated' ? 'NFT' : 'token'}-gated prompt cannot be verified`
+          );
+        }
+        await this.tokenGate.assertAccess(caller, policy);
         break;
 
       case 'custom':
@@ -441,8 +645,31 @@ export class PromptModule {
         'Access to this prompt has expired'
       );
     }
+  }
+
+  /**
+   * Count an execution against the caller's daily allowance; returns when it was recorded, if it was
+   */
+  private async consumeUsage(caller: string): Promise<number | undefined> {
+    const limit = this.metadata.accessPolicy.maxUsagePerDay;
+    if (limit === undefined || !this.usageQuota) {
+      return undefined;
+    }
+    return (await this.usageQuota.consume(caller, this.definition.id, limit)).recordedAt;
+  }
 
-    // TODO: Implement rate limiting based on maxUsagePerDay
+  /**
+   * Give back the allowance of a failed execution; the allowance is taken up front so concurrent runs cannot exceed it
+   */
+  private async refundUsage(caller: string, recordedAt: number): Promise<void> {
+    if (!this.usageQuota) {
+      return;
+    }
+    try {
+      await this.usageQuota.refund(caller, this.definition.id, recordedAt);
+    } catch (error) {
+      console.warn(`Failed to refund usage of ${this.definition.id} for ${caller}:`, error);
+    }
   }
 
   private generateExecutionSignature(
@@ -1,5 +1,13 @@
-import { PromptVaultClient } from './vault-client';
+import { VaultBackend } from '../vault/vault-backend';
 import { PromptModule } from './prompt-module';
+import { ModelProviderManager } from '../providers/model-provider';
+import { PromptTemplateEngine } from '../utils/template-engine';
+import { UsageQuota } from '../quota/usage-quota';
+import { abortError, createExecutionSignal, delay } from '../utils/abort';
+import { readJsonPath } from '../utils/json-path';
+import { compileExpression } from '../utils/expression';
+import { dagDependencies, validateDAGDefinition } from '../utils/validation';
+import { defaultConfig } from '../config/default';
 import {
   PromptMetadata,
   PromptDefinition,
@@ -7,6 +15,10 @@ import {
   PromptExecutionResult,
   PromptHubMCPError,
   ErrorCodes,
+  DAGDefinition,
+  DAGEdge,
+  DAGNode,
+  ValidationResult,
 } from '../types';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -25,30 +37,41 @@ export interface SearchQuery {
 }
 
 /**
- * DAG node definition
+ * DAG definitions are validated against DAGDefinitionSchema; see validateDAGDefinition.
+ *
+ * Node kinds:
+ * - `prompt` runs `promptId` once
+ * - `condition` evaluates `expression`; its outgoing edges whose `when` equals the value are taken
+ * - `map` runs `promptId` for each element of `items`, its output is the array of their outputs
+ * - `reduce` runs `promptId` for each element of `items` in order, passing the previous output as the accumulator
+ *
+ * A node's inputs are assembled in this order, later sources overriding earlier ones:
+ * 1. root inputs passed to `executeDag`
+ * 2. whole outputs of dependencies that have no edge to the node (merged when they are objects)
+ * 3. the node's static `inputs`
+ * 4. values mapped by edges into the node, in edge order
+ *
+ * Expressions of condition, map and reduce nodes see every finished node's output by node ID
+ * and the root inputs as `input`, e.g. `classify.label == 'spam'` or `input.documents`.
+ * Edges out of a condition node without `when` are taken when no other edge matched.
+ * A node is skipped when all its edges from condition nodes were not taken, or when all its
+ * dependencies were skipped that way; such skips are not failures.
  */
-export interface DAGNode {
-  id: string;
-  promptId: string;
-  version?: string;
-  inputs: Record<string, any>;
-  dependencies: string[]; // IDs of nodes this depends on
-}
+export type { DAGNodeKind, DAGNode, DAGEdge, DAGDefinition } from '../types';
+
+/**
+ * How a DAG node ended: `fallback` succeeded through its fallback prompt, `skipped` never ran
+ * because a dependency failed, its branch was not taken, or the run stopped first
+ */
+export type DAGNodeStatus = 'succeeded' | 'failed' | 'skipped' | 'fallback';
 
 /**
- * DAG definition
+ * Outcome of one DAG node
  */
-export interface DAGDefinition {
-  id: string;
-  name: string;
-  description: string;
-  nodes: DAGNode[];
-  edges: Array<{
-    from: string;
-    to: string;
-    outputKey?: string;
-    inputKey?: string;
-  }>;
+export interface DAGNodeReport {
+  status: DAGNodeStatus;
+  attempts: number; // Executions tried, including retries and fallback attempts
+  error?: any;
 }
 
 /**
@@ -59,22 +82,90 @@ export interface DAGExecutionResult {
   results: Record<string, any>; // Node ID -> execution result
   executionOrder: string[];
   totalExecutionTime: number;
+  nodes: Record<string, DAGNodeReport>; // Node ID -> status and attempts
   error?: {
     nodeId: string;
     error: any;
-  };
+  }; // First failure
+  errors?: Array<{
+    nodeId: string;
+    error: any;
+  }>; // Every failure of a required node, in the order they occurred
+}
+
+/**
+ * How one node's execution ended, before it is recorded in the DAG result
+ */
+interface NodeOutcome {
+  result: PromptExecutionResult | undefined;
+  attempts: number;
+  fallback: boolean;
+  error: any;
+}
+
+// Failures a retry cannot fix
+const NON_RETRYABLE_ERRORS: ReadonlySet<string> = new Set([
+  ErrorCodes.PROMPT_NOT_FOUND,
+  ErrorCodes.INVALID_INPUT,
+  ErrorCodes.VALIDATION_ERROR,
+  ErrorCodes.ACCESS_DENIED,
+  ErrorCodes.INSUFFICIENT_BALANCE,
+  ErrorCodes.EXECUTION_CANCELLED,
+]);
+
+/**
+ * Collaborators shared by every module the router loads
+ */
+export interface PromptRouterOptions {
+  modelProvider?: ModelProviderManager | undefined;
+  templateEngine?: PromptTemplateEngine;
+  usageQuota?: UsageQuota | undefined; // Defaults to in-memory counting
+  executionTimeout?: number | undefined; // Deadline for each prompt execution and each whole DAG run
+  maxDagConcurrency?: number | undefined; // DAG nodes executed at once
+  maxDagNodes?: number | undefined; // Limit on DAG size, counting each map/reduce element as a node
+  maxDagDepth?: number | undefined; // Limit on the longest dependency chain
 }
 
 /**
  * PromptRouter - Semantic routing and orchestration for prompts
  */
 export class PromptRouter {
-  private vaultClient: PromptVaultClient;
-  private moduleCache: Map<string, PromptModule> = new Map();
+  private vaultClient: VaultBackend;
+  private moduleCache: Map<string, PromptModule> = new Map(); // By `promptId@resolvedVersion`
+  private resolvedVersions: Map<string, string> = new Map(); // Requested `promptId@spec` to its module cache key
+  private vaultPartials: Array<{ name: string; version: string }> = []; // Registered on the engine by loadPartials
   private searchIndex: Map<string, PromptMetadata[]> = new Map();
-
-  constructor(vaultClient: PromptVaultClient) {
+  private modelProvider: ModelProviderManager | undefined;
+  private templateEngine: PromptTemplateEngine;
+  private usageQuota: UsageQuota;
+  private executionTimeout: number;
+  private maxDagConcurrency: number;
+  private maxDagNodes: number;
+  private maxDagDepth: number;
+
+  constructor(vaultClient: VaultBackend, options: PromptRouterOptions = {}) {
     this.vaultClient = vaultClient;
+    this.modelProvider = options.modelProvider;
+    this.templateEngine = options.templateEngine || new PromptTemplateEngine();
+    this.usageQuota = options.usageQuota || new UsageQuota();
+    this.executionTimeout = options.executionTimeout ?? defaultConfig.security.maxExecutionTime;
+    this.maxDagConcurrency = Math.max(1, options.maxDagConcurrency ?? defaultConfig.server.maxDagConcurrency);
+    this.maxDagNodes = options.maxDagNodes ?? defaultConfig.validation.maxDagNodes;
+    this.maxDagDepth = options.maxDagDepth ?? defaultConfig.validation.maxDagDepth;
+  }
+
+  /**
+   * Get the quota that counts executions of this router's modules
+   */
+  getUsageQuota(): UsageQuota {
+    return this.usageQuota;
+  }
+
+  /**
+   * Get the template engine shared by this router's modules (e.g. to register helpers)
+   */
+  getTemplateEngine(): PromptTemplateEngine {
+    return this.templateEngine;
   }
 
   /**
@@ -199,7 +290,7 @@ export class PromptRouter {
         output: result.output,
         metadata: {
           promptId,
-          version: version || 'latest',
+          version: module.getMetadata().version,
           executionId,
           timestamp: startTime,
           executionTime,
@@ -208,8 +299,8 @@ export class PromptRouter {
         },
         signature: result.signature,
         error: result.success ? undefined : {
-          code: ErrorCodes.EXECUTION_FAILED,
-          message: 'Prompt execution failed',
+          code: result.metadata?.error?.code || ErrorCodes.EXECUTION_FAILED,
+          message: result.metadata?.error?.message || 'Prompt execution failed',
           details: result.metadata,
         },
       };
@@ -236,7 +327,9 @@ export class PromptRouter {
   }
 
   /**
-   * Execute a DAG of prompts
+   * Execute a DAG of prompts. Nodes run as soon as all their dependencies have settled,
+   * up to `maxDagConcurrency` at once. Failed nodes are retried and fall back as their policy says;
+   * what a remaining failure does depends on `optional` and the DAG's `errorMode`.
    */
   async executeDag(
     dag: DAGDefinition,
@@ -246,97 +339,417 @@ export class PromptRouter {
     const startTime = Date.now();
     const results: Record<string, any> = {};
     const executionOrder: string[] = [];
+    const nodes: Record<string, DAGNodeReport> = {};
+    const errors: NonNullable<DAGExecutionResult['errors']> = [];
 
-    try {
-      // Validate DAG structure
-      this.validateDAG(dag);
+    // One deadline covers the whole run; nodes that already finished are kept in the results
+    const execution = createExecutionSignal(context?.signal, this.executionTimeout);
 
-      // Topological sort to determine execution order
-      const sortedNodes = this.topologicalSort(dag);
+    // Validate the definition and the prompts it references before running anything
+    const validation = await this.validateDag(dag);
+    if (!validation.valid) {
+      execution.dispose();
+      return {
+        success: false,
+        results,
+        executionOrder,
+        totalExecutionTime: Date.now() - startTime,
+        nodes,
+        error: {
+          nodeId: 'validation',
+          error: new PromptHubMCPError(
+            ErrorCodes.VALIDATION_ERROR,
+            `Invalid DAG definition: ${validation.errors.join('; ')}`,
+            { errors: validation.errors, warnings: validation.warnings }
+          ),
+        },
+      };
+    }
+    dag = validation.value as DAGDefinition;
+    const dependencies = dagDependencies(dag);
+
+    const collectErrors = dag.errorMode === 'collectErrors';
+    const dagEdges = dag.edges;
+    const optional = new Set(dag.nodes.filter(node => node.optional).map(node => node.id));
+    const conditions = new Set(dag.nodes.filter(node => node.kind === 'condition').map(node => node.id));
+    const conditionValues = new Map<string, any>();
+    const inactive = new Set<string>(); // Nodes skipped because their branch was not taken
+    const pending = [...dag.nodes];
+    const running = new Set<Promise<void>>();
+    const stopped = () => errors.length > 0 && !collectErrors;
+    let expandedSize = dag.nodes.length;
+
+    // Edges from condition nodes are taken when `when` matches, or when unset and no other edge matched
+    const taken = (edge: DAGEdge): boolean => {
+      if (!conditions.has(edge.from)) {
+        return true;
+      }
+      if (!conditionValues.has(edge.from)) {
+        return false;
+      }
+      const value = conditionValues.get(edge.from);
+      if (edge.when !== undefined) {
+        return edge.when === value;
+      }
+      return !dagEdges.some(other => other.from === edge.from && other.when !== undefined && other.when === value);
+    };
 
-      // Execute nodes in order
-      for (const node of sortedNodes) {
-        const nodeStartTime = Date.now();
-        
-        try {
-          // Prepare inputs for this node
-          const nodeInputs = this.prepareNodeInputs(node, rootInputs, results);
-
-          // Create execution context
-          const nodeContext: ExecutionContext = {
-            caller: context?.caller || 'dag-executor',
-            modelProvider: context?.modelProvider,
-            timestamp: nodeStartTime,
-            requestId: uuidv4(),
-            previousOutputs: results,
-          };
-
-          // Execute the node
-          const nodeResult = await this.executePrompt(
-            node.promptId,
-            nodeInputs,
-            nodeContext,
-            node.version
-          );
+    // Outputs of finished nodes and the root inputs, as seen by node expressions
+    const scope = (): Record<string, any> => {
+      const outputs: Record<string, any> = {};
+      for (const [nodeId, result] of Object.entries(results)) {
+        outputs[nodeId] = result?.output;
+      }
+      return { ...outputs, input: rootInputs };
+    };
+
+    // Evaluate a map/reduce node's elements and count them against maxDagNodes
+    const itemsOf = (node: DAGNode): any[] => {
+      const items = compileExpression(node.items!)(scope());
+      if (!Array.isArray(items)) {
+        throw new PromptHubMCPError(ErrorCodes.VALIDATION_ERROR, `Items of node ${node.id} are not an array: ${node.items}`);
+      }
+      expandedSize += items.length;
+      if (expandedSize > this.maxDagNodes) {
+        throw new PromptHubMCPError(
+          ErrorCodes.VALIDATION_ERROR,
+          `Expanded DAG exceeds the limit of ${this.maxDagNodes} nodes`,
+          { nodeId: node.id, items: items.length }
+        );
+      }
+      return items;
+    };
+
+    const runNode = async (node: DAGNode): Promise<void> => {
+      const nodeStartTime = Date.now();
+      const nodeContext: ExecutionContext = {
+        caller: context?.caller || 'dag-executor',
+        modelProvider: context?.modelProvider,
+        timestamp: nodeStartTime,
+        requestId: uuidv4(),
+        previousOutputs: results,
+        signal: execution.signal,
+      };
+      const edges = dagEdges.filter(edge => edge.to === node.id);
+      const inputs = this.prepareNodeInputs(node, edges, taken, dependencies.get(node.id)!, rootInputs, results);
+
+      let outcome: NodeOutcome;
+      try {
+        switch (node.kind ?? 'prompt') {
+          case 'condition': {
+            const value = compileExpression(node.expression!)(scope());
+            conditionValues.set(node.id, value);
+            outcome = { result: this.nodeResult(node, value, nodeStartTime), attempts: 0, fallback: false, error: undefined };
+            break;
+          }
+          case 'map':
+            outcome = await this.executeMapNode(node, itemsOf(node), inputs, nodeContext);
+            break;
+          case 'reduce':
+            outcome = await this.executeReduceNode(node, itemsOf(node), inputs, nodeContext);
+            break;
+          default:
+            outcome = await this.executeNodeWithPolicy(node, inputs, nodeContext);
+        }
+      } catch (error) {
+        // Thrown before any attempt, e.g. by an expression or items that are not an array
+        outcome = { result: undefined, attempts: 1, fallback: false, error };
+      }
+      const { result, attempts, fallback, error } = outcome;
+
+      executionOrder.push(node.id);
+      if (result?.success) {
+        results[node.id] = result;
+        nodes[node.id] = { status: fallback ? 'fallback' : 'succeeded', attempts };
+        return;
+      }
+
+      nodes[node.id] = { status: 'failed', attempts, error };
+      if (node.optional) {
+        // Dependents run with a null output in place of this node's
+        results[node.id] = { ...(result || { success: false, metadata: {} }), output: null, error };
+      } else {
+        if (result) {
+          results[node.id] = result;
+        }
+        errors.push({ nodeId: node.id, error });
+      }
+    };
+
+    // Whether the node can no longer run because a required dependency did not succeed
+    const blocked = (node: DAGNode) =>
+      [...dependencies.get(node.id)!].some(dependency => {
+        const report = nodes[dependency];
+        return report && (
+          (report.status === 'skipped' && !inactive.has(dependency)) ||
+          (report.status === 'failed' && !optional.has(dependency))
+        );
+      });
 
-          results[node.id] = nodeResult;
-          executionOrder.push(node.id);
-
-          // If node failed and no error handling, fail the entire DAG
-          if (!nodeResult.success) {
-            return {
-              success: false,
-              results,
-              executionOrder,
-              totalExecutionTime: Date.now() - startTime,
-              error: {
-                nodeId: node.id,
-                error: nodeResult.error,
-              },
-            };
+    // Whether the node is on a branch that was not taken; only known once its dependencies finished
+    const branchNotTaken = (node: DAGNode) => {
+      const conditional = dagEdges.filter(edge => edge.to === node.id && conditions.has(edge.from));
+      const dependencyIds = [...dependencies.get(node.id)!];
+      return (conditional.length > 0 && !conditional.some(taken)) ||
+        (dependencyIds.length > 0 && dependencyIds.every(dependency => inactive.has(dependency)));
+    };
+
+    try {
+      while (!stopped() && (pending.length > 0 || running.size > 0)) {
+        // Running nodes fail on their own once aborted; report the first node that never started
+        if (execution.signal.aborted && pending.length > 0) {
+          errors.push({ nodeId: pending[0]!.id, error: abortError(execution.signal) });
+          break;
+        }
+
+        // Start every ready node the concurrency limit allows, in definition order
+        for (let i = 0; i < pending.length && running.size < this.maxDagConcurrency; ) {
+          const node = pending[i]!;
+          if (blocked(node)) {
+            pending.splice(i, 1);
+            nodes[node.id] = { status: 'skipped', attempts: 0 };
+            i = 0; // Dependents of a skipped node may come earlier in the list
+          } else if ([...dependencies.get(node.id)!].every(dependency => dependency in nodes)) {
+            pending.splice(i, 1);
+            if (branchNotTaken(node)) {
+              nodes[node.id] = { status: 'skipped', attempts: 0 };
+              inactive.add(node.id);
+              i = 0;
+              continue;
+            }
+            const task: Promise<void> = runNode(node).finally(() => running.delete(task));
+            running.add(task);
+          } else {
+            i++;
           }
-        } catch (error) {
-          return {
-            success: false,
-            results,
-            executionOrder,
-            totalExecutionTime: Date.now() - startTime,
-            error: {
-              nodeId: node.id,
-              error,
-            },
-          };
+        }
+
+        if (running.size > 0) {
+          await Promise.race(running);
         }
       }
 
+      // Let nodes that are still running finish so their results are reported
+      await Promise.allSettled(running);
+
+      // Nodes that never started after the run stopped
+      for (const node of pending) {
+        nodes[node.id] = { status: 'skipped', attempts: 0 };
+      }
+
       return {
-        success: true,
-        results,
-        executionOrder,
-        totalExecutionTime: Date.now() - startTime,
-      };
-    } catch (error) {
-      return {
-        success: false,
+        success: errors.length === 0,
         results,
         executionOrder,
         totalExecutionTime: Date.now() - startTime,
-        error: {
-          nodeId: 'validation',
-          error,
-        },
+        nodes,
+        ...(errors.length > 0 ? { error: errors[0], errors } : {}),
       };
+    } finally {
+      execution.dispose();
     }
   }
 
   /**
-   * Get cached prompt module or load from vault
+   * Run a map node's prompt for every element, at most `concurrency` at once.
+   * The first failing element stops new ones from starting and fails the node.
    */
-  private async getPromptModule(promptId: string, version?: string): Promise<PromptModule> {
-    const cacheKey = `${promptId}@${version || 'latest'}`;
+  private async executeMapNode(
+    node: DAGNode,
+    items: any[],
+    inputs: Record<string, any>,
+    context: ExecutionContext
+  ): Promise<NodeOutcome> {
+    const startTime = Date.now();
+    const itemInput = node.itemInput || 'item';
+    const outputs: any[] = new Array(items.length);
+    let next = 0;
+    let attempts = 0;
+    let fallback = false;
+    let failure: NodeOutcome | undefined;
+
+    const worker = async () => {
+      while (!failure && next < items.length) {
+        const index = next++;
+        const outcome = await this.executeNodeWithPolicy(node, { ...inputs, [itemInput]: items[index] }, context);
+        attempts += outcome.attempts;
+        fallback ||= outcome.fallback;
+
+        if (outcome.result?.success) {
+          outputs[index] = outcome.result.output;
+        } else {
+          failure ??= { ...outcome, error: { ...outcome.error, itemIndex: index } };
+        }
+      }
+    };
 
-    if (this.moduleCache.has(cacheKey)) {
-      return this.moduleCache.get(cacheKey)!;
+    const concurrency = Math.max(1, node.concurrency ?? this.maxDagConcurrency);
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+
+    if (failure) {
+      return { ...failure, attempts };
+    }
+    return { result: this.nodeResult(node, outputs, startTime), attempts, fallback, error: undefined };
+  }
+
+  /**
+   * Run a reduce node's prompt for every element in order, feeding each output into the next step
+   */
+  private async executeReduceNode(
+    node: DAGNode,
+    items: any[],
+    inputs: Record<string, any>,
+    context: ExecutionContext
+  ): Promise<NodeOutcome> {
+    const startTime = Date.now();
+    const itemInput = node.itemInput || 'item';
+    const accumulatorInput = node.accumulatorInput || 'accumulator';
+    let accumulator = node.initial ?? null;
+    let attempts = 0;
+    let fallback = false;
+
+    for (const [index, item] of items.entries()) {
+      const outcome = await this.executeNodeWithPolicy(
+        node,
+        { ...inputs, [accumulatorInput]: accumulator, [itemInput]: item },
+        context
+      );
+      attempts += outcome.attempts;
+      fallback ||= outcome.fallback;
+
+      if (!outcome.result?.success) {
+        return { ...outcome, attempts, error: { ...outcome.error, itemIndex: index } };
+      }
+      accumulator = outcome.result.output;
+    }
+
+    return { result: this.nodeResult(node, accumulator, startTime), attempts, fallback, error: undefined };
+  }
+
+  /**
+   * Run a node's prompt with retries and backoff, then its fallback prompt with the same retries
+   */
+  private async executeNodeWithPolicy(
+    node: DAGNode,
+    inputs: Record<string, any>,
+    context: ExecutionContext
+  ): Promise<NodeOutcome> {
+    const signal = context.signal!;
+    const retries = Math.max(0, node.retries ?? 0);
+    const retryDelay = node.retryDelay ?? defaultConfig.errorHandling.retryDelay;
+    const candidates: Array<{ promptId: string; version?: string | undefined }> = [
+      { promptId: node.promptId!, version: node.version },
+      ...(node.fallbackPromptId ? [{ promptId: node.fallbackPromptId }] : []),
+    ];
+
+    let attempts = 0;
+    let result!: PromptExecutionResult;
+    for (const [index, candidate] of candidates.entries()) {
+      for (let retry = 0; retry <= retries; retry++) {
+        if (retry > 0) {
+          const backoff = defaultConfig.errorHandling.exponentialBackoff ? retryDelay * 2 ** (retry - 1) : retryDelay;
+          try {
+            await delay(backoff, signal);
+          } catch (error) {
+            // Aborted while waiting to retry; the attempts made so far are still reported
+            return { result, attempts, fallback: false, error };
+          }
+        }
+
+        attempts++;
+        result = await this.executePrompt(
+          candidate.promptId,
+          inputs,
+          { ...context, timestamp: Date.now(), requestId: uuidv4() },
+          candidate.version
+        );
+        if (result.success) {
+          return { result, attempts, fallback: index > 0, error: undefined };
+        }
+        if (signal.aborted || (result.error && NON_RETRYABLE_ERRORS.has(result.error.code))) {
+          break;
+        }
+      }
+
+      if (signal.aborted) {
+        break;
+      }
+    }
+
+    return { result, attempts, fallback: false, error: result.error };
+  }
+
+  /**
+   * Result of a node whose output is computed by the router rather than by one prompt execution
+   */
+  private nodeResult(node: DAGNode, output: any, startTime: number): PromptExecutionResult {
+    return {
+      success: true,
+      output,
+      metadata: {
+        promptId: node.promptId || node.id,
+        version: node.version || 'latest',
+        executionId: uuidv4(),
+        timestamp: startTime,
+        executionTime: Date.now() - startTime,
+      },
+    };
+  }
+
+  /**
+   * Validate a DAG definition (see validateDAGDefinition) and check it against the vault:
+   * every prompt and fallback prompt must exist and declare the inputs the DAG passes it by name.
+   * All problems are reported at once; the parsed definition is returned as `value`.
+   */
+  async validateDag(dag: unknown): Promise<ValidationResult> {
+    const validation = validateDAGDefinition(dag, { maxNodes: this.maxDagNodes, maxDepth: this.maxDagDepth });
+    if (!validation.value) {
+      return validation;
+    }
+
+    const definition = validation.value as DAGDefinition;
+    const errors = [...validation.errors];
+
+    await Promise.all(definition.nodes.map(async node => {
+      const candidates = [
+        ...(node.promptId ? [{ promptId: node.promptId, version: node.version }] : []),
+        ...(node.fallbackPromptId ? [{ promptId: node.fallbackPromptId, version: undefined }] : []),
+      ];
+
+      for (const { promptId, version } of candidates) {
+        let declared: PromptDefinition['inputs'];
+        try {
+          declared = (await this.getPromptModule(promptId, version)).getDefinition().inputs;
+        } catch (error) {
+          errors.push(
+            error instanceof PromptHubMCPError && error.code === ErrorCodes.PROMPT_NOT_FOUND
+              ? `Node ${node.id}: unknown prompt '${promptId}${version ? `@${version}` : ''}'`
+              : `Node ${node.id}: prompt '${promptId}' could not be loaded: ${error instanceof Error ? error.message : error}`
+          );
+          continue;
+        }
+
+        for (const key of this.namedNodeInputs(node, definition)) {
+          if (!(key in declared)) {
+            errors.push(`Node ${node.id}: prompt '${promptId}' does not declare input '${key}'`);
+          }
+        }
+      }
+    }));
+
+    return { ...validation, valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Get cached prompt module or load from vault. `version` may be an exact version, a range or a tag;
+   * modules are cached by the version it resolves to, so specs resolving alike share one module.
+   */
+  async getPromptModule(promptId: string, version?: string): Promise<PromptModule> {
+    const requested = `${promptId}@${version || 'latest'}`;
+    const resolvedKey = this.resolvedVersions.get(requested);
+
+    if (resolvedKey && this.moduleCache.has(resolvedKey)) {
+      return this.moduleCache.get(resolvedKey)!;
     }
 
     // Load from vault
@@ -348,13 +761,75 @@ export class PromptRouter {
       );
     }
 
+    const cacheKey = `${promptId}@${promptData.metadata.version}`;
+    this.resolvedVersions.set(requested, cacheKey);
+    if (this.moduleCache.has(cacheKey)) {
+      return this.moduleCache.get(cacheKey)!;
+    }
+
+    // Partials must be registered before the module renders its template
+    await this.loadPartials(promptData.definition.template);
+
     // Create module and cache it
-    const module = new PromptModule(promptData.definition, promptData.metadata);
+    const module = new PromptModule(promptData.definition, promptData.metadata, {
+      modelProvider: this.modelProvider,
+      dependencyLoader: this,
+      templateEngine: this.templateEngine,
+      tokenGate: this.vaultClient.getTokenGateVerifier?.(),
+      usageQuota: this.usageQuota,
+      executionTimeout: this.executionTimeout,
+      contentVerification: promptData.verification,
+    });
     this.moduleCache.set(cacheKey, module);
 
     return module;
   }
 
+  /**
+   * Drop cached modules and the partials loaded for them, so the next lookup reloads both from the vault.
+   * Partials registered on the template engine directly are kept.
+   */
+  clearModuleCache(): void {
+    this.moduleCache.clear();
+    this.resolvedVersions.clear();
+    for (const { name, version } of this.vaultPartials) {
+      this.templateEngine.unregisterPartial(name, version);
+    }
+    this.vaultPartials = [];
+  }
+
+  /**
+   * Load partials referenced by a template (and by those partials) from the vault
+   * into the shared template engine
+   */
+  private async loadPartials(template: string, visited: Set<string> = new Set()): Promise<void> {
+    for (const reference of this.templateEngine.extractPartials(template)) {
+      const key = `${reference.name}@${reference.version || 'latest'}`;
+      if (visited.has(key)) {
+        continue;
+      }
+      visited.add(key);
+
+      const registered = this.templateEngine.resolvePartial(reference.name, reference.version);
+      if (registered) {
+        await this.loadPartials(registered.template, visited);
+        continue;
+      }
+
+      const partial = await this.vaultClient.getPartial(reference.name, reference.version);
+      if (!partial) {
+        throw new PromptHubMCPError(
+          ErrorCodes.PROMPT_NOT_FOUND,
+          `Partial not found: ${reference.name}${reference.version ? `@${reference.version}` : ''}`
+        );
+      }
+
+      this.templateEngine.registerPartial(reference.name, partial.template, partial.version);
+      this.vaultPartials.push({ name: reference.name, version: partial.version });
+      await this.loadPartials(partial.template, visited);
+    }
+  }
+
   /**
    * Build search index for faster queries
    */
@@ -419,116 +894,61 @@ export class PromptRouter {
   }
 
   /**
-   * Validate DAG structure
+   * Input names a DAG explicitly passes to a node's prompt: static inputs, edge targets and element inputs
    */
-  private validateDAG(dag: DAGDefinition): void {
-    const nodeIds = new Set(dag.nodes.map(n => n.id));
-
-    // Check for duplicate node IDs
-    if (nodeIds.size !== dag.nodes.length) {
-      throw new PromptHubMCPError(
-        ErrorCodes.VALIDATION_ERROR,
-        'DAG contains duplicate node IDs'
-      );
-    }
-
-    // Check that all dependencies exist
-    for (const node of dag.nodes) {
-      for (const dep of node.dependencies) {
-        if (!nodeIds.has(dep)) {
-          throw new PromptHubMCPError(
-            ErrorCodes.VALIDATION_ERROR,
-            `Node ${node.id} depends on non-existent node ${dep}`
-          );
-        }
+  private namedNodeInputs(node: DAGNode, dag: DAGDefinition): Set<string> {
+    const keys = new Set(Object.keys(node.inputs));
+    for (const edge of dag.edges) {
+      if (edge.to === node.id && edge.inputKey !== undefined) {
+        keys.add(edge.inputKey);
       }
     }
-
-    // Check for cycles
-    if (this.hasCycles(dag)) {
-      throw new PromptHubMCPError(
-        ErrorCodes.VALIDATION_ERROR,
-        'DAG contains cycles'
-      );
+    if (node.kind === 'map' || node.kind === 'reduce') {
+      keys.add(node.itemInput || 'item');
     }
-  }
-
-  /**
-   * Topological sort for DAG execution order
-   */
-  private topologicalSort(dag: DAGDefinition): DAGNode[] {
-    const visited = new Set<string>();
-    const temp = new Set<string>();
-    const result: DAGNode[] = [];
-    const nodeMap = new Map(dag.nodes.map(n => [n.id, n]));
-
-    const visit = (nodeId: string) => {
-      if (temp.has(nodeId)) {
-        throw new PromptHubMCPError(
-          ErrorCodes.VALIDATION_ERROR,
-          'DAG contains cycles'
-        );
-      }
-      if (visited.has(nodeId)) {
-        return;
-      }
-
-      temp.add(nodeId);
-      const node = nodeMap.get(nodeId)!;
-      
-      for (const dep of node.dependencies) {
-        visit(dep);
-      }
-
-      temp.delete(nodeId);
-      visited.add(nodeId);
-      result.unshift(node);
-    };
-
-    for (const node of dag.nodes) {
-      if (!visited.has(node.id)) {
-        visit(node.id);
-      }
-    }
-
-    return result;
-  }
-
-  /**
-   * Check if DAG has cycles
-   */
-  private hasCycles(dag: DAGDefinition): boolean {
-    try {
-      this.topologicalSort(dag);
-      return false;
-    } catch {
-      return true;
+    if (node.kind === 'reduce') {
+      keys.add(node.accumulatorInput || 'accumulator');
     }
+    return keys;
   }
 
   /**
-   * Prepare inputs for a DAG node
+   * Prepare inputs for a DAG node following the precedence documented on DAGDefinition
    */
   private prepareNodeInputs(
     node: DAGNode,
+    edges: DAGEdge[], // Edges into the node
+    taken: (edge: DAGEdge) => boolean, // Whether a branch edge was selected by its condition
+    dependencies: Set<string>,
     rootInputs: Record<string, any>,
     previousResults: Record<string, any>
   ): Record<string, any> {
-    const inputs = { ...node.inputs };
-
-    // Replace dependency references with actual values
-    for (const dep of node.dependencies) {
-      if (previousResults[dep] && previousResults[dep].success) {
-        // Merge dependency output into inputs
-        const depOutput = previousResults[dep].output;
-        if (typeof depOutput === 'object' && depOutput !== null) {
-          Object.assign(inputs, depOutput);
-        }
+    const inputs: Record<string, any> = { ...rootInputs };
+    const outputOf = (nodeId: string) => previousResults[nodeId]?.output;
+
+    // Dependencies without edges pass their whole output
+    for (const dep of dependencies) {
+      const depOutput = outputOf(dep);
+      if (!edges.some(edge => edge.from === dep) && typeof depOutput === 'object' && depOutput !== null) {
+        Object.assign(inputs, depOutput);
       }
     }
 
-    // Merge root inputs
-    Object.assign(inputs, rootInputs);
+    Object.assign(inputs, node.inputs);
+
+    // Edges map selected output values to specific inputs; missing values are left unset
+    for (const edge of edges.filter(taken)) {
+      const value = edge.outputKey === undefined ? outputOf(edge.from) : readJsonPath(outputOf(edge.from), edge.outputKey);
+      if (value === undefined) {
+        continue;
+      }
+
+      if (edge.inputKey !== undefined) {
+        inputs[edge.inputKey] = value;
+      } else if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+        Object.assign(inputs, value);
+      }
+    }
 
     return inputs;
   }
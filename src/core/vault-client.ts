@@ -1,11 +1,26 @@
 import * as anchor from '@coral-xyz/anchor';
-import { Connection, PublicKey, Keypair } from '@solana/web3.js';
-import axios from 'axios';
+import { Connection, PublicKey, Keypair, GetProgramAccountsFilter } from '@solana/web3.js';
+import { TokenGateVerifier } from '../auth/token-gate';
+import { VaultBackend, VaultMetadata, VaultPrompt, PromptListFilters } from '../vault/vault-backend';
+import { resolveVersion } from '../utils/semver';
+import { isSha256Digest, parseCid, verification, verifyCanonicalHash } from '../vault/content-integrity';
+import { IpfsClient } from '../vault/ipfs-client';
+import {
+  PROMPT_ACCOUNT,
+  PROMPT_STATUS_ACTIVE,
+  PROMPT_KIND_PARTIAL,
+  accountFieldOffset,
+  loadPromptVaultIdl,
+} from '../vault/prompt-vault-idl';
 import {
   PromptDefinition,
+  PromptPartial,
+  PromptPartialSchema,
   PromptMetadata,
   PromptVaultEntry,
+  ContentVerification,
   BlockchainConfig,
+  IpfsConfig,
   PromptHubMCPError,
   ErrorCodes,
 } from '../types';
@@ -13,17 +28,29 @@ import {
 /**
  * Client for interacting with PromptVault on Solana blockchain
  */
-export class PromptVaultClient {
+export class PromptVaultClient implements VaultBackend {
   private connection: Connection;
   private program: anchor.Program | null = null;
   private wallet: anchor.Wallet | null = null;
   private config: BlockchainConfig;
+  private promptChangeListeners: Set<() => void> = new Set();
+  private tokenGate: TokenGateVerifier;
+  private ipfs: IpfsClient;
 
-  constructor(config: BlockchainConfig) {
+  constructor(config: BlockchainConfig, connection?: Connection, ipfs: IpfsConfig = {}) {
     this.config = config;
-    this.connection = new Connection(config.rpcUrl, {
+    this.connection = connection || new Connection(config.rpcUrl, {
       commitment: config.commitment || 'confirmed',
     });
+    this.tokenGate = new TokenGateVerifier(this.connection);
+    this.ipfs = new IpfsClient(ipfs);
+  }
+
+  /**
+   * Verifier used for token- and NFT-gated access checks
+   */
+  getTokenGateVerifier(): TokenGateVerifier {
+    return this.tokenGate;
   }
 
   /**
@@ -51,9 +78,7 @@ export class PromptVaultClient {
 
       anchor.setProvider(provider);
 
-      // Load program IDL (this would be loaded from the deployed program)
-      // For now, we'll create a mock program interface
-      this.program = await this.loadProgram();
+      this.program = await this.loadProgram(provider);
     } catch (error) {
       throw new PromptHubMCPError(
         ErrorCodes.BLOCKCHAIN_ERROR,
@@ -64,12 +89,11 @@ export class PromptVaultClient {
   }
 
   /**
-   * Get a prompt by ID and optional version
+   * Get a prompt by ID and optional version, range or tag (see resolveVersion), resolved against
+   * the account's version history and tags; the current version when none is given.
+   * The definition is checked against the version's content hash before it is returned.
    */
-  async getPrompt(
-    promptId: string,
-    version?: string
-  ): Promise<{ definition: PromptDefinition; metadata: PromptMetadata } | null> {
+  async getPrompt(promptId: string, version?: string): Promise<VaultPrompt | null> {
     try {
       // Get prompt data from blockchain
       const promptData = await this.getPromptFromChain(promptId);
@@ -77,36 +101,21 @@ export class PromptVaultClient {
         return null;
       }
 
-      // Fetch full definition from IPFS
-      const definition = await this.fetchFromIPFS(promptData.metadataUri);
-
-      // Convert blockchain data to metadata format
-      const metadata: PromptMetadata = {
-        id: promptData.id,
-        name: definition.name,
-        description: definition.description,
-        version: version || definition.version,
-        author: promptData.owner,
-        license: definition.license,
-        tags: definition.tags || [],
-        createdAt: promptData.createdAt,
-        updatedAt: promptData.lastUpdated,
-        executionCount: 0, // This would be tracked separately
-        accessPolicy: {
-          type: this.mapLicenseTypeToAccessPolicy(promptData.licenseType),
-          tokenAddress: promptData.tokenGate,
-          minimumBalance: promptData.feeAmount?.toString(),
-        },
-        royaltyConfig: {
-          creatorShare: 6000, // 60%
-          daoShare: 1500,     // 15%
-          validatorShare: 1500, // 15%
-          burnShare: 1000,    // 10%
-        },
-      };
+      const fetched = await this.fetchEntryVersion(promptData, version, content => content as PromptDefinition);
+      if (!fetched) {
+        return null;
+      }
 
-      return { definition, metadata };
+      return {
+        definition: fetched.content,
+        metadata: this.toMetadata(promptData, fetched.content),
+        contentHash: fetched.contentHash,
+        verification: fetched.verification,
+      };
     } catch (error) {
+      if (this.isContentError(error)) {
+        throw error;
+      }
       throw new PromptHubMCPError(
         ErrorCodes.BLOCKCHAIN_ERROR,
         `Failed to get prompt: ${promptId}`,
@@ -116,45 +125,69 @@ export class PromptVaultClient {
   }
 
   /**
-   * List all prompts in the vault
+   * Get a template partial by ID and optional version, range or tag, resolved against the
+   * account's version history like getPrompt
    */
-  async listPrompts(
-    filters?: {
-      author?: string;
-      tags?: string[];
-      limit?: number;
-      offset?: number;
+  async getPartial(partialId: string, version?: string): Promise<PromptPartial | null> {
+    try {
+      const entry = await this.getPromptFromChain(partialId);
+      if (!entry) {
+        return null;
+      }
+
+      if (entry.kind && entry.kind !== 'partial') {
+        throw new PromptHubMCPError(
+          ErrorCodes.VALIDATION_ERROR,
+          `Vault entry ${partialId} is not a partial`
+        );
+      }
+
+      const fetched = await this.fetchEntryVersion(entry, version, content => {
+        const parsed = PromptPartialSchema.safeParse(content);
+        if (!parsed.success) {
+          throw new PromptHubMCPError(
+            ErrorCodes.VALIDATION_ERROR,
+            `Invalid partial definition: ${partialId}`,
+            parsed.error.errors
+          );
+        }
+        return parsed.data;
+      });
+
+      return fetched ? fetched.content : null;
+    } catch (error) {
+      if (this.isContentError(error)) {
+        throw error;
+      }
+      throw new PromptHubMCPError(
+        ErrorCodes.BLOCKCHAIN_ERROR,
+        `Failed to get partial: ${partialId}`,
+        error
+      );
     }
-  ): Promise<PromptMetadata[]> {
+  }
+
+  /**
+   * List the vault's active prompts, oldest first.
+   * `author` is the owner's wallet address; `tags` keeps prompts carrying all of the given tags,
+   * which needs every definition from IPFS before `offset` and `limit` apply.
+   */
+  async listPrompts(filters: PromptListFilters = {}): Promise<PromptMetadata[]> {
     try {
-      // This would query the blockchain for all prompt accounts
-      // For now, return mock data
-      const mockPrompts: PromptMetadata[] = [
-        {
-          id: 'text-summarizer-v1',
-          name: 'Text Summarizer',
-          description: 'Summarizes long text into concise points',
-          version: '1.0.0',
-          author: 'PromptHub',
-          license: 'MIT',
-          tags: ['text', 'summarization', 'utility'],
-          createdAt: Date.now() - 86400000,
-          updatedAt: Date.now() - 86400000,
-          executionCount: 150,
-          averageRating: 4.5,
-          accessPolicy: {
-            type: 'public',
-          },
-          royaltyConfig: {
-            creatorShare: 6000,
-            daoShare: 1500,
-            validatorShare: 1500,
-            burnShare: 1000,
-          },
-        },
-      ];
+      if (filters.author && !this.isPublicKey(filters.author)) {
+        return []; // Only wallets own prompt accounts
+      }
 
-      return mockPrompts;
+      const entries = (await this.getPromptsFromChain(filters.author))
+        .sort((a, b) => a.createdAt - b.createdAt || a.id.localeCompare(b.id));
+      const offset = filters.offset ?? 0;
+      const page = <T>(items: T[]) => items.slice(offset, filters.limit === undefined ? undefined : offset + filters.limit);
+
+      if (!filters.tags?.length) {
+        return await this.withDefinitions(page(entries));
+      }
+      const tags = filters.tags;
+      return page((await this.withDefinitions(entries)).filter(prompt => tags.every(tag => prompt.tags.includes(tag))));
     } catch (error) {
       throw new PromptHubMCPError(
         ErrorCodes.BLOCKCHAIN_ERROR,
@@ -164,6 +197,16 @@ export class PromptVaultClient {
     }
   }
 
+  /**
+   * Subscribe to changes of the vault's prompt list; returns an unsubscribe function
+   */
+  onPromptsChanged(listener: () => void): () => void {
+    this.promptChangeListeners.add(listener);
+    return () => {
+      this.promptChangeListeners.delete(listener);
+    };
+  }
+
   /**
    * Register a new prompt in the vault
    */
@@ -184,14 +227,12 @@ export class PromptVaultClient {
 
       // Create prompt account on blockchain
       const promptId = definition.id;
-      const [promptDataPDA] = PublicKey.findProgramAddressSync(
-        [Buffer.from('prompt'), Buffer.from(promptId)],
-        new PublicKey(this.config.programId)
-      );
+      const promptDataPDA = this.promptAddress(promptId);
 
       // This would call the actual smart contract
       // For now, return success
       console.log(`Registering prompt ${promptId} at ${promptDataPDA.toString()}`);
+      this.notifyPromptsChanged();
       
       return promptId;
     } catch (error) {
@@ -241,19 +282,11 @@ export class PromptVaultClient {
   /**
    * Get vault metadata and statistics
    */
-  async getVaultMetadata(): Promise<{
-    totalPrompts: number;
-    totalExecutions: number;
-    totalAuthors: number;
-    networkInfo: {
-      network: string;
-      programId: string;
-      rpcUrl: string;
-    };
-  }> {
+  async getVaultMetadata(): Promise<VaultMetadata> {
     try {
       // This would query the vault state account
       return {
+        backend: 'solana',
         totalPrompts: 42,
         totalExecutions: 1337,
         totalAuthors: 15,
@@ -304,6 +337,13 @@ export class PromptVaultClient {
             };
           }
           return { hasAccess: false, reason: 'Token gate not configured' };
+
+        case 3: // NFT gated
+          if (promptData.tokenGate) {
+            const ownsNft = await this.tokenGate.ownsNft(caller, promptData.tokenGate);
+            return ownsNft ? { hasAccess: true } : { hasAccess: false, reason: 'Required NFT not held' };
+          }
+          return { hasAccess: false, reason: 'NFT gate not configured' };
         
         case 2: // Private
           return {
@@ -325,47 +365,267 @@ export class PromptVaultClient {
 
   // Private helper methods
 
-  private async loadProgram(): Promise<anchor.Program> {
-    // This would load the actual program IDL
-    // For now, return a mock program
-    return {} as anchor.Program;
+  private notifyPromptsChanged(): void {
+    for (const listener of this.promptChangeListeners) {
+      try {
+        listener();
+      } catch (error) {
+        console.warn('Prompt change listener failed:', error);
+      }
+    }
+  }
+
+  private async loadProgram(provider: anchor.Provider): Promise<anchor.Program> {
+    const programId = new PublicKey(this.config.programId);
+    const idl = await loadPromptVaultIdl(programId, provider, this.config.idlPath);
+    return new anchor.Program(idl, programId, provider);
+  }
+
+  private requireProgram(): anchor.Program {
+    if (!this.program) {
+      throw new PromptHubMCPError(ErrorCodes.BLOCKCHAIN_ERROR, 'Client not initialized');
+    }
+    return this.program;
+  }
+
+  private promptAddress(promptId: string): PublicKey {
+    const [address] = PublicKey.findProgramAddressSync(
+      [Buffer.from('prompt'), Buffer.from(promptId)],
+      new PublicKey(this.config.programId)
+    );
+    return address;
   }
 
   private async getPromptFromChain(promptId: string): Promise<PromptVaultEntry | null> {
-    try {
-      // This would query the actual blockchain account
-      // For now, return mock data
-      return {
-        id: promptId,
-        owner: 'PromptHub',
-        contentHash: 'mock_hash',
-        metadataUri: 'ipfs://QmMockHash123',
-        licenseType: 0, // Public
-        createdAt: Date.now() - 86400000,
-        lastUpdated: Date.now() - 86400000,
-        versionHistory: [],
-        status: 1, // Active
-      };
-    } catch (error) {
-      console.error('Error fetching prompt from chain:', error);
+    const program = this.requireProgram();
+    const account = await this.connection.getAccountInfo(this.promptAddress(promptId));
+    if (!account || !account.owner.equals(program.programId)) {
       return null;
     }
+    return this.decodeEntry(account.data);
   }
 
-  private async fetchFromIPFS(uri: string): Promise<PromptDefinition> {
-    try {
-      // Convert IPFS URI to HTTP gateway URL
-      const httpUrl = uri.replace('ipfs://', 'https://ipfs.io/ipfs/');
-      
-      const response = await axios.get(httpUrl, { timeout: 10000 });
-      return response.data;
-    } catch (error) {
+  /**
+   * Active prompt accounts, optionally of one owner
+   */
+  private async getPromptsFromChain(owner?: string | undefined): Promise<PromptVaultEntry[]> {
+    const program = this.requireProgram();
+    const filters: GetProgramAccountsFilter[] = [{ memcmp: program.coder.accounts.memcmp(PROMPT_ACCOUNT) }];
+    const matches: Array<[string, Buffer]> = [['status', Buffer.from([PROMPT_STATUS_ACTIVE])]];
+    if (owner) {
+      matches.push(['owner', new PublicKey(owner).toBuffer()]);
+    }
+
+    // Fields behind variable-size data cannot be matched by the RPC node; the check below covers them
+    for (const [field, bytes] of matches) {
+      const offset = accountFieldOffset(program.idl, PROMPT_ACCOUNT, field);
+      if (offset !== undefined) {
+        filters.push({ memcmp: { offset, bytes: anchor.utils.bytes.bs58.encode(bytes) } });
+      }
+    }
+
+    const accounts = await this.connection.getProgramAccounts(program.programId, { filters });
+    return accounts
+      .map(({ account }) => this.decodeEntry(account.data))
+      .filter(entry =>
+        entry.status === PROMPT_STATUS_ACTIVE &&
+        entry.kind !== 'partial' &&
+        (!owner || entry.owner === owner)
+      );
+  }
+
+  private decodeEntry(data: Buffer): PromptVaultEntry {
+    const account = this.requireProgram().coder.accounts.decode(PROMPT_ACCOUNT, data);
+    // On-chain timestamps are Unix seconds
+    const toMillis = (seconds: anchor.BN) => seconds.toNumber() * 1000;
+
+    return {
+      id: account.id,
+      ...(account.kind !== undefined ? { kind: account.kind === PROMPT_KIND_PARTIAL ? 'partial' as const : 'prompt' as const } : {}),
+      owner: account.owner.toBase58(),
+      contentHash: account.contentHash,
+      metadataUri: account.metadataUri,
+      licenseType: account.licenseType,
+      ...(account.tokenGate ? { tokenGate: account.tokenGate.toBase58() } : {}),
+      ...(account.feeAmount ? { feeAmount: account.feeAmount.toNumber() } : {}),
+      createdAt: toMillis(account.createdAt),
+      lastUpdated: toMillis(account.lastUpdated),
+      versionHistory: (account.versionHistory || []).map((entry: any) => ({
+        version: entry.version,
+        contentHash: entry.contentHash,
+        timestamp: toMillis(entry.timestamp),
+      })),
+      ...(account.versionTags
+        ? { versionTags: Object.fromEntries(account.versionTags.map((tag: any) => [tag.name, tag.version])) }
+        : {}),
+      status: account.status,
+    };
+  }
+
+  /**
+   * Metadata of entries whose definitions could be fetched; the others are skipped
+   */
+  private async withDefinitions(entries: PromptVaultEntry[]): Promise<PromptMetadata[]> {
+    const prompts = await Promise.all(entries.map(async entry => {
+      try {
+        const { content } = await this.fetchVerified<PromptDefinition>(entry.metadataUri, entry.contentHash);
+        return this.toMetadata(entry, content);
+      } catch (error) {
+        // One unreachable definition must not hide the rest of the vault
+        console.warn(`Skipping prompt ${entry.id}:`, error);
+        return null;
+      }
+    }));
+    return prompts.filter((prompt): prompt is PromptMetadata => prompt !== null);
+  }
+
+  /**
+   * Fetch the version of an entry a spec resolves to, checked against its content hash.
+   * Entries without a history only know their current version.
+   */
+  private async fetchEntryVersion<T extends { version: string }>(
+    entry: PromptVaultEntry,
+    spec: string | undefined,
+    parse: (content: unknown) => T
+  ): Promise<{ content: T; contentHash: string; verification: ContentVerification } | null> {
+    if (entry.versionHistory.length === 0) {
+      const fetched = await this.fetchVerified(entry.metadataUri, entry.contentHash);
+      const content = parse(fetched.content);
+      if (spec && !resolveVersion([content.version], spec)) {
+        return null;
+      }
+      return { content, contentHash: entry.contentHash, verification: fetched.verification };
+    }
+
+    const resolved = this.resolveHistoryVersion(entry, spec);
+    if (!resolved) {
+      return null;
+    }
+
+    const fetched = await this.fetchVerified(this.versionUri(entry, resolved), resolved.contentHash);
+    const content = parse(fetched.content);
+    if (content.version !== resolved.version) {
       throw new PromptHubMCPError(
-        ErrorCodes.NETWORK_ERROR,
-        `Failed to fetch from IPFS: ${uri}`,
-        error
+        ErrorCodes.VALIDATION_ERROR,
+        `Definition of ${entry.id}@${resolved.version} declares version ${content.version}`
       );
     }
+    return { content, contentHash: resolved.contentHash, verification: fetched.verification };
+  }
+
+  /**
+   * Where a version is fetched from: the account's metadataUri for its current content, otherwise
+   * the version's content hash, which can only be fetched when it is a CID
+   */
+  private versionUri(entry: PromptVaultEntry, resolved: { version: string; contentHash: string }): string {
+    if (resolved.contentHash === entry.contentHash) {
+      return entry.metadataUri;
+    }
+    if (!parseCid(resolved.contentHash)) {
+      throw new PromptHubMCPError(
+        ErrorCodes.VALIDATION_ERROR,
+        `${entry.id}@${resolved.version} cannot be fetched: its content hash is a sha256 digest rather than a CID, ` +
+          'and only the current version has a metadata URI'
+      );
+    }
+    return `ipfs://${resolved.contentHash}`;
+  }
+
+  /**
+   * The history entry a version spec resolves to. The account's current content is the `latest` tag
+   * unless the account tags another version; when a version was published twice the newer entry wins.
+   */
+  private resolveHistoryVersion(
+    entry: PromptVaultEntry,
+    spec?: string
+  ): { version: string; contentHash: string } | null {
+    const history = [...entry.versionHistory].sort((a, b) => a.timestamp - b.timestamp);
+    const hashes = new Map(history.map(published => [published.version, published.contentHash]));
+    const current = history.filter(published => published.contentHash === entry.contentHash).pop() || history[history.length - 1]!;
+
+    const version = resolveVersion(Array.from(hashes.keys()), spec || 'latest', {
+      latest: current.version,
+      ...entry.versionTags,
+    });
+    return version ? { version, contentHash: hashes.get(version)! } : null;
+  }
+
+  private toMetadata(entry: PromptVaultEntry, definition: PromptDefinition): PromptMetadata {
+    return {
+      id: entry.id,
+      name: definition.name,
+      description: definition.description,
+      version: definition.version,
+      author: entry.owner,
+      license: definition.license,
+      tags: definition.tags || [],
+      createdAt: entry.createdAt,
+      updatedAt: entry.lastUpdated,
+      executionCount: 0, // This would be tracked separately
+      accessPolicy: {
+        type: this.mapLicenseTypeToAccessPolicy(entry.licenseType),
+        tokenAddress: entry.tokenGate,
+        minimumBalance: entry.feeAmount?.toString(),
+      },
+      royaltyConfig: {
+        creatorShare: 6000, // 60%
+        daoShare: 1500,     // 15%
+        validatorShare: 1500, // 15%
+        burnShare: 1000,    // 10%
+      },
+    };
+  }
+
+  private isPublicKey(value: string): boolean {
+    try {
+      new PublicKey(value);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Errors about the vault's content itself, reported as they are rather than as blockchain failures
+   */
+  private isContentError(error: unknown): boolean {
+    return error instanceof PromptHubMCPError &&
+      (error.code === ErrorCodes.VALIDATION_ERROR || error.code === ErrorCodes.INTEGRITY_CHECK_FAILED);
+  }
+
+  /**
+   * Fetch content and check it against its on-chain hash, so a gateway cannot substitute it.
+   * A CID is checked against the raw block it addresses, which is then fetched by CID rather than
+   * from `uri`; a hex digest against the sha256 of the canonical JSON fetched from `uri`.
+   */
+  private async fetchVerified<T = unknown>(
+    uri: string,
+    contentHash: string
+  ): Promise<{ content: T; verification: ContentVerification }> {
+    if (parseCid(contentHash)) {
+      const { content, source } = await this.ipfs.fetchBlock(contentHash);
+      return { content: this.parseJson(content, contentHash), verification: verification(contentHash, source) };
+    }
+
+    if (isSha256Digest(contentHash)) {
+      const { content, source } = await this.ipfs.fetchFile(uri, fetched => {
+        verifyCanonicalHash(contentHash, this.parseJson(fetched, uri));
+      });
+      return { content: this.parseJson(content, uri), verification: verification(contentHash, source) };
+    }
+
+    throw new PromptHubMCPError(
+      ErrorCodes.INTEGRITY_CHECK_FAILED,
+      `Content hash is neither a CID nor a sha256 digest: ${contentHash}`
+    );
+  }
+
+  private parseJson<T>(content: Buffer, location: string): T {
+    try {
+      return JSON.parse(content.toString('utf8'));
+    } catch (error) {
+      throw new PromptHubMCPError(ErrorCodes.VALIDATION_ERROR, `Content of ${location} is not JSON`, error);
+    }
   }
 
   private async uploadToIPFS(data: any): Promise<string> {
@@ -398,13 +658,7 @@ export class PromptVaultClient {
     tokenMint: string,
     requiredAmount: number
   ): Promise<boolean> {
-    try {
-      // This would check actual token balance
-      // For now, return true
-      return true;
-    } catch (error) {
-      console.error('Error checking token balance:', error);
-      return false;
-    }
+    const balance = await this.tokenGate.getTokenBalance(wallet, tokenMint);
+    return balance >= BigInt(requiredAmount);
   }
 } 
\ No newline at end of file
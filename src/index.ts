@@ -1,9 +1,35 @@
+import { PromptHubMCPServer, PromptToolOptions, StartOptions } from './core/mcp-server';
+import { VaultBackend, VaultBackendConfig, createVaultBackend } from './vault/vault-backend';
+import { PromptRouter } from './core/prompt-router';
+import { ModelProviderManager, ModelProviderConfig } from './providers/model-provider';
+import { AuthConfig, createCallerIdentityResolver } from './auth/caller-identity';
+import { UsageQuota, UsageStoreConfig, createUsageStore } from './quota/usage-quota';
+import { admissionConfigFrom } from './quota/request-admission';
+import { getConfig } from './config/default';
+import { IpfsConfig } from './types';
+
 // Core exports
 export { PromptModule } from './core/prompt-module';
-export { PromptHubMCPServer } from './core/mcp-server';
+export { PromptHubMCPServer, PROMPT_TOOL_PREFIX } from './core/mcp-server';
+export type { PromptHubMCPServerOptions, PromptToolOptions, StartOptions, MCPTransportType } from './core/mcp-server';
 export { PromptVaultClient } from './core/vault-client';
 export { PromptRouter } from './core/prompt-router';
 
+// Vault backend exports
+export { FilesystemVaultBackend } from './vault/filesystem-backend';
+export { createVaultBackend } from './vault/vault-backend';
+export { canonicalHash, canonicalJson } from './vault/content-integrity';
+export { IpfsClient } from './vault/ipfs-client';
+export type { IpfsContent } from './vault/ipfs-client';
+export type {
+  VaultBackend,
+  VaultBackendConfig,
+  VaultBackendType,
+  VaultMetadata,
+  VaultPrompt,
+  PromptListFilters,
+} from './vault/vault-backend';
+
 // Type exports
 export * from './types';
 
@@ -12,10 +38,31 @@ export { createMCPServer } from './utils/server-factory';
 export { validatePromptDSL } from './utils/validation';
 export { PromptTemplateEngine } from './utils/template-engine';
 
+// Caller authentication exports
+export {
+  CallerIdentityResolver,
+  ApiKeyIdentityProvider,
+  HmacTokenIdentityProvider,
+  SolanaSignatureIdentityProvider,
+  createCallerIdentityResolver,
+  challengeMessage,
+} from './auth/caller-identity';
+export type { CallerCredentials, CallerIdentityProvider, WalletSignature, AuthConfig } from './auth/caller-identity';
+export { TokenGateVerifier } from './auth/token-gate';
+export type { TokenGateConnection, TokenGateOptions } from './auth/token-gate';
+
+// Usage quota exports
+export { UsageQuota, MemoryUsageStore, FileUsageStore, createUsageStore } from './quota/usage-quota';
+export type { UsageStore, UsageStoreConfig, UsageStatus } from './quota/usage-quota';
+export { RequestAdmission, TokenBucket, Semaphore, admissionConfigFrom } from './quota/request-admission';
+export type { AdmissionConfig } from './quota/request-admission';
+
 // Model adapter exports
 export { OpenAIAdapter } from './adapters/openai';
 export { AnthropicAdapter } from './adapters/anthropic';
 export { BaseModelAdapter } from './adapters/base';
+export { ModelProviderManager } from './providers/model-provider';
+export type { ModelProviderConfig } from './providers/model-provider';
 
 // Configuration
 export { defaultConfig } from './config/default';
@@ -25,36 +72,43 @@ export { defaultConfig } from './config/default';
  */
 export class PromptHubMCP {
   private server: PromptHubMCPServer | null = null;
-  private vaultClient: PromptVaultClient | null = null;
+  private vaultClient: VaultBackend | null = null;
   private router: PromptRouter | null = null;
 
   /**
    * Initialize PromptHub MCP with configuration
    */
   async initialize(config: {
-    blockchain: {
+    blockchain?: {
       network: 'localnet' | 'devnet' | 'mainnet-beta';
       rpcUrl: string;
       programId: string;
       keypairPath?: string;
+      idlPath?: string; // PromptVault IDL JSON; fetched from chain when unset
     };
+    vault?: VaultBackendConfig; // Where prompts are stored; the Solana PromptVault by default
+    ipfs?: IpfsConfig; // Gateways and cache the 'solana' backend fetches definitions through
     server: {
       name: string;
       version: string;
     };
+    models?: ModelProviderConfig;
+    templateHelpers?: Record<string, Function>;
+    promptTools?: PromptToolOptions;
+    auth?: AuthConfig;
+    usage?: UsageStoreConfig;
+    environment?: string; // Selects environmentConfigs overrides, e.g. of rate limits
   }): Promise<void> {
-    // Initialize vault client
-    this.vaultClient = new PromptVaultClient({
-      network: config.blockchain.network,
-      rpcUrl: config.blockchain.rpcUrl,
-      programId: config.blockchain.programId,
-      keypairPath: config.blockchain.keypairPath,
-    });
+    // Initialize vault backend
+    this.vaultClient = await createVaultBackend(config.vault, config.blockchain, config.ipfs);
 
-    await this.vaultClient.initialize();
+    // Initialize model adapters used to execute prompts
+    const modelProvider = config.models ? new ModelProviderManager(config.models) : undefined;
 
     // Initialize router
-    this.router = new PromptRouter(this.vaultClient);
+    const usageQuota = new UsageQuota({ store: createUsageStore(config.usage) });
+    this.router = new PromptRouter(this.vaultClient, { modelProvider, usageQuota });
+    this.router.getTemplateEngine().registerHelpers(config.templateHelpers || {});
     await this.router.initialize();
 
     // Initialize MCP server
@@ -62,25 +116,30 @@ export class PromptHubMCP {
       config.server.name,
       config.server.version,
       this.vaultClient,
-      this.router
+      this.router,
+      {
+        promptTools: config.promptTools,
+        identity: config.auth ? createCallerIdentityResolver(config.auth) : undefined,
+        admission: config.environment ? admissionConfigFrom(getConfig(config.environment)) : undefined,
+      }
     );
   }
 
   /**
    * Start the MCP server
    */
-  async start(): Promise<void> {
+  async start(options: StartOptions = {}): Promise<void> {
     if (!this.server) {
       throw new Error('PromptHub MCP not initialized');
     }
 
-    await this.server.start();
+    await this.server.start(options);
   }
 
   /**
-   * Get the vault client
+   * Get the vault backend
    */
-  getVaultClient(): PromptVaultClient {
+  getVaultClient(): VaultBackend {
     if (!this.vaultClient) {
       throw new Error('PromptHub MCP not initialized');
     }
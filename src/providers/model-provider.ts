@@ -13,7 +13,8 @@ export interface ModelProviderConfig {
     apiKey: string;
     baseUrl?: string;
   };
-  defaultProvider?: 'openai' | 'anthropic';
+  adapters?: Record<string, BaseModelAdapter>;
+  defaultProvider?: string;
 }
 
 /**
@@ -52,6 +53,11 @@ export class ModelProviderManager {
       this.adapters.set('anthropic', anthropicAdapter);
     }
 
+    // Register any custom adapters supplied directly
+    for (const [name, adapter] of Object.entries(config.adapters || {})) {
+      this.adapters.set(name, adapter);
+    }
+
     if (this.adapters.size === 0) {
       throw new PromptHubMCPError(
         ErrorCodes.VALIDATION_ERROR,
@@ -77,6 +83,35 @@ export class ModelProviderManager {
     return adapter;
   }
 
+  /**
+   * Select an adapter for an execution.
+   * An explicit provider wins; otherwise the first entry of `models` that names
+   * a configured provider or an adapter's model is used, then the default provider.
+   */
+  selectAdapter(
+    preferredProvider?: string,
+    models: string[] = []
+  ): { provider: string; adapter: BaseModelAdapter } {
+    if (preferredProvider) {
+      return { provider: preferredProvider, adapter: this.getAdapter(preferredProvider) };
+    }
+
+    for (const model of models) {
+      const byProvider = this.adapters.get(model);
+      if (byProvider) {
+        return { provider: model, adapter: byProvider };
+      }
+
+      for (const [providerName, adapter] of this.adapters.entries()) {
+        if (adapter.getModelInfo().name === model) {
+          return { provider: providerName, adapter };
+        }
+      }
+    }
+
+    return { provider: this.defaultProvider, adapter: this.getAdapter() };
+  }
+
   /**
    * Get all available providers
    */
@@ -0,0 +1,262 @@
+import { PromptHubMCPError, ErrorCodes } from '../types';
+import { defaultConfig } from '../config/default';
+import { abortError } from '../utils/abort';
+
+/**
+ * Limits applied to tool calls before they run
+ */
+export interface AdmissionConfig {
+  rateLimiting: {
+    enabled: boolean;
+    windowMs: number;
+    maxRequests: number; // Per caller per window
+    globalMaxRequests?: number | undefined; // Across all callers per window; unset disables the global limit
+  };
+  maxConcurrentRequests: number; // Tool calls running at once; 0 disables the limit
+  maxQueuedRequests: number; // Calls waiting for a slot before new ones are rejected
+  queueTimeout: number; // Max wait for a slot in milliseconds
+}
+
+/**
+ * Read admission limits from a configuration such as `getConfig(environment)`
+ */
+export function admissionConfigFrom(config: {
+  server: { maxConcurrentRequests: number; maxQueuedRequests: number; queueTimeout: number };
+  security: { rateLimiting: AdmissionConfig['rateLimiting'] };
+} = defaultConfig): AdmissionConfig {
+  return {
+    rateLimiting: { ...config.security.rateLimiting },
+    maxConcurrentRequests: config.server.maxConcurrentRequests,
+    maxQueuedRequests: config.server.maxQueuedRequests,
+    queueTimeout: config.server.queueTimeout,
+  };
+}
+
+/**
+ * Token bucket holding up to `capacity` tokens, refilled continuously at `capacity` per `windowMs`
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(private capacity: number, private windowMs: number, now: number = Date.now()) {
+    this.tokens = capacity;
+    this.updatedAt = now;
+  }
+
+  /**
+   * Take one token; returns false when the bucket is empty
+   */
+  take(now: number = Date.now()): boolean {
+    this.refill(now);
+    if (this.tokens < 1) {
+      return false;
+    }
+    this.tokens -= 1;
+    return true;
+  }
+
+  /**
+   * Milliseconds until a token is available
+   */
+  retryAfter(now: number = Date.now()): number {
+    this.refill(now);
+    return this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) * this.windowMs) / this.capacity);
+  }
+
+  /**
+   * Whether the bucket is back to full capacity, i.e. holds no state worth keeping
+   */
+  isFull(now: number = Date.now()): boolean {
+    this.refill(now);
+    return this.tokens >= this.capacity;
+  }
+
+  private refill(now: number): void {
+    const elapsed = Math.max(0, now - this.updatedAt);
+    this.tokens = Math.min(this.capacity, this.tokens + (elapsed * this.capacity) / this.windowMs);
+    this.updatedAt = now;
+  }
+}
+
+interface QueuedRequest {
+  resolve: () => void;
+  timer: NodeJS.Timeout;
+  onAbort: () => void;
+}
+
+/**
+ * Counting semaphore with a bounded FIFO queue whose entries give up after a timeout
+ */
+export class Semaphore {
+  private active: number = 0;
+  private queue: QueuedRequest[] = [];
+
+  constructor(private limit: number, private maxQueued: number, private queueTimeout: number) {}
+
+  /**
+   * Wait for a slot and return the function that releases it.
+   * A request whose signal aborts while queued leaves the queue and rejects with the abort error.
+   */
+  async acquire(signal?: AbortSignal | undefined): Promise<() => void> {
+    if (signal?.aborted) {
+      throw abortError(signal);
+    }
+    if (this.active < this.limit) {
+      this.active++;
+      return this.releaser();
+    }
+
+    if (this.queue.length >= this.maxQueued) {
+      throw new PromptHubMCPError(
+        ErrorCodes.RATE_LIMIT_EXCEEDED,
+        `Server is busy: ${this.limit} requests running and ${this.queue.length} queued`,
+        // The queue drains within queueTimeout at the latest
+        { scope: 'concurrency', maxConcurrentRequests: this.limit, maxQueuedRequests: this.maxQueued, retryAfter: this.queueTimeout }
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      // Timed out or aborted: give up the place in the queue
+      const leave = (error: PromptHubMCPError) => {
+        clearTimeout(entry.timer);
+        signal?.removeEventListener('abort', entry.onAbort);
+        this.queue.splice(this.queue.indexOf(entry), 1);
+        reject(error);
+      };
+      const entry: QueuedRequest = {
+        // The releasing request hands its slot over, so `active` is unchanged
+        resolve: () => {
+          clearTimeout(entry.timer);
+          signal?.removeEventListener('abort', entry.onAbort);
+          resolve(this.releaser());
+        },
+        timer: setTimeout(() => {
+          leave(new PromptHubMCPError(
+            ErrorCodes.RATE_LIMIT_EXCEEDED,
+            `Request waited ${this.queueTimeout}ms without a free execution slot`,
+            { scope: 'concurrency', queueTimeout: this.queueTimeout, retryAfter: this.queueTimeout }
+          ));
+        }, this.queueTimeout),
+        onAbort: () => leave(abortError(signal!)),
+      };
+      this.queue.push(entry);
+      signal?.addEventListener('abort', entry.onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Requests currently running and waiting
+   */
+  getStats(): { active: number; queued: number } {
+    return { active: this.active, queued: this.queue.length };
+  }
+
+  private releaser(): () => void {
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+
+      const next = this.queue.shift();
+      if (next) {
+        next.resolve();
+      } else {
+        this.active--;
+      }
+    };
+  }
+}
+
+/**
+ * Admits tool calls subject to per-caller and global rate limits and a concurrency limit
+ */
+export class RequestAdmission {
+  private config: AdmissionConfig;
+  private callerBuckets: Map<string, TokenBucket> = new Map();
+  private globalBucket: TokenBucket | undefined;
+  private semaphore: Semaphore | undefined;
+  private lastSweep: number = Date.now();
+
+  constructor(config: AdmissionConfig = admissionConfigFrom()) {
+    this.config = config;
+    const { rateLimiting } = config;
+
+    if (rateLimiting.enabled && rateLimiting.globalMaxRequests) {
+      this.globalBucket = new TokenBucket(rateLimiting.globalMaxRequests, rateLimiting.windowMs);
+    }
+    if (config.maxConcurrentRequests > 0) {
+      this.semaphore = new Semaphore(config.maxConcurrentRequests, config.maxQueuedRequests, config.queueTimeout);
+    }
+  }
+
+  /**
+   * Wait until a call may run and return the function that ends it.
+   * Throws RATE_LIMIT_EXCEEDED, with `retryAfter` in its details, when a rate limit is hit or no slot frees up in
+   * time, and the abort error when `signal` aborts while waiting.
+   * Calls without a caller (not yet authenticated) only count against the global limit.
+   */
+  async admit(caller: string | undefined, signal?: AbortSignal | undefined): Promise<() => void> {
+    if (this.config.rateLimiting.enabled) {
+      this.checkRateLimits(caller);
+    }
+    return this.semaphore ? this.semaphore.acquire(signal) : () => undefined;
+  }
+
+  /**
+   * Current concurrency usage
+   */
+  getStats(): { active: number; queued: number } {
+    return this.semaphore ? this.semaphore.getStats() : { active: 0, queued: 0 };
+  }
+
+  private checkRateLimits(caller: string | undefined): void {
+    const now = Date.now();
+    const { windowMs, maxRequests } = this.config.rateLimiting;
+    this.sweep(now);
+
+    let bucket: TokenBucket | undefined;
+    if (caller !== undefined) {
+      bucket = this.callerBuckets.get(caller);
+      if (!bucket) {
+        bucket = new TokenBucket(maxRequests, windowMs, now);
+        this.callerBuckets.set(caller, bucket);
+      }
+      if (bucket.retryAfter(now) > 0) {
+        throw this.rateLimitError('caller', maxRequests, bucket.retryAfter(now));
+      }
+    }
+
+    // Check the global bucket before spending the caller's token so a rejected call costs nothing
+    if (this.globalBucket && !this.globalBucket.take(now)) {
+      throw this.rateLimitError('global', this.config.rateLimiting.globalMaxRequests!, this.globalBucket.retryAfter(now));
+    }
+    bucket?.take(now);
+  }
+
+  private rateLimitError(scope: 'caller' | 'global', limit: number, retryAfter: number): PromptHubMCPError {
+    const { windowMs } = this.config.rateLimiting;
+    return new PromptHubMCPError(
+      ErrorCodes.RATE_LIMIT_EXCEEDED,
+      `${scope === 'caller' ? 'Caller' : 'Server'} rate limit of ${limit} requests per ${windowMs}ms exceeded; retry in ${retryAfter}ms`,
+      { scope, limit, windowMs, retryAfter }
+    );
+  }
+
+  /**
+   * Drop buckets of idle callers once per window
+   */
+  private sweep(now: number): void {
+    if (now - this.lastSweep < this.config.rateLimiting.windowMs) {
+      return;
+    }
+    this.lastSweep = now;
+    for (const [caller, bucket] of this.callerBuckets) {
+      if (bucket.isFull(now)) {
+        this.callerBuckets.delete(caller);
+      }
+    }
+  }
+}
@@ -0,0 +1,277 @@
+import { promises as fs } from 'node:fs';
+import { dirname } from 'node:path';
+import { PromptHubMCPError, ErrorCodes } from '../types';
+
+// Length of the rolling window `maxUsagePerDay` is counted over
+export const USAGE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Persists execution timestamps per (caller, prompt)
+ */
+export interface UsageStore {
+  load(caller: string, promptId: string): Promise<number[]>;
+  save(caller: string, promptId: string, timestamps: number[]): Promise<void>;
+  listPrompts(caller: string): Promise<string[]>; // Prompts the caller has recorded usage for
+}
+
+/**
+ * Configuration for the default usage store
+ */
+export interface UsageStoreConfig {
+  store?: 'memory' | 'file' | undefined;
+  path?: string | undefined; // JSON file used by the 'file' store
+}
+
+/**
+ * A caller's allowance for one prompt; limit, remaining and resetAt are null when unlimited
+ */
+export interface UsageStatus {
+  promptId: string;
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  resetAt: number | null; // When the oldest counted execution leaves the window; null if none are counted
+}
+
+/**
+ * Keeps usage in process memory; counts reset on restart
+ */
+export class MemoryUsageStore implements UsageStore {
+  private usage: Map<string, Map<string, number[]>> = new Map();
+
+  async load(caller: string, promptId: string): Promise<number[]> {
+    return [...(this.usage.get(caller)?.get(promptId) || [])];
+  }
+
+  async save(caller: string, promptId: string, timestamps: number[]): Promise<void> {
+    const prompts = this.usage.get(caller) || new Map<string, number[]>();
+    if (timestamps.length > 0) {
+      prompts.set(promptId, [...timestamps]);
+    } else {
+      prompts.delete(promptId);
+    }
+
+    if (prompts.size > 0) {
+      this.usage.set(caller, prompts);
+    } else {
+      this.usage.delete(caller);
+    }
+  }
+
+  async listPrompts(caller: string): Promise<string[]> {
+    return [...(this.usage.get(caller)?.keys() || [])];
+  }
+
+  /**
+   * All usage as `{ caller: { promptId: timestamps } }`
+   */
+  toJSON(): Record<string, Record<string, number[]>> {
+    const usage: Record<string, Record<string, number[]>> = {};
+    for (const [caller, prompts] of this.usage) {
+      usage[caller] = Object.fromEntries(prompts);
+    }
+    return usage;
+  }
+}
+
+/**
+ * Keeps usage in a JSON file so quotas survive restarts
+ */
+export class FileUsageStore implements UsageStore {
+  private memory: MemoryUsageStore | undefined;
+  private loading: Promise<MemoryUsageStore> | undefined;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private path: string) {}
+
+  async load(caller: string, promptId: string): Promise<number[]> {
+    return (await this.read()).load(caller, promptId);
+  }
+
+  async save(caller: string, promptId: string, timestamps: number[]): Promise<void> {
+    const memory = await this.read();
+    await memory.save(caller, promptId, timestamps);
+
+    // Writes are chained so an older snapshot never replaces a newer one
+    const write = this.writing.then(() => this.write(memory));
+    this.writing = write.catch(() => undefined);
+    await write;
+  }
+
+  async listPrompts(caller: string): Promise<string[]> {
+    return (await this.read()).listPrompts(caller);
+  }
+
+  private read(): Promise<MemoryUsageStore> {
+    if (this.memory) {
+      return Promise.resolve(this.memory);
+    }
+    if (!this.loading) {
+      this.loading = this.readFile().finally(() => {
+        this.loading = undefined;
+      });
+    }
+    return this.loading;
+  }
+
+  private async readFile(): Promise<MemoryUsageStore> {
+    const memory = new MemoryUsageStore();
+
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new PromptHubMCPError(ErrorCodes.EXECUTION_FAILED, `Failed to read usage file: ${this.path}`, error);
+      }
+      this.memory = memory;
+      return memory;
+    }
+
+    try {
+      const usage = JSON.parse(contents) as Record<string, Record<string, number[]>>;
+      for (const [caller, prompts] of Object.entries(usage)) {
+        for (const [promptId, timestamps] of Object.entries(prompts)) {
+          await memory.save(caller, promptId, timestamps);
+        }
+      }
+    } catch (error) {
+      throw new PromptHubMCPError(ErrorCodes.EXECUTION_FAILED, `Invalid usage file: ${this.path}`, error);
+    }
+
+    this.memory = memory;
+    return memory;
+  }
+
+  private async write(memory: MemoryUsageStore): Promise<void> {
+    // Write to a temporary file first so a crash never leaves a truncated file
+    await fs.mkdir(dirname(this.path), { recursive: true });
+    const temporary = `${this.path}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(memory));
+    await fs.rename(temporary, this.path);
+  }
+}
+
+/**
+ * Create the usage store selected in configuration
+ */
+export function createUsageStore(config: UsageStoreConfig = {}): UsageStore {
+  if (config.store === 'file') {
+    if (!config.path) {
+      throw new PromptHubMCPError(ErrorCodes.VALIDATION_ERROR, "The 'file' usage store requires a path");
+    }
+    return new FileUsageStore(config.path);
+  }
+  return new MemoryUsageStore();
+}
+
+/**
+ * Counts executions per (caller, prompt) in a rolling window and enforces
+ * AccessPolicy.maxUsagePerDay
+ */
+export class UsageQuota {
+  private store: UsageStore;
+  private windowMs: number;
+  private locks: Map<string, Promise<unknown>> = new Map();
+
+  constructor(options: { store?: UsageStore | undefined; windowMs?: number | undefined } = {}) {
+    this.store = options.store || new MemoryUsageStore();
+    this.windowMs = options.windowMs ?? USAGE_WINDOW_MS;
+  }
+
+  /**
+   * Record one execution, throwing RATE_LIMIT_EXCEEDED when the caller has used up the limit.
+   * `recordedAt` identifies the execution to `refund`.
+   */
+  async consume(caller: string, promptId: string, limit: number): Promise<UsageStatus & { recordedAt: number }> {
+    return this.withLock(caller, promptId, async () => {
+      const now = Date.now();
+      const timestamps = await this.loadWindow(caller, promptId, now);
+
+      if (timestamps.length >= limit) {
+        // A slot frees up once enough of the oldest executions leave the window
+        const freedBy = timestamps[timestamps.length - limit];
+        const retryAt = freedBy === undefined ? null : freedBy + this.windowMs;
+        throw new PromptHubMCPError(
+          ErrorCodes.RATE_LIMIT_EXCEEDED,
+          `Daily usage limit of ${limit} reached for prompt ${promptId}` +
+            (retryAt === null ? '' : `; next execution allowed at ${new Date(retryAt).toISOString()}`),
+          { ...this.status(promptId, limit, timestamps), retryAt, retryAfter: retryAt === null ? null : retryAt - now }
+        );
+      }
+
+      timestamps.push(now);
+      await this.store.save(caller, promptId, timestamps);
+      return { ...this.status(promptId, limit, timestamps), recordedAt: now };
+    });
+  }
+
+  /**
+   * Give back an execution recorded by `consume`, e.g. because it failed
+   */
+  async refund(caller: string, promptId: string, recordedAt: number): Promise<void> {
+    await this.withLock(caller, promptId, async () => {
+      const timestamps = await this.store.load(caller, promptId);
+      const index = timestamps.lastIndexOf(recordedAt);
+      if (index >= 0) {
+        timestamps.splice(index, 1);
+        await this.store.save(caller, promptId, timestamps);
+      }
+    });
+  }
+
+  /**
+   * Get a caller's usage of a prompt without recording an execution
+   */
+  async getUsage(caller: string, promptId: string, limit?: number): Promise<UsageStatus> {
+    const timestamps = await this.loadWindow(caller, promptId, Date.now());
+    return this.status(promptId, limit ?? null, timestamps);
+  }
+
+  /**
+   * Prompts the caller has used within the current window
+   */
+  async listPrompts(caller: string): Promise<string[]> {
+    const now = Date.now();
+    const prompts: string[] = [];
+    for (const promptId of await this.store.listPrompts(caller)) {
+      if ((await this.loadWindow(caller, promptId, now)).length > 0) {
+        prompts.push(promptId);
+      }
+    }
+    return prompts;
+  }
+
+  private async loadWindow(caller: string, promptId: string, now: number): Promise<number[]> {
+    return (await this.store.load(caller, promptId)).filter(timestamp => timestamp > now - this.windowMs);
+  }
+
+  private status(promptId: string, limit: number | null, timestamps: number[]): UsageStatus {
+    const used = timestamps.length;
+    const oldest = timestamps[0];
+    const resetAt = oldest === undefined ? null : oldest + this.windowMs;
+    if (limit === null) {
+      return { promptId, limit: null, used, remaining: null, resetAt: null };
+    }
+
+    return { promptId, limit, used, remaining: Math.max(0, limit - used), resetAt };
+  }
+
+  /**
+   * Run check-and-record steps for one (caller, prompt) one at a time
+   */
+  private async withLock<T>(caller: string, promptId: string, task: () => Promise<T>): Promise<T> {
+    const key = JSON.stringify([caller, promptId]);
+    const previous = this.locks.get(key) || Promise.resolve();
+    const current = previous.catch(() => undefined).then(task);
+    this.locks.set(key, current);
+
+    try {
+      return await current;
+    } finally {
+      if (this.locks.get(key) === current) {
+        this.locks.delete(key);
+      }
+    }
+  }
+}
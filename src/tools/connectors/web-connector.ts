@@ -1,5 +1,6 @@
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
 import { PromptHubMCPError, ErrorCodes } from '../../types/index.js';
+import { abortError, delay } from '../../utils/abort.js';
 
 export interface WebConnectorConfig {
   baseURL?: string;
@@ -16,6 +17,7 @@ export interface WebRequest {
   params?: Record<string, any>;
   data?: any;
   timeout?: number;
+  signal?: AbortSignal; // Aborts the request and any pending retries
 }
 
 export interface WebResponse {
@@ -103,7 +105,8 @@ export class WebConnector {
         headers: request.headers,
         params: request.params,
         data: request.data,
-        timeout: request.timeout || this.config.timeout
+        timeout: request.timeout || this.config.timeout,
+        ...(request.signal ? { signal: request.signal } : {}),
       };
 
       const response = await this.executeWithRetry(config);
@@ -175,8 +178,8 @@ export class WebConnector {
     try {
       return await this.client.request(config);
     } catch (error) {
-      if (attempt < this.config.retryAttempts! && this.shouldRetry(error)) {
-        await this.delay(this.config.retryDelay! * attempt);
+      if (attempt < this.config.retryAttempts! && !config.signal?.aborted && this.shouldRetry(error)) {
+        await delay(this.config.retryDelay! * attempt, config.signal as AbortSignal | undefined);
         return this.executeWithRetry(config, attempt + 1);
       }
       throw error;
@@ -195,17 +198,14 @@ export class WebConnector {
     return status >= 500 || status === 429; // Server error or rate limit
   }
 
-  /**
-   * Delay execution
-   */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   /**
    * Handle and transform errors
    */
   private handleError(error: any, request: WebRequest): PromptHubMCPError {
+    if (request.signal?.aborted) {
+      return abortError(request.signal);
+    }
+
     if (error.response) {
       // Server responded with error status
       return new PromptHubMCPError(
@@ -0,0 +1,206 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { JSONRPCMessage, JSONRPCMessageSchema } from '@modelcontextprotocol/sdk/types.js';
+import { v4 as uuidv4 } from 'uuid';
+
+export const SESSION_ID_HEADER = 'mcp-session-id';
+
+// Same message size limit as the SDK's SSE transport
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * A POST whose requests are waiting for their responses
+ */
+interface PendingResponse {
+  res: ServerResponse;
+  requestIds: Array<string | number>;
+  responses: Map<string | number, JSONRPCMessage>;
+  batch: boolean;
+}
+
+/**
+ * Server side of the MCP Streamable HTTP transport for a single session.
+ * Client messages arrive as POSTs answered with JSON; a GET opens an SSE stream
+ * for server-initiated messages such as list-changed notifications.
+ */
+export class StreamableHTTPServerTransport implements Transport {
+  readonly sessionId: string = uuidv4();
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  private pending: Set<PendingResponse> = new Set();
+  private eventStream: ServerResponse | undefined;
+  private closed: boolean = false;
+  private lastActivity: number = Date.now();
+
+  async start(): Promise<void> {
+    // Messages are delivered through handlePost/handleGet
+  }
+
+  /**
+   * Handle a POST carrying one JSON-RPC message or a batch
+   */
+  async handlePost(res: ServerResponse, body: unknown): Promise<void> {
+    this.lastActivity = Date.now();
+    const batch = Array.isArray(body);
+    const messages: JSONRPCMessage[] = [];
+
+    for (const item of batch ? (body as unknown[]) : [body]) {
+      const parsed = JSONRPCMessageSchema.safeParse(item);
+      if (!parsed.success) {
+        writeJsonRpcError(res, 400, -32600, 'Invalid JSON-RPC message');
+        return;
+      }
+      messages.push(parsed.data);
+    }
+
+    const requestIds = messages
+      .filter(message => 'method' in message && 'id' in message)
+      .map(message => (message as { id: string | number }).id);
+
+    if (requestIds.length === 0) {
+      // Only notifications or responses: acknowledge without a body
+      res.writeHead(202, { [SESSION_ID_HEADER]: this.sessionId }).end();
+    } else {
+      this.pending.add({ res, requestIds, responses: new Map(), batch });
+      res.on('close', () => this.dropPending(res));
+    }
+
+    for (const message of messages) {
+      this.onmessage?.(message);
+    }
+  }
+
+  /**
+   * Handle a GET opening the stream for server-initiated messages
+   */
+  handleGet(req: IncomingMessage, res: ServerResponse): void {
+    if (this.eventStream) {
+      res.writeHead(409).end('Event stream already open for this session');
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      [SESSION_ID_HEADER]: this.sessionId,
+    });
+    // Send the headers now; the first event may be a long way off
+    res.flushHeaders();
+    this.eventStream = res;
+    req.on('close', () => {
+      if (this.eventStream === res) {
+        this.eventStream = undefined;
+        this.lastActivity = Date.now();
+      }
+    });
+  }
+
+  /**
+   * Milliseconds since the client was last heard from; 0 while a request awaits its response or the event stream is open
+   */
+  idleTime(): number {
+    return this.pending.size > 0 || this.eventStream ? 0 : Date.now() - this.lastActivity;
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (this.closed) {
+      throw new Error('Transport is closed');
+    }
+
+    if ('id' in message && ('result' in message || 'error' in message)) {
+      const pending = [...this.pending].find(entry => entry.requestIds.includes(message.id));
+      if (pending) {
+        pending.responses.set(message.id, message);
+        this.flush(pending);
+        return;
+      }
+    }
+
+    // Server-initiated messages go to the event stream; without one they are dropped
+    this.eventStream?.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+
+    for (const pending of this.pending) {
+      if (!pending.res.headersSent) {
+        writeJsonRpcError(pending.res, 503, -32000, 'Session closed');
+      }
+    }
+    this.pending.clear();
+    this.eventStream?.end();
+    this.eventStream = undefined;
+    this.onclose?.();
+  }
+
+  private flush(pending: PendingResponse): void {
+    if (pending.responses.size < pending.requestIds.length) {
+      return;
+    }
+
+    this.pending.delete(pending);
+    this.lastActivity = Date.now();
+    const responses = pending.requestIds.map(id => pending.responses.get(id));
+    pending.res
+      .writeHead(200, { 'Content-Type': 'application/json', [SESSION_ID_HEADER]: this.sessionId })
+      .end(JSON.stringify(pending.batch ? responses : responses[0]));
+  }
+
+  private dropPending(res: ServerResponse): void {
+    for (const pending of this.pending) {
+      if (pending.res === res) {
+        this.pending.delete(pending);
+        this.lastActivity = Date.now();
+      }
+    }
+  }
+}
+
+/**
+ * Write a JSON-RPC error response without an ID (transport-level failures)
+ */
+export function writeJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  code: number,
+  message: string,
+  data?: unknown
+): void {
+  const error = data === undefined ? { code, message } : { code, message, data };
+  res
+    .writeHead(status, { 'Content-Type': 'application/json' })
+    .end(JSON.stringify({ jsonrpc: '2.0', error, id: null }));
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+export async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(chunk);
+  }
+
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+}
+
+/**
+ * Check whether a POST body starts a session (an `initialize` request, possibly in a batch)
+ */
+export function isInitializeRequest(body: unknown): boolean {
+  const messages = Array.isArray(body) ? body : [body];
+  return messages.some(message => typeof message === 'object' && message !== null && message.method === 'initialize');
+}
@@ -1,22 +1,41 @@
 import { z } from 'zod';
 
 // PromptDSL Schema Definitions
-export const InputParameterSchema = z.object({
-  type: z.enum(['string', 'number', 'boolean', 'array', 'object']),
-  required: z.boolean().optional().default(false),
-  default: z.any().optional(),
-  description: z.string().optional(),
-  minLength: z.number().optional(),
-  maxLength: z.number().optional(),
-  pattern: z.string().optional(),
-  enum: z.array(z.string()).optional(),
-  minimum: z.number().optional(),
-  maximum: z.number().optional(),
-  items: z.lazy(() => InputParameterSchema).optional(),
-  minItems: z.number().optional(),
-  maxItems: z.number().optional(),
-  properties: z.record(z.lazy(() => InputParameterSchema)).optional(),
-});
+export interface InputParameter {
+  type: 'string' | 'number' | 'boolean' | 'array' | 'object';
+  required: boolean;
+  default?: any;
+  description?: string | undefined;
+  minLength?: number | undefined;
+  maxLength?: number | undefined;
+  pattern?: string | undefined;
+  enum?: (string | number)[] | undefined;
+  minimum?: number | undefined;
+  maximum?: number | undefined;
+  items?: InputParameter | undefined;
+  minItems?: number | undefined;
+  maxItems?: number | undefined;
+  properties?: Record<string, InputParameter> | undefined;
+}
+
+export const InputParameterSchema: z.ZodType<InputParameter, z.ZodTypeDef, unknown> = z.lazy(() =>
+  z.object({
+    type: z.enum(['string', 'number', 'boolean', 'array', 'object']),
+    required: z.boolean().optional().default(false),
+    default: z.any().optional(),
+    description: z.string().optional(),
+    minLength: z.number().optional(),
+    maxLength: z.number().optional(),
+    pattern: z.string().optional(),
+    enum: z.array(z.union([z.string(), z.number()])).optional(),
+    minimum: z.number().optional(),
+    maximum: z.number().optional(),
+    items: InputParameterSchema.optional(),
+    minItems: z.number().optional(),
+    maxItems: z.number().optional(),
+    properties: z.record(InputParameterSchema).optional(),
+  })
+);
 
 export const OutputSchemaSchema = z.object({
   type: z.string(),
@@ -38,6 +57,16 @@ export const PromptDefinitionSchema = z.object({
   execution_settings: z.record(z.any()).optional(),
   tags: z.array(z.string()).optional(),
   models: z.array(z.string()).optional(),
+  template_dialect: z.string().optional(), // PromptTemplateEngine dialect version, e.g. "2.0"
+});
+
+// Reusable template snippet stored in the vault and referenced as {{> id}}
+export const PromptPartialSchema = z.object({
+  id: z.string(),
+  version: z.string(),
+  template: z.string(),
+  description: z.string().optional(),
+  author: z.string().optional(),
 });
 
 export const ExecutionContextSchema = z.object({
@@ -48,6 +77,8 @@ export const ExecutionContextSchema = z.object({
   requestId: z.string(),
   chainId: z.string().optional(),
   blockHeight: z.number().optional(),
+  validationMode: z.enum(['strict', 'lenient']).optional(), // Lenient coerces "42" / "true" strings before validation
+  signal: z.custom<AbortSignal>(value => value instanceof AbortSignal).optional(), // Aborts the execution when cancelled
 });
 
 export const ModuleResponseSchema = z.object({
@@ -67,6 +98,7 @@ export const ValidationResultSchema = z.object({
   valid: z.boolean(),
   errors: z.array(z.string()),
   warnings: z.array(z.string()).optional(),
+  value: z.record(z.any()).optional(), // Input after coercion
 });
 
 export const RoyaltyConfigurationSchema = z.object({
@@ -101,16 +133,58 @@ export const PromptMetadataSchema = z.object({
   royaltyConfig: RoyaltyConfigurationSchema,
 });
 
+export const DAGNodeKindSchema = z.enum(['prompt', 'condition', 'map', 'reduce']);
+
+export const DAGNodeSchema = z.object({
+  id: z.string().min(1),
+  kind: DAGNodeKindSchema.optional(), // Defaults to `prompt`
+  promptId: z.string().optional(), // Required for prompt, map and reduce nodes
+  version: z.string().optional(),
+  inputs: z.record(z.any()).default({}),
+  dependencies: z.array(z.string()).default([]), // IDs of nodes this depends on; edge sources must be listed here
+  retries: z.number().int().min(0).optional(), // Extra attempts after a failure, for the prompt and again for its fallback
+  retryDelay: z.number().min(0).optional(), // Milliseconds before the first retry; doubles per retry with exponentialBackoff
+  fallbackPromptId: z.string().optional(), // Prompt run with the same inputs once the node's prompt has failed every attempt
+  optional: z.boolean().optional(), // A failure yields a null output instead of failing the DAG
+  expression: z.string().optional(), // condition: expression over previous outputs (see compileExpression)
+  items: z.string().optional(), // map, reduce: expression yielding the array to iterate over
+  itemInput: z.string().optional(), // map, reduce: input receiving each element (default `item`)
+  accumulatorInput: z.string().optional(), // reduce: input receiving the previous output (default `accumulator`)
+  initial: z.any().optional(), // reduce: accumulator for the first element, and the output when there are none
+  concurrency: z.number().int().min(1).optional(), // map: elements executed at once (default maxDagConcurrency)
+});
+
+export const DAGEdgeSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  outputKey: z.string().optional(), // JSON path into the source output, e.g. `$.sections[0].title`; the whole output if unset
+  inputKey: z.string().optional(), // Target input receiving the value; without it an object value is merged into the inputs
+  when: z.union([z.string(), z.number(), z.boolean(), z.null()]).optional(), // Edges from condition nodes: taken when the value matches
+});
+
+export const DAGDefinitionSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  nodes: z.array(DAGNodeSchema).min(1),
+  edges: z.array(DAGEdgeSchema).default([]),
+  errorMode: z.enum(['failFast', 'collectErrors']).optional(), // failFast (default) starts no new nodes after a failure
+});
+
 // Type exports
-export type InputParameter = z.infer<typeof InputParameterSchema>;
 export type OutputSchema = z.infer<typeof OutputSchemaSchema>;
 export type PromptDefinition = z.infer<typeof PromptDefinitionSchema>;
+export type PromptPartial = z.infer<typeof PromptPartialSchema>;
 export type ExecutionContext = z.infer<typeof ExecutionContextSchema>;
 export type ModuleResponse = z.infer<typeof ModuleResponseSchema>;
 export type ValidationResult = z.infer<typeof ValidationResultSchema>;
 export type RoyaltyConfiguration = z.infer<typeof RoyaltyConfigurationSchema>;
 export type AccessPolicy = z.infer<typeof AccessPolicySchema>;
 export type PromptMetadata = z.infer<typeof PromptMetadataSchema>;
+export type DAGNodeKind = z.infer<typeof DAGNodeKindSchema>;
+export type DAGNode = z.infer<typeof DAGNodeSchema>;
+export type DAGEdge = z.infer<typeof DAGEdgeSchema>;
+export type DAGDefinition = z.infer<typeof DAGDefinitionSchema>;
 
 // MCP-specific types
 export interface MCPRequest {
@@ -156,6 +230,16 @@ export interface MCPResource {
   mimeType?: string;
 }
 
+export interface MCPPrompt {
+  name: string;
+  description?: string;
+  arguments?: Array<{
+    name: string;
+    description?: string;
+    required?: boolean;
+  }>;
+}
+
 // PromptHub-specific MCP extensions
 export interface PromptHubMCPContext {
   promptId: string;
@@ -216,10 +300,29 @@ export interface BlockchainConfig {
   programId: string;
   keypairPath?: string;
   commitment?: 'processed' | 'confirmed' | 'finalized';
+  idlPath?: string; // PromptVault IDL JSON; fetched from the program's IDL account when unset
+}
+
+// IPFS gateway; limits left unset fall back to the IpfsConfig ones
+export interface IpfsGatewayConfig {
+  url: string; // Path gateway prefix, e.g. https://ipfs.io/ipfs/
+  timeout?: number | undefined;
+  maxFileSize?: number | undefined;
+}
+
+// Where definitions are fetched from; unset fields fall back to defaultConfig.ipfs
+export interface IpfsConfig {
+  gateways?: Array<string | IpfsGatewayConfig> | undefined; // Tried in order after the node API
+  nodeApiUrl?: string | undefined; // Local IPFS node RPC API, e.g. http://127.0.0.1:5001
+  timeout?: number | undefined; // Per-request timeout in milliseconds
+  maxFileSize?: number | undefined; // Larger responses are rejected, in bytes
+  cacheDir?: string | undefined; // Content-addressed cache of fetched definitions; disabled when unset
+  offline?: boolean | undefined; // Serve definitions from cacheDir only
 }
 
 export interface PromptVaultEntry {
   id: string;
+  kind?: 'prompt' | 'partial'; // Defaults to 'prompt'
   owner: string;
   contentHash: string;
   metadataUri: string;
@@ -233,9 +336,19 @@ export interface PromptVaultEntry {
     contentHash: string;
     timestamp: number;
   }>;
+  versionTags?: Record<string, string>; // Tag name to version, e.g. `stable`
   status: number;
 }
 
+// Integrity check of a definition fetched from IPFS
+export interface ContentVerification {
+  verified: boolean;
+  method: 'cid' | 'sha256'; // Checked against the CID itself or the sha256 of its canonical JSON
+  contentHash: string;
+  source: string; // URL or cache file the definition was read from
+  verifiedAt: number;
+}
+
 // Error types
 export class PromptHubMCPError extends Error {
   constructor(
@@ -259,4 +372,7 @@ export enum ErrorCodes {
   INSUFFICIENT_BALANCE = 'INSUFFICIENT_BALANCE',
   RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED',
   SIGNATURE_VERIFICATION_FAILED = 'SIGNATURE_VERIFICATION_FAILED',
+  EXECUTION_TIMEOUT = 'EXECUTION_TIMEOUT',
+  EXECUTION_CANCELLED = 'EXECUTION_CANCELLED',
+  INTEGRITY_CHECK_FAILED = 'INTEGRITY_CHECK_FAILED',
 } 
\ No newline at end of file
@@ -0,0 +1,106 @@
+import { PromptHubMCPError, ErrorCodes } from '../types';
+
+/**
+ * An abort signal for one execution and the function that releases its timer and listeners
+ */
+export interface ExecutionSignal {
+  signal: AbortSignal;
+  dispose(): void;
+}
+
+/**
+ * Create a signal that aborts when the parent aborts or after `timeout` milliseconds.
+ * A timeout aborts with an EXECUTION_TIMEOUT error as the reason.
+ */
+export function createExecutionSignal(parent?: AbortSignal | undefined, timeout?: number | undefined): ExecutionSignal {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(parent!.reason);
+
+  if (parent?.aborted) {
+    controller.abort(parent.reason);
+  } else {
+    parent?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  const timer = timeout !== undefined && timeout > 0
+    ? setTimeout(() => {
+        controller.abort(new PromptHubMCPError(ErrorCodes.EXECUTION_TIMEOUT, `Execution timed out after ${timeout}ms`));
+      }, timeout)
+    : undefined;
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * The error an aborted signal stands for: its PromptHubMCPError reason, or EXECUTION_CANCELLED
+ */
+export function abortError(signal: AbortSignal): PromptHubMCPError {
+  if (signal.reason instanceof PromptHubMCPError) {
+    return signal.reason;
+  }
+  return new PromptHubMCPError(ErrorCodes.EXECUTION_CANCELLED, 'Execution was cancelled', signal.reason);
+}
+
+/**
+ * Throw the abort error if the signal has aborted
+ */
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw abortError(signal);
+  }
+}
+
+/**
+ * Settle with the promise, or reject with the abort error as soon as the signal aborts.
+ * Used around work that cannot be interrupted itself.
+ */
+export function abortable<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(abortError(signal));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Wait `ms` milliseconds unless the signal aborts first
+ */
+export function delay(ms: number, signal?: AbortSignal | undefined): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.reject(abortError(signal));
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
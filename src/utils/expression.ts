@@ -0,0 +1,163 @@
+import { PromptHubMCPError, ErrorCodes } from '../types';
+import { readJsonPath } from './json-path';
+
+/**
+ * A compiled expression, evaluated against a scope of named values
+ */
+export type CompiledExpression = (scope: Record<string, any>) => any;
+
+interface Token {
+  type: 'literal' | 'path' | 'operator' | 'paren';
+  value: any;
+}
+
+const TOKEN =
+  /\s*(?:(-?\d+(?:\.\d+)?)|'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)"|(==|!=|<=|>=|&&|\|\||[<>!])|([()])|([A-Za-z_][\w$-]*(?:\.[A-Za-z_$][\w$-]*|\[\d+\]|\['(?:[^'\\]|\\.)*'\]|\["(?:[^"\\]|\\.)*"\])*))/y;
+
+const KEYWORDS: Record<string, any> = { true: true, false: false, null: null };
+
+/**
+ * Compile a boolean/value expression used by DAG condition and map nodes.
+ * Supports string, number, boolean and null literals, JSON paths into the scope
+ * (e.g. `classify.label` or `outline.sections[0]`), comparisons (`== != < <= > >=`, strict),
+ * `!`, `&&`, `||` with JavaScript semantics, and parentheses. Nothing else is evaluated.
+ */
+export function compileExpression(source: string): CompiledExpression {
+  const tokens = tokenizeExpression(source);
+  let position = 0;
+
+  const fail = (message: string): never => {
+    throw new PromptHubMCPError(ErrorCodes.VALIDATION_ERROR, `Invalid expression '${source}': ${message}`);
+  };
+  const peek = () => tokens[position];
+  const accept = (value: string) => {
+    if (peek()?.type !== 'literal' && peek()?.value === value) {
+      position++;
+      return true;
+    }
+    return false;
+  };
+
+  const parseOr = (): CompiledExpression => {
+    let left = parseAnd();
+    while (accept('||')) {
+      const [l, r] = [left, parseAnd()];
+      left = scope => l(scope) || r(scope);
+    }
+    return left;
+  };
+
+  const parseAnd = (): CompiledExpression => {
+    let left = parseComparison();
+    while (accept('&&')) {
+      const [l, r] = [left, parseComparison()];
+      left = scope => l(scope) && r(scope);
+    }
+    return left;
+  };
+
+  const parseComparison = (): CompiledExpression => {
+    const left = parseUnary();
+    const operator = peek();
+    if (operator?.type !== 'operator' || !['==', '!=', '<', '<=', '>', '>='].includes(operator.value)) {
+      return left;
+    }
+    position++;
+    const right = parseUnary();
+
+    switch (operator.value) {
+      case '==':
+        return scope => left(scope) === right(scope);
+      case '!=':
+        return scope => left(scope) !== right(scope);
+      case '<':
+        return scope => left(scope) < right(scope);
+      case '<=':
+        return scope => left(scope) <= right(scope);
+      case '>':
+        return scope => left(scope) > right(scope);
+      default:
+        return scope => left(scope) >= right(scope);
+    }
+  };
+
+  const parseUnary = (): CompiledExpression => {
+    if (accept('!')) {
+      const operand = parseUnary();
+      return scope => !operand(scope);
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): CompiledExpression => {
+    const token = tokens[position++];
+    if (!token) {
+      return fail('unexpected end');
+    }
+    if (token.type === 'literal') {
+      return () => token.value;
+    }
+    if (token.type === 'path') {
+      const path: string = token.value;
+      return scope => readJsonPath(scope, path);
+    }
+    if (token.value === '(') {
+      const inner = parseOr();
+      if (!accept(')')) {
+        fail("missing ')'");
+      }
+      return inner;
+    }
+    return fail(`unexpected '${token.value}'`);
+  };
+
+  const expression = parseOr();
+  if (position < tokens.length) {
+    fail(`unexpected '${tokens[position]!.value}'`);
+  }
+  return expression;
+}
+
+/**
+ * Compile and evaluate an expression in one step
+ */
+export function evaluateExpression(source: string, scope: Record<string, any>): any {
+  return compileExpression(source)(scope);
+}
+
+function tokenizeExpression(source: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN.lastIndex = 0;
+
+  while (TOKEN.lastIndex < source.length) {
+    if (/^\s*$/.test(source.slice(TOKEN.lastIndex))) {
+      break;
+    }
+
+    const start = TOKEN.lastIndex;
+    const match = TOKEN.exec(source);
+    if (!match) {
+      throw new PromptHubMCPError(
+        ErrorCodes.VALIDATION_ERROR,
+        `Invalid expression '${source}': unexpected character at ${start}`
+      );
+    }
+
+    const [, number, single, double, operator, paren, path] = match;
+    if (number !== undefined) {
+      tokens.push({ type: 'literal', value: Number(number) });
+    } else if (single !== undefined || double !== undefined) {
+      tokens.push({ type: 'literal', value: (single ?? double)!.replace(/\\(.)/g, '$1') });
+    } else if (operator !== undefined) {
+      tokens.push({ type: 'operator', value: operator });
+    } else if (paren !== undefined) {
+      tokens.push({ type: 'paren', value: paren });
+    } else if (Object.prototype.hasOwnProperty.call(KEYWORDS, path!)) {
+      tokens.push({ type: 'literal', value: KEYWORDS[path!] });
+    } else {
+      tokens.push({ type: 'path', value: path });
+    }
+  }
+
+  return tokens;
+}
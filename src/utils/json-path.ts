@@ -0,0 +1,50 @@
+import { PromptHubMCPError, ErrorCodes } from '../types';
+
+/**
+ * Parse a JSON path into its property names and array indices.
+ * Supports the subset used by DAG edges: an optional `$` root, `.name` members,
+ * `[0]` indices and quoted `['name']` members, e.g. `$.sections[0].title` or `summary.text`.
+ */
+export function parseJsonPath(path: string): Array<string | number> {
+  const segments: Array<string | number> = [];
+  let rest = path.trim();
+
+  if (rest.startsWith('$')) {
+    rest = rest.slice(1);
+  } else if (rest && !rest.startsWith('[')) {
+    rest = `.${rest}`;
+  }
+
+  const segment = /^(?:\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\[(['"])((?:(?!\3)[^\\]|\\.)*)\3\])/;
+  while (rest) {
+    const match = segment.exec(rest);
+    if (!match) {
+      throw new PromptHubMCPError(ErrorCodes.VALIDATION_ERROR, `Invalid JSON path: ${path}`);
+    }
+
+    if (match[1] !== undefined) {
+      segments.push(match[1]);
+    } else if (match[2] !== undefined) {
+      segments.push(Number(match[2]));
+    } else {
+      segments.push(match[4]!.replace(/\\(.)/g, '$1'));
+    }
+    rest = rest.slice(match[0].length);
+  }
+
+  return segments;
+}
+
+/**
+ * Read the value at a JSON path; undefined when any segment is missing
+ */
+export function readJsonPath(value: any, path: string): any {
+  let current = value;
+  for (const segment of parseJsonPath(path)) {
+    if (current === null || typeof current !== 'object' || !Object.prototype.hasOwnProperty.call(current, segment)) {
+      return undefined;
+    }
+    current = current[segment];
+  }
+  return current;
+}
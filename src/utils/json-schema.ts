@@ -0,0 +1,184 @@
+import { InputParameter } from '../types';
+
+/**
+ * Subset of JSON Schema used by PromptDSL output schemas
+ */
+export interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: any[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  [key: string]: any;
+}
+
+/**
+ * Validate a value against a JSON schema.
+ * Returns a list of violations prefixed with the JSON pointer of the offending value.
+ */
+export function validateJsonSchema(value: any, schema: JsonSchema, pointer: string = ''): string[] {
+  const location = pointer || '/';
+  const errors: string[] = [];
+
+  if (schema.type) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = jsonTypeOf(value);
+    const matches = allowed.some(type => type === actual || (type === 'number' && actual === 'integer'));
+    if (!matches) {
+      return [`${location}: expected ${allowed.join(' | ')} but got ${actual}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${location}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${location}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${location}: must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${location}: does not match pattern ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${location}: must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${location}: must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${location}: must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${location}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...validateJsonSchema(item, schema.items!, `${pointer}/${index}`));
+      });
+    }
+  } else if (value !== null && typeof value === 'object') {
+    for (const key of schema.required || []) {
+      if (!(key in value)) {
+        errors.push(`${pointer}/${escapePointer(key)}: required property is missing`);
+      }
+    }
+    for (const [key, propertyValue] of Object.entries(value)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...validateJsonSchema(propertyValue, propertySchema, `${pointer}/${escapePointer(key)}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${pointer}/${escapePointer(key)}: additional property is not allowed`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Build an object schema from a PromptDSL `inputs` map (e.g. for MCP tool input schemas)
+ */
+export function inputParametersToJsonSchema(inputs: Record<string, InputParameter>): JsonSchema {
+  const schema: JsonSchema = { type: 'object', properties: {} };
+  const required: string[] = [];
+
+  for (const [key, param] of Object.entries(inputs)) {
+    schema.properties![key] = inputParameterToJsonSchema(param);
+    if (param.required) {
+      required.push(key);
+    }
+  }
+
+  if (required.length > 0) {
+    schema.required = required;
+  }
+  return schema;
+}
+
+/**
+ * Convert a single input parameter, including nested items and properties
+ */
+export function inputParameterToJsonSchema(param: InputParameter): JsonSchema {
+  const { type, required: _required, items, properties, ...constraints } = param;
+  const schema: JsonSchema = { type };
+
+  // Copy description, default, enum and limits as-is, skipping unset keys
+  for (const [key, value] of Object.entries(constraints)) {
+    if (value !== undefined) {
+      schema[key] = value;
+    }
+  }
+
+  if (items) {
+    schema.items = inputParameterToJsonSchema(items);
+  }
+  if (properties) {
+    Object.assign(schema, inputParametersToJsonSchema(properties));
+  }
+  return schema;
+}
+
+/**
+ * JSON Schema type name of a value
+ */
+export function jsonTypeOf(value: any): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value;
+}
+
+/**
+ * Escape a key for use as a JSON pointer segment (RFC 6901)
+ */
+export function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Parse JSON from a model response, tolerating Markdown code fences and surrounding prose
+ */
+export function parseJsonResponse(content: string): { value?: any; error?: string } {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(content);
+  const candidate = (fenced ? fenced[1] : content).trim();
+
+  try {
+    return { value: JSON.parse(candidate) };
+  } catch (error) {
+    // Fall back to the outermost object or array in the text
+    const start = candidate.search(/[[{]/);
+    const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+    if (start !== -1 && end > start) {
+      try {
+        return { value: JSON.parse(candidate.slice(start, end + 1)) };
+      } catch {
+        // Report the original parse error below
+      }
+    }
+    return { error: error instanceof Error ? error.message : 'Invalid JSON' };
+  }
+}
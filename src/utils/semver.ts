@@ -0,0 +1,258 @@
+/**
+ * Parsed semantic version
+ */
+export interface SemanticVersion {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+const SEMVER_PATTERN = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * Parse a `major.minor.patch[-prerelease][+build]` version string
+ */
+export function parseVersion(version: string): SemanticVersion | null {
+  const match = SEMVER_PATTERN.exec(version.trim());
+  if (!match) {
+    return null;
+  }
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.') : [],
+  };
+}
+
+/**
+ * Check whether a string is a valid semantic version
+ */
+export function isValidVersion(version: string): boolean {
+  return parseVersion(version) !== null;
+}
+
+/**
+ * Compare two versions; returns a negative number, zero or a positive number.
+ * Unparseable versions sort before valid ones and compare lexically among themselves.
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+
+  if (!left || !right) {
+    if (left) {
+      return 1;
+    }
+    if (right) {
+      return -1;
+    }
+    return a.localeCompare(b);
+  }
+
+  return compareParsed(left, right);
+}
+
+function compareParsed(left: SemanticVersion, right: SemanticVersion): number {
+  const numeric = left.major - right.major || left.minor - right.minor || left.patch - right.patch;
+  if (numeric !== 0) {
+    return numeric;
+  }
+
+  // A release ranks above its prereleases
+  if (left.prerelease.length === 0 || right.prerelease.length === 0) {
+    return right.prerelease.length - left.prerelease.length;
+  }
+
+  for (let i = 0; i < Math.max(left.prerelease.length, right.prerelease.length); i++) {
+    const l = left.prerelease[i];
+    const r = right.prerelease[i];
+    if (l === undefined) {
+      return -1;
+    }
+    if (r === undefined) {
+      return 1;
+    }
+    const lNum = /^\d+$/.test(l);
+    const rNum = /^\d+$/.test(r);
+    if (lNum && rNum && Number(l) !== Number(r)) {
+      return Number(l) - Number(r);
+    }
+    if (lNum !== rNum) {
+      return lNum ? -1 : 1;
+    }
+    if (l !== r) {
+      return l < r ? -1 : 1;
+    }
+  }
+
+  return 0;
+}
+
+type Operator = '<' | '<=' | '>' | '>=' | '=';
+
+/**
+ * One condition of a version range, e.g. `>=1.2.0`
+ */
+interface Comparator {
+  operator: Operator;
+  version: SemanticVersion;
+}
+
+// A version whose trailing parts may be missing or wildcards, e.g. `1`, `1.2`, `1.x`, `*`
+const PARTIAL_PATTERN = /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+// Names usable as version tags, e.g. `stable` or `beta`
+const TAG_PATTERN = /^[A-Za-z][\w-]*$/;
+
+/**
+ * Check whether a version satisfies a range. Ranges are npm-style: exact or partial versions
+ * (`1.2.3`, `1.2`, `1.x`, `*`), caret (`^1.2`) and tilde (`~2.0.1`) ranges, comparators
+ * (`>=1.0.0 <2.0.0`, all must hold) and alternatives joined with `||`.
+ * Prereleases only match comparators naming a prerelease of the same major.minor.patch.
+ */
+export function satisfiesRange(version: string, range: string): boolean {
+  const parsed = parseVersion(version);
+  const sets = parseRange(range);
+  if (!parsed || !sets) {
+    return false;
+  }
+
+  return sets.some(set =>
+    set.every(comparator => testComparator(parsed, comparator)) &&
+    (parsed.prerelease.length === 0 || set.some(({ version: bound }) =>
+      bound.prerelease.length > 0 &&
+      bound.major === parsed.major &&
+      bound.minor === parsed.minor &&
+      bound.patch === parsed.patch
+    ))
+  );
+}
+
+/**
+ * Check whether a string is a valid version range (see satisfiesRange)
+ */
+export function isValidRange(range: string): boolean {
+  return parseRange(range) !== null;
+}
+
+/**
+ * Resolve a version spec against the published versions: an exact version, a tag or a range.
+ * Tags are looked up in `tags` first; otherwise `latest` is the highest version, `stable` the
+ * highest release and any other name the highest prerelease of that channel
+ * (`beta` matches `2.0.0-beta.3`). Returns null when no version matches.
+ */
+export function resolveVersion(versions: string[], spec: string, tags: Record<string, string> = {}): string | null {
+  const wanted = spec.trim();
+  if (versions.includes(wanted)) {
+    return wanted;
+  }
+
+  const newestFirst = [...versions].sort(compareVersions).reverse();
+  if (Object.prototype.hasOwnProperty.call(tags, wanted)) {
+    return versions.includes(tags[wanted]!) ? tags[wanted]! : null;
+  }
+  if (wanted === 'latest') {
+    return newestFirst[0] ?? null;
+  }
+  if (wanted === 'stable') {
+    return newestFirst.find(version => parseVersion(version)?.prerelease.length === 0) ?? null;
+  }
+  if (TAG_PATTERN.test(wanted) && !isValidRange(wanted)) {
+    return newestFirst.find(version => parseVersion(version)?.prerelease[0] === wanted) ?? null;
+  }
+
+  return newestFirst.find(version => satisfiesRange(version, wanted)) ?? null;
+}
+
+function parseRange(range: string): Comparator[][] | null {
+  const sets: Comparator[][] = [];
+
+  for (const alternative of range.split('||')) {
+    const set: Comparator[] = [];
+    // `>= 1.2` is written `>=1.2` before splitting into comparators
+    const tokens = alternative.trim().replace(/([<>=~^]+)\s+/g, '$1').split(/\s+/).filter(Boolean);
+    for (const token of tokens) {
+      const comparators = parseComparator(token);
+      if (!comparators) {
+        return null;
+      }
+      set.push(...comparators);
+    }
+    sets.push(set);
+  }
+
+  return sets;
+}
+
+function parseComparator(token: string): Comparator[] | null {
+  const [, operator = '', rest = ''] = /^(\^|~|[<>]=?|=)?(.*)$/.exec(token)!;
+  const match = PARTIAL_PATTERN.exec(rest);
+  if (!match) {
+    return null;
+  }
+
+  const part = (value: string | undefined) => (value === undefined || /^[xX*]$/.test(value) ? undefined : Number(value));
+  const major = part(match[1]);
+  const minor = part(match[2]);
+  const patch = part(match[3]);
+  // Wildcards may only follow numbers: `1.x.3` is not a range
+  if ((major === undefined && match[2] !== undefined && minor !== undefined) ||
+      (minor === undefined && match[3] !== undefined && patch !== undefined)) {
+    return null;
+  }
+
+  const at = (ma: number, mi: number, pa: number, prerelease: string[] = []): SemanticVersion =>
+    ({ major: ma, minor: mi, patch: pa, prerelease });
+  const bound = (op: Operator, version: SemanticVersion): Comparator => ({ operator: op, version });
+
+  if (major === undefined) {
+    // `*` and `>=*` allow anything; `<*` and `>*` nothing
+    return operator === '<' || operator === '>' ? [bound('<', at(0, 0, 0, ['0']))] : [];
+  }
+
+  const lower = at(major, minor ?? 0, patch ?? 0, match[4] ? match[4].split('.') : []);
+  // First version past the partial, e.g. 1.3.0 for `1.2`
+  const next = minor === undefined ? at(major + 1, 0, 0) : at(major, minor + 1, 0);
+
+  switch (operator) {
+    case '^': {
+      const upper = major > 0 || minor === undefined
+        ? at(major + 1, 0, 0)
+        : minor > 0 || patch === undefined
+          ? at(0, minor + 1, 0)
+          : at(0, 0, patch + 1);
+      return [bound('>=', lower), bound('<', upper)];
+    }
+    case '~':
+      return [bound('>=', lower), bound('<', next)];
+    case '>=':
+      return [bound('>=', lower)];
+    case '<':
+      return [bound('<', lower)];
+    case '>':
+      return patch === undefined ? [bound('>=', next)] : [bound('>', lower)];
+    case '<=':
+      return patch === undefined ? [bound('<', next)] : [bound('<=', lower)];
+    default:
+      return patch === undefined ? [bound('>=', lower), bound('<', next)] : [bound('=', lower)];
+  }
+}
+
+function testComparator(version: SemanticVersion, { operator, version: bound }: Comparator): boolean {
+  const order = compareParsed(version, bound);
+  switch (operator) {
+    case '<':
+      return order < 0;
+    case '<=':
+      return order <= 0;
+    case '>':
+      return order > 0;
+    case '>=':
+      return order >= 0;
+    default:
+      return order === 0;
+  }
+}
@@ -1,7 +1,12 @@
-import { PromptHubMCPServer } from '../core/mcp-server';
-import { PromptVaultClient } from '../core/vault-client';
+import { PromptHubMCPServer, PromptToolOptions } from '../core/mcp-server';
+import { VaultBackendConfig, createVaultBackend } from '../vault/vault-backend';
 import { PromptRouter } from '../core/prompt-router';
-import { BlockchainConfig } from '../types';
+import { ModelProviderManager, ModelProviderConfig } from '../providers/model-provider';
+import { AuthConfig, createCallerIdentityResolver } from '../auth/caller-identity';
+import { UsageQuota, UsageStoreConfig, createUsageStore } from '../quota/usage-quota';
+import { admissionConfigFrom } from '../quota/request-admission';
+import { getConfig } from '../config/default';
+import { BlockchainConfig, IpfsConfig } from '../types';
 
 /**
  * Configuration for creating MCP server
@@ -9,7 +14,15 @@ import { BlockchainConfig } from '../types';
 export interface MCPServerConfig {
   name: string;
   version: string;
-  blockchain: BlockchainConfig;
+  blockchain?: BlockchainConfig; // Required by the 'solana' vault backend
+  vault?: VaultBackendConfig; // Where prompts are stored; the Solana PromptVault by default
+  ipfs?: IpfsConfig; // Gateways and cache the 'solana' backend fetches definitions through
+  models?: ModelProviderConfig;
+  templateHelpers?: Record<string, Function>; // Custom PromptDSL helpers for this server
+  promptTools?: PromptToolOptions; // Register one MCP tool per selected vault prompt
+  auth?: AuthConfig; // Caller authentication; without it every caller is 'mcp-client'
+  usage?: UsageStoreConfig; // Where maxUsagePerDay counts are kept; in memory by default
+  environment?: string; // Selects environmentConfigs overrides, e.g. of rate limits
   features?: {
     enableCaching?: boolean;
     enableMetrics?: boolean;
@@ -21,12 +34,16 @@ export interface MCPServerConfig {
  * Factory function to create and configure PromptHub MCP server
  */
 export async function createMCPServer(config: MCPServerConfig): Promise<PromptHubMCPServer> {
-  // Initialize vault client
-  const vaultClient = new PromptVaultClient(config.blockchain);
-  await vaultClient.initialize(config.blockchain.keypairPath);
+  // Initialize vault backend
+  const vaultClient = await createVaultBackend(config.vault, config.blockchain, config.ipfs);
+
+  // Initialize model adapters used to execute prompts
+  const modelProvider = config.models ? new ModelProviderManager(config.models) : undefined;
 
   // Initialize router
-  const router = new PromptRouter(vaultClient);
+  const usageQuota = new UsageQuota({ store: createUsageStore(config.usage) });
+  const router = new PromptRouter(vaultClient, { modelProvider, usageQuota });
+  router.getTemplateEngine().registerHelpers(config.templateHelpers || {});
   await router.initialize();
 
   // Create MCP server
@@ -34,16 +51,21 @@ export async function createMCPServer(config: MCPServerConfig): Promise<PromptHu
     config.name,
     config.version,
     vaultClient,
-    router
+    router,
+    {
+      promptTools: config.promptTools,
+      identity: config.auth ? createCallerIdentityResolver(config.auth) : undefined,
+      admission: config.environment ? admissionConfigFrom(getConfig(config.environment)) : undefined,
+    }
   );
 
   return server;
 }
 
 /**
- * Quick setup function for development
+ * Quick setup function for development; pass a filesystem vault to work offline
  */
-export async function createDevServer(): Promise<PromptHubMCPServer> {
+export async function createDevServer(vault?: VaultBackendConfig, ipfs?: IpfsConfig): Promise<PromptHubMCPServer> {
   return createMCPServer({
     name: 'prompthub-mcp-dev',
     version: '1.0.0-dev',
@@ -53,6 +75,9 @@ export async function createDevServer(): Promise<PromptHubMCPServer> {
       programId: 'PromptVault11111111111111111111111111111111',
       commitment: 'confirmed',
     },
+    ...(vault ? { vault } : {}),
+    ...(ipfs ? { ipfs } : {}),
+    environment: 'development',
     features: {
       enableCaching: true,
       enableMetrics: false,
@@ -66,7 +91,9 @@ export async function createDevServer(): Promise<PromptHubMCPServer> {
  */
 export async function createProductionServer(
   programId: string,
-  keypairPath: string
+  keypairPath: string,
+  idlPath?: string,
+  ipfs?: IpfsConfig
 ): Promise<PromptHubMCPServer> {
   return createMCPServer({
     name: 'prompthub-mcp',
@@ -77,7 +104,10 @@ export async function createProductionServer(
       programId,
       keypairPath,
       commitment: 'finalized',
+      ...(idlPath ? { idlPath } : {}),
     },
+    ...(ipfs ? { ipfs } : {}),
+    environment: 'production',
     features: {
       enableCaching: true,
       enableMetrics: true,
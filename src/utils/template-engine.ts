@@ -1,4 +1,16 @@
 import { PromptHubMCPError, ErrorCodes } from '../types';
+import {
+  TemplateNode,
+  TemplateExpression,
+  PathExpression,
+  MustacheNode,
+  BlockNode,
+  PartialNode,
+  parseTemplate,
+  tokenize,
+  templateSyntaxError,
+} from './template-parser';
+import { compareVersions, resolveVersion } from './semver';
 
 /**
  * Template rendering context
@@ -9,11 +21,37 @@ export interface TemplateContext {
   helpers?: Record<string, Function>;
 }
 
+/**
+ * Per-render state: the scope stack for `this`/`../` and the `@` data variables
+ */
+interface RenderState {
+  scopes: any[];
+  data: Record<string, any>;
+  context: TemplateContext;
+  partialStack: string[]; // Partials being rendered, outermost first
+}
+
+/**
+ * A registered partial resolved to a concrete version
+ */
+export interface ResolvedPartial {
+  name: string;
+  version: string;
+  template: string;
+}
+
 /**
  * Template engine for PromptDSL
  */
 export class PromptTemplateEngine {
+  /**
+   * Template dialect implemented by this engine (major.minor)
+   */
+  static readonly DIALECT_VERSION = '2.0';
+
   private helpers: Map<string, Function> = new Map();
+  private partials: Map<string, Map<string, string>> = new Map(); // name -> version -> template
+  private partialAstCache: Map<string, TemplateNode[]> = new Map();
 
   constructor() {
     this.registerDefaultHelpers();
@@ -24,27 +62,17 @@ export class PromptTemplateEngine {
    */
   render(template: string, context: TemplateContext): string {
     try {
-      let rendered = template;
-
-      // Replace simple variables first
-      rendered = this.replaceVariables(rendered, context.variables);
-
-      // Replace dependency references
-      if (context.dependencies) {
-        rendered = this.replaceDependencies(rendered, context.dependencies);
-      }
-
-      // Process helper functions
-      rendered = this.processHelpers(rendered, context);
-
-      // Process conditionals
-      rendered = this.processConditionals(rendered, context);
-
-      // Process loops
-      rendered = this.processLoops(rendered, context);
-
-      return rendered;
+      const ast = parseTemplate(template);
+      return this.renderNodes(ast, {
+        scopes: [context.variables],
+        data: { root: context.variables },
+        context,
+        partialStack: [],
+      });
     } catch (error) {
+      if (error instanceof PromptHubMCPError) {
+        throw error;
+      }
       throw new PromptHubMCPError(
         ErrorCodes.EXECUTION_FAILED,
         'Template rendering failed',
@@ -53,6 +81,13 @@ export class PromptTemplateEngine {
     }
   }
 
+  /**
+   * Parse a template into its AST
+   */
+  parse(template: string): TemplateNode[] {
+    return parseTemplate(template);
+  }
+
   /**
    * Register a custom helper function
    */
@@ -61,81 +96,217 @@ export class PromptTemplateEngine {
   }
 
   /**
-   * Extract all variables referenced in a template
+   * Register several helpers at once
    */
-  extractVariables(template: string): string[] {
-    const variables = new Set<string>();
-    
-    // Simple variable references {{variable}}
-    const simpleVarRegex = /\{\{(\w+)\}\}/g;
-    let match;
-    while ((match = simpleVarRegex.exec(template)) !== null) {
-      variables.add(match[1]);
+  registerHelpers(helpers: Record<string, Function>): void {
+    for (const [name, fn] of Object.entries(helpers)) {
+      this.registerHelper(name, fn);
     }
+  }
 
-    // Helper function calls {{helper variable}}
-    const helperRegex = /\{\{(\w+)\s+(\w+)\}\}/g;
-    while ((match = helperRegex.exec(template)) !== null) {
-      variables.add(match[2]);
+  /**
+   * Check whether a template dialect version can be rendered by this engine.
+   * The major version must match and the minor version must not be newer.
+   */
+  supportsDialect(version: string): boolean {
+    const [major, minor = '0'] = version.split('.');
+    const [engineMajor, engineMinor] = PromptTemplateEngine.DIALECT_VERSION.split('.');
+    if (!/^\d+$/.test(major) || !/^\d+$/.test(minor)) {
+      return false;
     }
+    return major === engineMajor && Number(minor) <= Number(engineMinor);
+  }
+
+  /**
+   * Check whether a helper is registered
+   */
+  hasHelper(name: string): boolean {
+    return this.helpers.has(name);
+  }
 
-    // Conditional references {{#if variable}}
-    const conditionalRegex = /\{\{#if\s+(\w+)\}\}/g;
-    while ((match = conditionalRegex.exec(template)) !== null) {
-      variables.add(match[1]);
+  /**
+   * Register a reusable partial, referenced from templates as {{> name}} or {{> name@version}}
+   */
+  registerPartial(name: string, template: string, version: string = '1.0.0'): void {
+    // Fail fast on syntax errors rather than at first use
+    parseTemplate(template);
+
+    if (!this.partials.has(name)) {
+      this.partials.set(name, new Map());
     }
+    this.partials.get(name)!.set(version, template);
+    this.partialAstCache.delete(`${name}@${version}`);
+  }
 
-    // Loop references {{#each items}}
-    const loopRegex = /\{\{#each\s+(\w+)\}\}/g;
-    while ((match = loopRegex.exec(template)) !== null) {
-      variables.add(match[1]);
+  /**
+   * Remove a registered partial version, or every version of the partial
+   */
+  unregisterPartial(name: string, version?: string): void {
+    const versions = this.partials.get(name);
+    for (const registered of version ? [version] : Array.from(versions?.keys() || [])) {
+      versions?.delete(registered);
+      this.partialAstCache.delete(`${name}@${registered}`);
+    }
+    if (versions?.size === 0) {
+      this.partials.delete(name);
     }
+  }
 
-    return Array.from(variables);
+  /**
+   * Check whether a partial (optionally a specific version) is registered
+   */
+  hasPartial(name: string, version?: string): boolean {
+    return this.resolvePartial(name, version) !== undefined;
   }
 
   /**
-   * Validate template syntax
+   * Get registered versions of a partial, oldest first
    */
-  validateTemplate(template: string): { valid: boolean; errors: string[] } {
-    const errors: string[] = [];
+  getPartialVersions(name: string): string[] {
+    return Array.from(this.partials.get(name)?.keys() || []).sort(compareVersions);
+  }
 
-    try {
-      // Check for balanced braces
-      const openBraces = (template.match(/\{\{/g) || []).length;
-      const closeBraces = (template.match(/\}\}/g) || []).length;
-      
-      if (openBraces !== closeBraces) {
-        errors.push('Unbalanced template braces');
-      }
+  /**
+   * Resolve a partial reference to the highest registered version matching its pin (an exact
+   * version, a range such as `^1.2` or a tag, see resolveVersion), or the newest registered one
+   */
+  resolvePartial(name: string, version?: string): ResolvedPartial | undefined {
+    const versions = this.partials.get(name);
+    if (!versions || versions.size === 0) {
+      return undefined;
+    }
+
+    const resolvedVersion = resolveVersion(this.getPartialVersions(name), version || 'latest');
+    const template = resolvedVersion === null ? undefined : versions.get(resolvedVersion);
+    return template === undefined ? undefined : { name, version: resolvedVersion!, template };
+  }
 
-      // Check for balanced conditionals
-      const ifCount = (template.match(/\{\{#if/g) || []).length;
-      const endifCount = (template.match(/\{\{\/if\}\}/g) || []).length;
-      
-      if (ifCount !== endifCount) {
-        errors.push('Unbalanced if/endif blocks');
+  /**
+   * List the partials a template references directly
+   */
+  extractPartials(template: string): Array<{ name: string; version?: string }> {
+    const references: Array<{ name: string; version?: string }> = [];
+    const visit = (nodes: TemplateNode[]) => {
+      for (const node of nodes) {
+        if (node.type === 'partial') {
+          references.push({ name: node.name, ...(node.version ? { version: node.version } : {}) });
+        } else if (node.type === 'block') {
+          visit(node.program);
+          visit(node.inverse || []);
+        }
       }
+    };
+    visit(parseTemplate(template));
+    return references;
+  }
+
+  /**
+   * Extract all root-level variables referenced in a template, including those
+   * used inside registered partials.
+   * Paths inside {{#each}} bodies resolve against the current item and are
+   * only reported when they escape it via `../` or `@root`.
+   */
+  extractVariables(template: string): string[] {
+    const variables = new Set<string>();
 
-      // Check for balanced loops
-      const eachCount = (template.match(/\{\{#each/g) || []).length;
-      const endeachCount = (template.match(/\{\{\/each\}\}/g) || []).length;
-      
-      if (eachCount !== endeachCount) {
-        errors.push('Unbalanced each/endeach blocks');
+    const visitExpression = (expression: TemplateExpression, eachDepth: number, shadowed: Set<string>) => {
+      if (expression.type !== 'path' || expression.parts.length === 0) {
+        return;
       }
+      const isRootReference =
+        expression.head === 'root' ||
+        (expression.head !== 'data' && expression.depth >= eachDepth);
+      const isShadowed = expression.head !== 'root' && expression.depth === 0 && shadowed.has(expression.parts[0]);
+      if (isRootReference && !isShadowed) {
+        variables.add(expression.parts[0]);
+      }
+    };
 
-      // Check for valid helper references
-      const helperRegex = /\{\{(\w+)\s+/g;
-      let match;
-      while ((match = helperRegex.exec(template)) !== null) {
-        const helperName = match[1];
-        if (!['if', 'each', 'unless'].includes(helperName) && !this.helpers.has(helperName)) {
-          errors.push(`Unknown helper: ${helperName}`);
+    const visit = (nodes: TemplateNode[], eachDepth: number, shadowed: Set<string>, partialStack: string[]) => {
+      for (const node of nodes) {
+        switch (node.type) {
+          case 'mustache': {
+            const isHelperCall = node.params.length > 0 || Object.keys(node.hash).length > 0;
+            const isBareHelper =
+              this.helpers.has(node.path.original) && node.path.head === 'scope' && node.path.parts.length === 1;
+            if (!isHelperCall && !isBareHelper) {
+              visitExpression(node.path, eachDepth, shadowed);
+            }
+            node.params.forEach(param => visitExpression(param, eachDepth, shadowed));
+            Object.values(node.hash).forEach(value => visitExpression(value, eachDepth, shadowed));
+            break;
+          }
+          case 'module':
+            Object.values(node.hash).forEach(value => visitExpression(value, eachDepth, shadowed));
+            break;
+          case 'block':
+            node.params.forEach(param => visitExpression(param, eachDepth, shadowed));
+            visit(node.program, node.name === 'each' ? eachDepth + 1 : eachDepth, shadowed, partialStack);
+            if (node.inverse) {
+              visit(node.inverse, eachDepth, shadowed, partialStack);
+            }
+            break;
+          case 'partial': {
+            node.params.forEach(param => visitExpression(param, eachDepth, shadowed));
+            Object.values(node.hash).forEach(value => visitExpression(value, eachDepth, shadowed));
+            const resolved = this.resolvePartial(node.name, node.version);
+            if (!resolved || partialStack.includes(node.name)) {
+              break;
+            }
+            // A context argument replaces the scope like {{#each}}; hash keys only shadow names
+            visit(
+              this.getPartialAst(resolved),
+              node.params.length > 0 ? eachDepth + 1 : eachDepth,
+              new Set([...shadowed, ...Object.keys(node.hash)]),
+              [...partialStack, node.name]
+            );
+            break;
+          }
         }
       }
+    };
+
+    visit(parseTemplate(template), 0, new Set(), []);
+    return Array.from(variables);
+  }
+
+  /**
+   * Validate template syntax
+   */
+  validateTemplate(template: string): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    try {
+      const visit = (nodes: TemplateNode[], partialStack: string[]) => {
+        for (const node of nodes) {
+          const location = `at line ${node.position.line}, column ${node.position.column}`;
+          if (node.type === 'mustache') {
+            const isHelperCall = node.params.length > 0 || Object.keys(node.hash).length > 0;
+            if (isHelperCall && !this.helpers.has(node.path.original)) {
+              errors.push(`Unknown helper: ${node.path.original} ${location}`);
+            }
+          } else if (node.type === 'block') {
+            visit(node.program, partialStack);
+            if (node.inverse) {
+              visit(node.inverse, partialStack);
+            }
+          } else if (node.type === 'partial') {
+            const label = node.version ? `${node.name}@${node.version}` : node.name;
+            const resolved = this.resolvePartial(node.name, node.version);
+            if (!resolved) {
+              errors.push(`Unknown partial: ${label} ${location}`);
+            } else if (partialStack.includes(node.name)) {
+              errors.push(`Circular partial reference: ${[...partialStack, node.name].join(' -> ')} ${location}`);
+            } else {
+              visit(this.getPartialAst(resolved), [...partialStack, node.name]);
+            }
+          }
+        }
+      };
+
+      visit(parseTemplate(template), []);
     } catch (error) {
-      errors.push(`Template validation error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      errors.push(error instanceof Error ? error.message : 'Unknown template error');
     }
 
     return {
@@ -144,81 +315,246 @@ export class PromptTemplateEngine {
     };
   }
 
+  /**
+   * Replace module references like {{module "module_id" param="value"}} with resolved outputs,
+   * leaving the rest of the template source untouched
+   */
+  replaceDependencies(template: string, dependencies: Record<string, any>): string {
+    return tokenize(template)
+      .map(token => {
+        if (token.type === 'tag') {
+          const match = /^module\s+"([^"]+)"/.exec(token.value);
+          if (match && match[1] in dependencies) {
+            return this.stringify(dependencies[match[1]]);
+          }
+        }
+        return token.raw;
+      })
+      .join('');
+  }
+
   // Private methods
 
-  private replaceVariables(template: string, variables: Record<string, any>): string {
-    return template.replace(/\{\{(\w+)\}\}/g, (match, varName) => {
-      if (varName in variables) {
-        const value = variables[varName];
-        return typeof value === 'string' ? value : JSON.stringify(value);
+  private renderNodes(nodes: TemplateNode[], state: RenderState): string {
+    let output = '';
+
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'text':
+          output += node.value;
+          break;
+
+        case 'mustache':
+          output += this.stringify(this.evaluateMustache(node, state));
+          break;
+
+        case 'module': {
+          const dependencies = state.context.dependencies || {};
+          output += node.moduleId in dependencies
+            ? this.stringify(dependencies[node.moduleId])
+            : node.raw; // Leave unresolved references for a later pass
+          break;
+        }
+
+        case 'block':
+          output += this.renderBlock(node, state);
+          break;
+
+        case 'partial':
+          output += this.renderPartial(node, state);
+          break;
       }
-      return match; // Leave unreplaced if variable not found
-    });
+    }
+
+    return output;
   }
 
-  private replaceDependencies(template: string, dependencies: Record<string, any>): string {
-    // Replace module references like {{module "module_id" param="value"}}
-    return template.replace(
-      /\{\{module\s+"([^"]+)"([^}]*)\}\}/g,
-      (match, moduleId, params) => {
-        if (moduleId in dependencies) {
-          return dependencies[moduleId];
-        }
-        return match;
+  private renderPartial(node: PartialNode, state: RenderState): string {
+    const resolved = this.resolvePartial(node.name, node.version);
+    if (!resolved) {
+      throw templateSyntaxError(
+        `Unknown partial: ${node.version ? `${node.name}@${node.version}` : node.name}`,
+        node.position
+      );
+    }
+
+    if (state.partialStack.includes(node.name)) {
+      throw new PromptHubMCPError(
+        ErrorCodes.VALIDATION_ERROR,
+        `Circular partial reference: ${[...state.partialStack, node.name].join(' -> ')}`,
+        { path: [...state.partialStack, node.name] }
+      );
+    }
+
+    let scopes = state.scopes;
+    if (node.params.length > 0 || Object.keys(node.hash).length > 0) {
+      const base = node.params.length > 0
+        ? this.evaluate(node.params[0], state)
+        : state.scopes[state.scopes.length - 1];
+      const hash: Record<string, any> = {};
+      for (const [key, value] of Object.entries(node.hash)) {
+        hash[key] = this.evaluate(value, state);
       }
-    );
+      const scope = Object.keys(hash).length > 0
+        ? { ...(base && typeof base === 'object' ? base : {}), ...hash }
+        : base;
+      scopes = [...state.scopes, scope];
+    }
+
+    return this.renderNodes(this.getPartialAst(resolved), {
+      ...state,
+      scopes,
+      partialStack: [...state.partialStack, node.name],
+    });
   }
 
-  private processHelpers(template: string, context: TemplateContext): string {
-    let processed = template;
-
-    // Process helper functions like {{uppercase variable}}
-    for (const [helperName, helperFn] of this.helpers) {
-      const regex = new RegExp(`\\{\\{${helperName}\\s+(\\w+)\\}\\}`, 'g');
-      processed = processed.replace(regex, (match, varName) => {
-        if (varName in context.variables) {
-          try {
-            return helperFn(context.variables[varName]);
-          } catch (error) {
-            console.warn(`Helper ${helperName} failed:`, error);
-            return match;
-          }
-        }
-        return match;
-      });
+  private getPartialAst(partial: ResolvedPartial): TemplateNode[] {
+    const key = `${partial.name}@${partial.version}`;
+    let ast = this.partialAstCache.get(key);
+    if (!ast) {
+      ast = parseTemplate(partial.template);
+      this.partialAstCache.set(key, ast);
+    }
+    return ast;
+  }
+
+  private evaluateMustache(node: MustacheNode, state: RenderState): any {
+    const { path } = node;
+    const isHelperCall = node.params.length > 0 || Object.keys(node.hash).length > 0;
+    const helper = this.getHelper(path.original, state.context);
+
+    if (isHelperCall) {
+      if (!helper) {
+        throw templateSyntaxError(`Unknown helper: ${path.original}`, node.position);
+      }
+      return this.callHelper(path.original, helper, node, state);
+    }
+
+    const value = this.lookup(path, state);
+    if (value === undefined && helper && path.head === 'scope' && path.parts.length === 1) {
+      return this.callHelper(path.original, helper, node, state);
     }
 
-    return processed;
+    return value;
   }
 
-  private processConditionals(template: string, context: TemplateContext): string {
-    // Process {{#if condition}}...{{/if}} blocks
-    return template.replace(
-      /\{\{#if\s+(\w+)\}\}(.*?)\{\{\/if\}\}/gs,
-      (match, condition, content) => {
-        const value = context.variables[condition];
-        return this.isTruthy(value) ? content : '';
+  private callHelper(name: string, helper: Function, node: MustacheNode, state: RenderState): any {
+    const args = node.params.map(param => this.evaluate(param, state));
+    if (Object.keys(node.hash).length > 0) {
+      const hash: Record<string, any> = {};
+      for (const [key, value] of Object.entries(node.hash)) {
+        hash[key] = this.evaluate(value, state);
       }
-    );
+      args.push(hash);
+    }
+
+    try {
+      return helper(...args);
+    } catch (error) {
+      throw new PromptHubMCPError(
+        ErrorCodes.EXECUTION_FAILED,
+        `Helper ${name} failed at line ${node.position.line}, column ${node.position.column}: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+        error
+      );
+    }
   }
 
-  private processLoops(template: string, context: TemplateContext): string {
-    // Process {{#each items}}...{{/each}} blocks
-    return template.replace(
-      /\{\{#each\s+(\w+)\}\}(.*?)\{\{\/each\}\}/gs,
-      (match, arrayName, content) => {
-        const array = context.variables[arrayName];
-        if (!Array.isArray(array)) {
-          return '';
+  private renderBlock(node: BlockNode, state: RenderState): string {
+    const value = this.evaluate(node.params[0], state);
+
+    switch (node.name) {
+      case 'if':
+        return this.isTruthy(value)
+          ? this.renderNodes(node.program, state)
+          : this.renderNodes(node.inverse || [], state);
+
+      case 'unless':
+        return !this.isTruthy(value)
+          ? this.renderNodes(node.program, state)
+          : this.renderNodes(node.inverse || [], state);
+
+      case 'each': {
+        const entries: Array<[string | number, any]> = Array.isArray(value)
+          ? value.map((item, index) => [index, item])
+          : value && typeof value === 'object'
+            ? Object.entries(value)
+            : [];
+
+        if (entries.length === 0) {
+          return this.renderNodes(node.inverse || [], state);
         }
 
-        return array.map((item, index) => {
-          return content
-            .replace(/\{\{this\}\}/g, typeof item === 'string' ? item : JSON.stringify(item))
-            .replace(/\{\{@index\}\}/g, index.toString());
-        }).join('');
+        return entries.map(([key, item], index) =>
+          this.renderNodes(node.program, {
+            scopes: [...state.scopes, item],
+            data: {
+              ...state.data,
+              index,
+              key,
+              first: index === 0,
+              last: index === entries.length - 1,
+            },
+            context: state.context,
+            partialStack: state.partialStack,
+          })
+        ).join('');
       }
-    );
+
+      default:
+        throw templateSyntaxError(`Unknown block helper '#${node.name}'`, node.position);
+    }
+  }
+
+  private evaluate(expression: TemplateExpression, state: RenderState): any {
+    return expression.type === 'literal' ? expression.value : this.lookup(expression, state);
+  }
+
+  private lookup(path: PathExpression, state: RenderState): any {
+    let base: any;
+    switch (path.head) {
+      case 'data':
+        return this.resolveParts(state.data, path.parts);
+      case 'root':
+        base = state.scopes[0];
+        break;
+      default:
+        base = state.scopes[Math.max(0, state.scopes.length - 1 - path.depth)];
+    }
+    return this.resolveParts(base, path.parts);
+  }
+
+  private resolveParts(base: any, parts: string[]): any {
+    let value = base;
+    for (const part of parts) {
+      if (value === null || value === undefined) {
+        return undefined;
+      }
+      // Only own properties (plus length) are visible to templates
+      if (Object.prototype.hasOwnProperty.call(Object(value), part)) {
+        value = value[part];
+      } else if (part === 'length' && (Array.isArray(value) || typeof value === 'string')) {
+        value = value.length;
+      } else {
+        return undefined;
+      }
+    }
+    return value;
+  }
+
+  private getHelper(name: string, context: TemplateContext): Function | undefined {
+    if (context.helpers && Object.prototype.hasOwnProperty.call(context.helpers, name)) {
+      return context.helpers[name];
+    }
+    return this.helpers.get(name);
+  }
+
+  private stringify(value: any): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    return typeof value === 'string' ? value : JSON.stringify(value);
   }
 
   private isTruthy(value: any): boolean {
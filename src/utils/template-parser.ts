@@ -0,0 +1,530 @@
+import { PromptHubMCPError, ErrorCodes } from '../types';
+
+/**
+ * Location of a token or node in the template source (1-based)
+ */
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+/**
+ * Variable reference such as `name`, `user.name`, `this.field`, `../parent` or `@index`
+ */
+export interface PathExpression {
+  type: 'path';
+  original: string;
+  head: 'scope' | 'this' | 'data' | 'root';
+  depth: number; // Number of `../` segments
+  parts: string[];
+}
+
+/**
+ * Literal argument such as `", "`, `3` or `true`
+ */
+export interface LiteralExpression {
+  type: 'literal';
+  value: string | number | boolean | null | undefined;
+}
+
+export type TemplateExpression = PathExpression | LiteralExpression;
+
+export interface TextNode {
+  type: 'text';
+  value: string;
+  position: SourcePosition;
+}
+
+/**
+ * `{{path}}` or `{{helper arg1 arg2 key=value}}`
+ */
+export interface MustacheNode {
+  type: 'mustache';
+  path: PathExpression;
+  params: TemplateExpression[];
+  hash: Record<string, TemplateExpression>;
+  position: SourcePosition;
+}
+
+/**
+ * `{{#if}}`, `{{#unless}}` and `{{#each}}` blocks with an optional `{{else}}` branch
+ */
+export interface BlockNode {
+  type: 'block';
+  name: string;
+  params: TemplateExpression[];
+  program: TemplateNode[];
+  inverse: TemplateNode[] | null;
+  position: SourcePosition;
+}
+
+/**
+ * `{{module "module_id" param="value"}}` dependency reference
+ */
+export interface ModuleNode {
+  type: 'module';
+  moduleId: string;
+  hash: Record<string, TemplateExpression>;
+  raw: string;
+  position: SourcePosition;
+}
+
+/**
+ * `{{> partialName}}`, optionally pinned (`{{> name@1.2.0}}`), with a context argument or key=value pairs
+ */
+export interface PartialNode {
+  type: 'partial';
+  name: string;
+  version?: string;
+  params: TemplateExpression[];
+  hash: Record<string, TemplateExpression>;
+  position: SourcePosition;
+}
+
+export type TemplateNode = TextNode | MustacheNode | BlockNode | ModuleNode | PartialNode;
+
+/**
+ * Raw template token: literal text or the contents of a `{{ }}` tag
+ */
+export interface TemplateToken {
+  type: 'text' | 'tag';
+  value: string;
+  raw: string;
+  position: SourcePosition;
+}
+
+/**
+ * Block helpers understood by the parser
+ */
+export const BLOCK_HELPERS = ['if', 'unless', 'each'];
+
+const IDENTIFIER = /^[A-Za-z_$][\w$-]*$/;
+const PARTIAL_NAME = /^[A-Za-z0-9_][\w./-]*$/;
+const NUMBER = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Build a syntax error carrying the source position
+ */
+export function templateSyntaxError(message: string, position: SourcePosition): PromptHubMCPError {
+  return new PromptHubMCPError(
+    ErrorCodes.VALIDATION_ERROR,
+    `${message} at line ${position.line}, column ${position.column}`,
+    { line: position.line, column: position.column }
+  );
+}
+
+/**
+ * Split a template into text and tag tokens.
+ * `\{{` produces a literal `{{` and `{{! ... }}` / `{{!-- ... --}}` are comments.
+ */
+export function tokenize(template: string): TemplateToken[] {
+  const tokens: TemplateToken[] = [];
+  let line = 1;
+  let column = 1;
+  let index = 0;
+  let text = '';
+  let textPosition: SourcePosition = { line, column };
+
+  const advance = (count: number): string => {
+    const consumed = template.slice(index, index + count);
+    for (const char of consumed) {
+      if (char === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+    }
+    index += count;
+    return consumed;
+  };
+
+  const flushText = () => {
+    if (text.length > 0) {
+      tokens.push({ type: 'text', value: text, raw: text, position: textPosition });
+    }
+    text = '';
+    textPosition = { line, column };
+  };
+
+  while (index < template.length) {
+    if (template.startsWith('\\{{', index)) {
+      if (text.length === 0) {
+        textPosition = { line, column };
+      }
+      advance(1);
+      text += advance(2);
+      continue;
+    }
+
+    if (!template.startsWith('{{', index)) {
+      if (text.length === 0) {
+        textPosition = { line, column };
+      }
+      text += advance(1);
+      continue;
+    }
+
+    flushText();
+    const position = { line, column };
+    const end = findTagEnd(template, index);
+    if (end === -1) {
+      throw templateSyntaxError('Unclosed tag', position);
+    }
+
+    const raw = advance(end - index);
+    const value = raw.startsWith('{{!') ? '!' : raw.slice(2, -2).trim();
+    tokens.push({ type: 'tag', value, raw, position });
+    textPosition = { line, column };
+  }
+
+  flushText();
+  return tokens;
+}
+
+/**
+ * Find the index just past the closing `}}` of the tag starting at `start`
+ */
+function findTagEnd(template: string, start: number): number {
+  if (template.startsWith('{{!--', start)) {
+    const end = template.indexOf('--}}', start + 5);
+    return end === -1 ? -1 : end + 4;
+  }
+
+  let quote: string | null = null;
+  for (let i = start + 2; i < template.length; i++) {
+    const char = template[i];
+    if (quote) {
+      if (char === '\\') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '}' && template[i + 1] === '}') {
+      return i + 2;
+    } else if (char === '{' && template[i + 1] === '{') {
+      return -1;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Split tag contents into whitespace-separated words, keeping quoted strings intact
+ */
+function splitWords(content: string, position: SourcePosition): string[] {
+  const words: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quote) {
+      current += char;
+      if (char === '\\' && i + 1 < content.length) {
+        current += content[++i];
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (/\s/.test(char)) {
+      if (current) {
+        words.push(current);
+      }
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (quote) {
+    throw templateSyntaxError('Unterminated string literal', position);
+  }
+  if (current) {
+    words.push(current);
+  }
+
+  return words;
+}
+
+/**
+ * Parse a single argument word into an expression
+ */
+function parseExpression(word: string, position: SourcePosition): TemplateExpression {
+  const first = word[0];
+  if ((first === '"' || first === "'") && word.endsWith(first) && word.length >= 2) {
+    const value = word
+      .slice(1, -1)
+      .replace(/\\(.)/g, (_match, char: string) => (char === 'n' ? '\n' : char === 't' ? '\t' : char));
+    return { type: 'literal', value };
+  }
+  if (NUMBER.test(word)) {
+    return { type: 'literal', value: Number(word) };
+  }
+  if (word === 'true' || word === 'false') {
+    return { type: 'literal', value: word === 'true' };
+  }
+  if (word === 'null') {
+    return { type: 'literal', value: null };
+  }
+  if (word === 'undefined') {
+    return { type: 'literal', value: undefined };
+  }
+
+  return parsePath(word, position);
+}
+
+/**
+ * Parse a variable path
+ */
+function parsePath(word: string, position: SourcePosition): PathExpression {
+  let rest = word;
+  let depth = 0;
+  while (rest.startsWith('../')) {
+    depth++;
+    rest = rest.slice(3);
+  }
+
+  let head: PathExpression['head'] = 'scope';
+  if (rest.startsWith('@root')) {
+    head = 'root';
+    rest = rest.slice(5).replace(/^\./, '');
+  } else if (rest.startsWith('@')) {
+    head = 'data';
+    rest = rest.slice(1);
+  } else if (rest === 'this' || rest.startsWith('this.')) {
+    head = 'this';
+    rest = rest.slice(4).replace(/^\./, '');
+  }
+
+  const parts = rest.length > 0 ? rest.split('.') : [];
+  if ((head === 'scope' || head === 'data') && parts.length === 0) {
+    throw templateSyntaxError(`Invalid expression '${word}'`, position);
+  }
+  for (const part of parts) {
+    if (!IDENTIFIER.test(part) && !/^\d+$/.test(part)) {
+      throw templateSyntaxError(`Invalid expression '${word}'`, position);
+    }
+  }
+
+  return { type: 'path', original: word, head, depth, parts };
+}
+
+/**
+ * Parse argument words into positional params and key=value hash pairs
+ */
+function parseArguments(
+  words: string[],
+  position: SourcePosition
+): { params: TemplateExpression[]; hash: Record<string, TemplateExpression> } {
+  const params: TemplateExpression[] = [];
+  const hash: Record<string, TemplateExpression> = {};
+
+  for (const word of words) {
+    const hashMatch = /^([A-Za-z_$][\w$-]*)=(.+)$/.exec(word);
+    if (hashMatch && !word.startsWith('"') && !word.startsWith("'")) {
+      hash[hashMatch[1]] = parseExpression(hashMatch[2], position);
+    } else if (Object.keys(hash).length > 0) {
+      throw templateSyntaxError('Positional arguments must come before key=value arguments', position);
+    } else {
+      params.push(parseExpression(word, position));
+    }
+  }
+
+  return { params, hash };
+}
+
+interface ProgramTerminator {
+  kind: 'else' | 'close';
+  name: string;
+  words: string[];
+  position: SourcePosition;
+}
+
+/**
+ * Recursive-descent parser turning tokens into an AST
+ */
+export class TemplateParser {
+  private tokens: TemplateToken[];
+  private index: number = 0;
+
+  constructor(template: string) {
+    this.tokens = tokenize(template);
+  }
+
+  /**
+   * Parse the whole template
+   */
+  parse(): TemplateNode[] {
+    const { nodes, terminator } = this.parseProgram();
+    if (terminator) {
+      throw templateSyntaxError(
+        terminator.kind === 'else'
+          ? 'Unexpected {{else}} outside of a block'
+          : `Unexpected closing tag {{/${terminator.name}}}`,
+        terminator.position
+      );
+    }
+    return nodes;
+  }
+
+  private parseProgram(): { nodes: TemplateNode[]; terminator?: ProgramTerminator } {
+    const nodes: TemplateNode[] = [];
+
+    while (this.index < this.tokens.length) {
+      const token = this.tokens[this.index++];
+
+      if (token.type === 'text') {
+        nodes.push({ type: 'text', value: token.value, position: token.position });
+        continue;
+      }
+
+      const content = token.value;
+      if (content.startsWith('!')) {
+        continue;
+      }
+
+      if (content.length === 0) {
+        throw templateSyntaxError('Empty tag', token.position);
+      }
+
+      if (content.startsWith('/')) {
+        return {
+          nodes,
+          terminator: { kind: 'close', name: content.slice(1).trim(), words: [], position: token.position },
+        };
+      }
+
+      if (content.startsWith('>')) {
+        nodes.push(this.parsePartial(splitWords(content.slice(1), token.position), token.position));
+        continue;
+      }
+
+      const words = splitWords(content.startsWith('#') ? content.slice(1) : content, token.position);
+
+      if (words[0] === 'else' && !content.startsWith('#')) {
+        return {
+          nodes,
+          terminator: { kind: 'else', name: 'else', words: words.slice(1), position: token.position },
+        };
+      }
+
+      if (content.startsWith('#')) {
+        nodes.push(this.parseBlock(words, token.position, words[0]));
+        continue;
+      }
+
+      nodes.push(this.parseMustache(words, token));
+    }
+
+    return { nodes };
+  }
+
+  private parseBlock(words: string[], position: SourcePosition, closeName: string): BlockNode {
+    const [name, ...args] = words;
+    if (!name || !BLOCK_HELPERS.includes(name)) {
+      throw templateSyntaxError(`Unknown block helper '#${name || ''}'`, position);
+    }
+
+    const { params, hash } = parseArguments(args, position);
+    if (params.length !== 1 || Object.keys(hash).length > 0) {
+      throw templateSyntaxError(`{{#${name}}} expects exactly one argument`, position);
+    }
+
+    const body = this.parseProgram();
+    let terminator = body.terminator;
+    let inverse: TemplateNode[] | null = null;
+
+    if (terminator && terminator.kind === 'else') {
+      if (terminator.words.length > 0) {
+        // {{else if cond}} chains share the outer block's closing tag
+        const chained = this.parseBlock(terminator.words, terminator.position, closeName);
+        return { type: 'block', name, params, program: body.nodes, inverse: [chained], position };
+      }
+
+      const inverseBody = this.parseProgram();
+      inverse = inverseBody.nodes;
+      terminator = inverseBody.terminator;
+      if (terminator && terminator.kind === 'else') {
+        throw templateSyntaxError(`Duplicate {{else}} in {{#${closeName}}} block`, terminator.position);
+      }
+    }
+
+    if (!terminator) {
+      throw templateSyntaxError(`Unclosed block {{#${closeName}}}`, position);
+    }
+    if (terminator.name !== closeName) {
+      throw templateSyntaxError(
+        `Mismatched closing tag: expected {{/${closeName}}} but found {{/${terminator.name}}}`,
+        terminator.position
+      );
+    }
+
+    return { type: 'block', name, params, program: body.nodes, inverse, position };
+  }
+
+  private parsePartial(words: string[], position: SourcePosition): PartialNode {
+    const [spec, ...args] = words;
+    if (!spec) {
+      throw templateSyntaxError('{{>}} expects a partial name', position);
+    }
+
+    const versionIndex = spec.lastIndexOf('@');
+    const name = versionIndex > 0 ? spec.slice(0, versionIndex) : spec;
+    const version = versionIndex > 0 ? spec.slice(versionIndex + 1) : undefined;
+    if (!PARTIAL_NAME.test(name) || version === '') {
+      throw templateSyntaxError(`Invalid partial name '${spec}'`, position);
+    }
+
+    const { params, hash } = parseArguments(args, position);
+    if (params.length > 1) {
+      throw templateSyntaxError(`{{> ${name}}} accepts at most one context argument`, position);
+    }
+
+    return {
+      type: 'partial',
+      name,
+      ...(version ? { version } : {}),
+      params,
+      hash,
+      position,
+    };
+  }
+
+  private parseMustache(words: string[], token: TemplateToken): MustacheNode | ModuleNode {
+    const [name, ...args] = words;
+    const { params, hash } = parseArguments(args, token.position);
+
+    if (name === 'module') {
+      const moduleId = params[0];
+      if (params.length !== 1 || moduleId.type !== 'literal' || typeof moduleId.value !== 'string') {
+        throw templateSyntaxError('{{module}} expects a quoted module ID', token.position);
+      }
+      return { type: 'module', moduleId: moduleId.value, hash, raw: token.raw, position: token.position };
+    }
+
+    return {
+      type: 'mustache',
+      path: parsePath(name, token.position),
+      params,
+      hash,
+      position: token.position,
+    };
+  }
+}
+
+/**
+ * Parse a template into an AST
+ */
+export function parseTemplate(template: string): TemplateNode[] {
+  return new TemplateParser(template).parse();
+}
@@ -1 +1,421 @@
- 
\ No newline at end of file
+import {
+  DAGDefinition,
+  DAGDefinitionSchema,
+  DAGNode,
+  InputParameter,
+  PromptDefinition,
+  PromptDefinitionSchema,
+  ValidationResult,
+} from '../types';
+import { defaultConfig } from '../config/default';
+import { compileExpression } from './expression';
+import { escapePointer } from './json-schema';
+import { parseJsonPath } from './json-path';
+import { isValidVersion } from './semver';
+import { PromptTemplateEngine } from './template-engine';
+
+/**
+ * Options for validatePromptDSL
+ */
+export interface PromptDSLValidationOptions {
+  templateEngine?: PromptTemplateEngine | undefined; // Engine whose helpers and partials are considered known
+  knownModels?: string[] | undefined; // Extra model or provider names accepted in `models`
+}
+
+/**
+ * Options for validateDAGDefinition
+ */
+export interface DAGValidationOptions {
+  maxNodes?: number | undefined; // Defaults to validation.maxDagNodes
+  maxDepth?: number | undefined; // Longest dependency chain in nodes; defaults to validation.maxDagDepth
+}
+
+// Model families served by the bundled adapters
+const KNOWN_MODEL_PATTERNS = [/^gpt-/, /^o\d/, /^claude-/];
+
+/**
+ * Lint a PromptDSL document: schema, template syntax, inputs/template cross-checks, version and models
+ */
+export function validatePromptDSL(dsl: unknown, options: PromptDSLValidationOptions = {}): ValidationResult {
+  const parsed = PromptDefinitionSchema.safeParse(dsl);
+  if (!parsed.success) {
+    return {
+      valid: false,
+      errors: parsed.error.errors.map(issue => `${issue.path.join('.') || 'definition'}: ${issue.message}`),
+      warnings: [],
+    };
+  }
+
+  const definition = parsed.data;
+  const engine = options.templateEngine || new PromptTemplateEngine();
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!isValidVersion(definition.version)) {
+    errors.push(`Version '${definition.version}' is not a valid semantic version (major.minor.patch)`);
+  }
+
+  if (definition.template_dialect && !engine.supportsDialect(definition.template_dialect)) {
+    errors.push(
+      `Template dialect ${definition.template_dialect} is not supported (engine implements ${PromptTemplateEngine.DIALECT_VERSION})`
+    );
+  }
+
+  for (const [key, param] of Object.entries(definition.inputs)) {
+    validateInputDefinition(param, [key], errors);
+  }
+
+  validateTemplateUsage(definition, engine, errors, warnings);
+
+  const knownModels = new Set([...Object.keys(defaultConfig.models), ...(options.knownModels || [])]);
+  for (const model of definition.models || []) {
+    if (!knownModels.has(model) && !KNOWN_MODEL_PATTERNS.some(pattern => pattern.test(model))) {
+      warnings.push(`Unknown model '${model}'`);
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+  };
+}
+
+/**
+ * Check a DAG definition's schema and structure: node IDs, dependencies, edges, node kinds,
+ * expressions, cycles, size and depth. Every problem is reported; the parsed DAG (with defaults
+ * applied) is returned as `value` when the schema matches.
+ */
+export function validateDAGDefinition(dag: unknown, options: DAGValidationOptions = {}): ValidationResult {
+  const parsed = DAGDefinitionSchema.safeParse(dag);
+  if (!parsed.success) {
+    return {
+      valid: false,
+      errors: parsed.error.errors.map(issue => `${issue.path.join('.') || 'dag'}: ${issue.message}`),
+      warnings: [],
+    };
+  }
+
+  const definition = parsed.data;
+  const maxNodes = options.maxNodes ?? defaultConfig.validation.maxDagNodes;
+  const maxDepth = options.maxDepth ?? defaultConfig.validation.maxDagDepth;
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const nodes = new Map(definition.nodes.map(node => [node.id, node]));
+
+  if (definition.nodes.length > maxNodes) {
+    errors.push(`DAG has ${definition.nodes.length} nodes; the limit is ${maxNodes}`);
+  }
+
+  const seen = new Set<string>();
+  for (const node of definition.nodes) {
+    if (seen.has(node.id)) {
+      errors.push(`Duplicate node ID '${node.id}'`);
+    }
+    seen.add(node.id);
+
+    for (const dependency of node.dependencies) {
+      if (!nodes.has(dependency)) {
+        errors.push(`Node ${node.id} depends on non-existent node ${dependency}`);
+      }
+    }
+    validateDAGNodeKind(node, errors);
+  }
+
+  for (const edge of definition.edges) {
+    const label = `Edge ${edge.from} -> ${edge.to}`;
+    const target = nodes.get(edge.to);
+    if (!nodes.has(edge.from) || !target) {
+      errors.push(`${label} references a non-existent node`);
+      continue;
+    }
+
+    if (edge.outputKey !== undefined) {
+      try {
+        parseJsonPath(edge.outputKey);
+      } catch (error) {
+        errors.push(`${label}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    if (edge.when !== undefined && nodes.get(edge.from)!.kind !== 'condition') {
+      errors.push(`${label} has a 'when' value but ${edge.from} is not a condition node`);
+    }
+    if (!target.dependencies.includes(edge.from)) {
+      errors.push(`${label}: ${edge.from} is not listed in the dependencies of ${edge.to}`);
+    }
+  }
+
+  // Depth is the longest dependency chain; a cycle makes it unbounded
+  const dependencies = dagDependencies(definition);
+  const depths = new Map<string, number>();
+  const visiting = new Set<string>();
+  let cyclic = false;
+  const depthOf = (nodeId: string): number => {
+    if (depths.has(nodeId)) {
+      return depths.get(nodeId)!;
+    }
+    if (visiting.has(nodeId)) {
+      cyclic = true;
+      return 0;
+    }
+    visiting.add(nodeId);
+    let depth = 1;
+    for (const dependency of dependencies.get(nodeId) || []) {
+      if (nodes.has(dependency)) {
+        depth = Math.max(depth, depthOf(dependency) + 1);
+      }
+    }
+    visiting.delete(nodeId);
+    depths.set(nodeId, depth);
+    return depth;
+  };
+  const depth = Math.max(0, ...definition.nodes.map(node => depthOf(node.id)));
+
+  if (cyclic) {
+    errors.push('DAG contains cycles');
+  } else if (depth > maxDepth) {
+    errors.push(`DAG is ${depth} nodes deep; the limit is ${maxDepth}`);
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+    value: definition,
+  };
+}
+
+/**
+ * Each node's listed `dependencies`; validateDAGDefinition rejects edges whose source is not among them
+ */
+export function dagDependencies(dag: DAGDefinition): Map<string, Set<string>> {
+  return new Map(dag.nodes.map(node => [node.id, new Set(node.dependencies)]));
+}
+
+/**
+ * Validate a value and its nested items/properties against an input parameter, returning it (coerced when requested).
+ * Violations are appended to `errors`; nested values are reported by JSON pointer, e.g. `/filters/0/field`.
+ */
+export function validateParameterValue(
+  value: any,
+  param: InputParameter,
+  path: string[],
+  errors: string[],
+  coerce: boolean
+): any {
+  // Top-level parameters keep their plain name; nested ones are reported as a JSON pointer
+  const name = path.length === 1 ? path[0] : '/' + path.map(escapePointer).join('/');
+
+  if (coerce) {
+    value = coerceParameterValue(value, param.type);
+  }
+
+  if (param.enum && !param.enum.includes(value)) {
+    errors.push(`Parameter '${name}' must be one of: ${param.enum.join(', ')}`);
+    return value;
+  }
+
+  // Type validation
+  switch (param.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        errors.push(`Parameter '${name}' must be a string`);
+      } else if (param.minLength !== undefined && value.length < param.minLength) {
+        errors.push(`Parameter '${name}' must be at least ${param.minLength} characters`);
+      } else if (param.maxLength !== undefined && value.length > param.maxLength) {
+        errors.push(`Parameter '${name}' must be at most ${param.maxLength} characters`);
+      } else if (param.pattern && !new RegExp(param.pattern).test(value)) {
+        errors.push(`Parameter '${name}' does not match required pattern`);
+      }
+      break;
+
+    case 'number':
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        errors.push(`Parameter '${name}' must be a number`);
+      } else if (param.minimum !== undefined && value < param.minimum) {
+        errors.push(`Parameter '${name}' must be at least ${param.minimum}`);
+      } else if (param.maximum !== undefined && value > param.maximum) {
+        errors.push(`Parameter '${name}' must be at most ${param.maximum}`);
+      }
+      break;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        errors.push(`Parameter '${name}' must be a boolean`);
+      }
+      break;
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors.push(`Parameter '${name}' must be an array`);
+        break;
+      }
+      if (param.minItems !== undefined && value.length < param.minItems) {
+        errors.push(`Parameter '${name}' must have at least ${param.minItems} items`);
+      } else if (param.maxItems !== undefined && value.length > param.maxItems) {
+        errors.push(`Parameter '${name}' must have at most ${param.maxItems} items`);
+      }
+      if (param.items) {
+        const items = param.items;
+        value = value.map((item, index) =>
+          validateParameterValue(item, items, [...path, String(index)], errors, coerce)
+        );
+      }
+      break;
+
+    case 'object':
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push(`Parameter '${name}' must be an object`);
+        break;
+      }
+      if (param.properties) {
+        value = { ...value };
+        for (const [key, property] of Object.entries(param.properties)) {
+          if (!(key in value)) {
+            if (property.required) {
+              errors.push(`Required parameter '/${[...path, key].map(escapePointer).join('/')}' is missing`);
+            }
+            continue;
+          }
+          value[key] = validateParameterValue(value[key], property, [...path, key], errors, coerce);
+        }
+      }
+      break;
+  }
+
+  return value;
+}
+
+/**
+ * Convert numeric, boolean and JSON array/object strings to the declared type; other values are returned unchanged
+ */
+export function coerceParameterValue(value: any, type: InputParameter['type']): any {
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  const trimmed = value.trim();
+  if (type === 'number' && trimmed !== '' && Number.isFinite(Number(trimmed))) {
+    return Number(trimmed);
+  }
+  if (type === 'boolean' && (trimmed === 'true' || trimmed === 'false')) {
+    return trimmed === 'true';
+  }
+  if ((type === 'array' && trimmed.startsWith('[')) || (type === 'object' && trimmed.startsWith('{'))) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return value;
+    }
+  }
+
+  return value;
+}
+
+/**
+ * Check that a DAG node has the fields its kind needs and that its expressions parse
+ */
+function validateDAGNodeKind(node: DAGNode, errors: string[]): void {
+  const kind = node.kind ?? 'prompt';
+  const checkExpression = (field: 'expression' | 'items') => {
+    const source = node[field];
+    if (!source) {
+      errors.push(`Node ${node.id}: ${kind} nodes require ${field === 'items' ? 'an items expression' : 'an expression'}`);
+      return;
+    }
+    try {
+      compileExpression(source);
+    } catch (error) {
+      errors.push(`Node ${node.id}: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  if (kind === 'condition') {
+    checkExpression('expression');
+    return;
+  }
+
+  if (!node.promptId) {
+    errors.push(`Node ${node.id}: ${kind} nodes require a promptId`);
+  }
+  if (kind === 'map' || kind === 'reduce') {
+    checkExpression('items');
+  }
+}
+
+/**
+ * Check regex patterns and default values of an input parameter and its nested items/properties
+ */
+function validateInputDefinition(param: InputParameter, path: string[], errors: string[]): void {
+  const name = path.length === 1 ? path[0] : '/' + path.map(escapePointer).join('/');
+  let patternsValid = true;
+
+  const checkPatterns = (current: InputParameter, label: string) => {
+    if (current.pattern !== undefined) {
+      try {
+        new RegExp(current.pattern);
+      } catch (error) {
+        patternsValid = false;
+        errors.push(`Input '${label}' has an invalid pattern: ${error instanceof Error ? error.message : current.pattern}`);
+      }
+    }
+  };
+
+  checkPatterns(param, name);
+
+  if (param.items) {
+    validateInputDefinition(param.items, [...path, 'items'], errors);
+  }
+  for (const [key, property] of Object.entries(param.properties || {})) {
+    validateInputDefinition(property, [...path, key], errors);
+  }
+
+  // Defaults are checked with the same rules as caller inputs
+  if (patternsValid && param.default !== undefined) {
+    const defaultErrors: string[] = [];
+    try {
+      validateParameterValue(param.default, param, path, defaultErrors, false);
+    } catch {
+      // A nested invalid pattern has already been reported
+    }
+    for (const error of defaultErrors) {
+      errors.push(`Default value of input '${name}' is invalid: ${error}`);
+    }
+  }
+}
+
+/**
+ * Check template syntax and cross-check template variables against declared inputs
+ */
+function validateTemplateUsage(
+  definition: PromptDefinition,
+  engine: PromptTemplateEngine,
+  errors: string[],
+  warnings: string[]
+): void {
+  const templateValidation = engine.validateTemplate(definition.template);
+  for (const error of templateValidation.errors) {
+    // Partials may be published to the vault separately, so a missing one is not fatal here
+    if (error.startsWith('Unknown partial:')) {
+      warnings.push(`Template: ${error}`);
+    } else {
+      errors.push(`Template: ${error}`);
+    }
+  }
+
+  if (templateValidation.errors.some(error => !error.startsWith('Unknown'))) {
+    return; // Syntax errors; variables cannot be extracted
+  }
+
+  const variables = engine.extractVariables(definition.template);
+  for (const variable of variables) {
+    if (!(variable in definition.inputs)) {
+      errors.push(`Template variable '${variable}' is not declared in inputs`);
+    }
+  }
+  for (const key of Object.keys(definition.inputs)) {
+    if (!variables.includes(key)) {
+      warnings.push(`Input '${key}' is not used by the template`);
+    }
+  }
+}
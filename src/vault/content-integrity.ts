@@ -0,0 +1,222 @@
+import { createHash } from 'node:crypto';
+import bs58 from 'bs58';
+import { ContentVerification, PromptHubMCPError, ErrorCodes } from '../types';
+
+// Multicodec codes of the CIDs definitions are published under
+const CODEC_RAW = 0x55;
+const CODEC_DAG_PB = 0x70;
+const MULTIHASH_SHA2_256 = 0x12;
+
+// UnixFS Data.Type of a file node
+const UNIXFS_FILE = 2;
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+const SHA256_HEX = /^[0-9a-f]{64}$/i;
+
+/**
+ * A CID whose multihash is sha2-256
+ */
+export interface ParsedCid {
+  version: 0 | 1;
+  codec: number; // CODEC_RAW or CODEC_DAG_PB
+  digest: Buffer;
+}
+
+/**
+ * JSON with object keys sorted at every level and no whitespace, so equal values hash alike
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Hex sha256 of a value's canonical JSON, the form of `contentHash` that is not a CID
+ */
+export function canonicalHash(value: unknown): string {
+  return createHash('sha256').update(canonicalJson(value)).digest('hex');
+}
+
+/**
+ * Whether a content hash is a hex sha256 digest rather than a CID
+ */
+export function isSha256Digest(contentHash: string): boolean {
+  return SHA256_HEX.test(contentHash);
+}
+
+/**
+ * Parse a CIDv0 (`Qm...`) or a base32/base58 CIDv1 with a sha2-256 multihash; null for anything else
+ */
+export function parseCid(cid: string): ParsedCid | null {
+  try {
+    if (cid.length === 46 && cid.startsWith('Qm')) {
+      const multihash = Buffer.from(bs58.decode(cid));
+      return readMultihash(multihash, 0, { version: 0, codec: CODEC_DAG_PB });
+    }
+
+    const bytes = cid.startsWith('b') ? decodeBase32(cid.slice(1))
+      : cid.startsWith('z') ? Buffer.from(bs58.decode(cid.slice(1)))
+      : null;
+    if (!bytes) {
+      return null;
+    }
+
+    const [version, afterVersion] = readVarint(bytes, 0);
+    const [codec, afterCodec] = readVarint(bytes, afterVersion);
+    if (version !== 1 || (codec !== CODEC_RAW && codec !== CODEC_DAG_PB)) {
+      return null;
+    }
+    return readMultihash(bytes, afterCodec, { version: 1, codec });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check a raw IPFS block against its CID and return the file content it holds
+ */
+export function verifyBlock(cid: string, block: Buffer): Buffer {
+  const parsed = parseCid(cid);
+  if (!parsed) {
+    throw new PromptHubMCPError(ErrorCodes.INTEGRITY_CHECK_FAILED, `Unsupported content identifier: ${cid}`);
+  }
+
+  const digest = createHash('sha256').update(block).digest();
+  if (!digest.equals(parsed.digest)) {
+    throw new PromptHubMCPError(ErrorCodes.INTEGRITY_CHECK_FAILED, `Content does not match its CID: ${cid}`, {
+      expected: parsed.digest.toString('hex'),
+      actual: digest.toString('hex'),
+    });
+  }
+
+  return parsed.codec === CODEC_RAW ? block : unixfsFileContent(cid, block);
+}
+
+/**
+ * Check a definition against the hex sha256 of its canonical JSON
+ */
+export function verifyCanonicalHash(contentHash: string, value: unknown): void {
+  const actual = canonicalHash(value);
+  if (actual !== contentHash.toLowerCase()) {
+    throw new PromptHubMCPError(ErrorCodes.INTEGRITY_CHECK_FAILED, 'Content does not match its on-chain hash', {
+      expected: contentHash,
+      actual,
+    });
+  }
+}
+
+/**
+ * The record reported for content that passed verifyBlock or verifyCanonicalHash
+ */
+export function verification(contentHash: string, source: string): ContentVerification {
+  return {
+    verified: true,
+    method: isSha256Digest(contentHash) ? 'sha256' : 'cid',
+    contentHash,
+    source,
+    verifiedAt: Date.now(),
+  };
+}
+
+function readMultihash(bytes: Buffer, offset: number, cid: Omit<ParsedCid, 'digest'>): ParsedCid | null {
+  const [code, afterCode] = readVarint(bytes, offset);
+  const [length, afterLength] = readVarint(bytes, afterCode);
+  if (code !== MULTIHASH_SHA2_256 || length !== 32 || bytes.length !== afterLength + length) {
+    return null;
+  }
+  return { ...cid, digest: bytes.subarray(afterLength) };
+}
+
+/**
+ * File content of a dag-pb block holding a single-block UnixFS file
+ */
+function unixfsFileContent(cid: string, block: Buffer): Buffer {
+  const node = readProtobuf(block);
+  if (node.has(2)) {
+    // Larger files link to chunks that would each need fetching and checking
+    throw new PromptHubMCPError(ErrorCodes.INTEGRITY_CHECK_FAILED, `Definitions spanning several blocks are not supported: ${cid}`);
+  }
+
+  const data = readProtobuf(node.get(1)?.[0] as Buffer ?? Buffer.alloc(0));
+  if (data.get(1)?.[0] !== UNIXFS_FILE) {
+    throw new PromptHubMCPError(ErrorCodes.INTEGRITY_CHECK_FAILED, `CID does not address a file: ${cid}`);
+  }
+  return (data.get(2)?.[0] as Buffer | undefined) ?? Buffer.alloc(0);
+}
+
+/**
+ * Fields of a protobuf message by number; varints as numbers, length-delimited fields as buffers
+ */
+function readProtobuf(bytes: Buffer): Map<number, Array<number | Buffer>> {
+  const fields = new Map<number, Array<number | Buffer>>();
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    const [key, afterKey] = readVarint(bytes, offset);
+    const field = Math.floor(key / 8);
+    let value: number | Buffer;
+
+    switch (key % 8) {
+      case 0:
+        [value, offset] = readVarint(bytes, afterKey);
+        break;
+      case 2: {
+        const [length, afterLength] = readVarint(bytes, afterKey);
+        offset = afterLength + length;
+        if (offset > bytes.length) {
+          throw new PromptHubMCPError(ErrorCodes.INTEGRITY_CHECK_FAILED, 'Truncated dag-pb block');
+        }
+        value = bytes.subarray(afterLength, offset);
+        break;
+      }
+      default:
+        throw new PromptHubMCPError(ErrorCodes.INTEGRITY_CHECK_FAILED, `Unexpected wire type in dag-pb block: ${key % 8}`);
+    }
+    fields.set(field, [...(fields.get(field) || []), value]);
+  }
+  return fields;
+}
+
+function readVarint(bytes: Buffer, offset: number): [number, number] {
+  let value = 0;
+  for (let shift = 0; shift < 49; shift += 7) {
+    const byte = bytes[offset++];
+    if (byte === undefined) {
+      throw new RangeError('Truncated varint');
+    }
+    value += (byte & 0x7f) * 2 ** shift;
+    if (byte < 0x80) {
+      return [value, offset];
+    }
+  }
+  throw new RangeError('Varint too long');
+}
+
+function decodeBase32(text: string): Buffer {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+
+  for (const char of text) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index < 0) {
+      throw new RangeError(`Invalid base32 character: ${char}`);
+    }
+    buffer = ((buffer << 5) | index) & 0xfff;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
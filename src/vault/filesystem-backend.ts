@@ -0,0 +1,419 @@
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import { z } from 'zod';
+import { resolveVersion } from '../utils/semver';
+import { VaultBackend, VaultMetadata, VaultPrompt, PromptListFilters } from './vault-backend';
+import {
+  PromptDefinition,
+  PromptDefinitionSchema,
+  PromptPartial,
+  PromptPartialSchema,
+  PromptMetadata,
+  PromptMetadataSchema,
+  PromptHubMCPError,
+  ErrorCodes,
+} from '../types';
+
+const PROMPT_FILE = 'prompt.json';
+const METADATA_FILE = 'metadata.json';
+const PARTIAL_FILE = 'partial.json';
+const TAGS_FILE = 'tags.json';
+const PARTIALS_DIR = '_partials';
+const EXECUTIONS_FILE = '_executions.jsonl';
+
+// Prompt, partial and version directory names; entries starting with `_` or `.` are not prompts
+const ENTRY_NAME = /^[A-Za-z0-9][\w.@+-]*$/;
+
+// Same split the on-chain vault applies
+const DEFAULT_ROYALTY_CONFIG = {
+  creatorShare: 6000,
+  daoShare: 1500,
+  validatorShare: 1500,
+  burnShare: 1000,
+};
+
+/**
+ * One line of the execution log
+ */
+interface ExecutionRecord {
+  promptId: string;
+  executionId: string;
+  inputHash: string;
+  outputHash: string;
+  success: boolean;
+  executionTime: number;
+  timestamp: number;
+}
+
+/**
+ * Vault backed by a local directory of PromptDSL files, for offline development and private vaults.
+ * Layout: `<root>/<promptId>/<version>/prompt.json` with an optional `metadata.json` next to it,
+ * optional version tags in `<root>/<promptId>/tags.json` (e.g. `{ "stable": "1.2.0" }`), partials in `<root>/_partials/<partialId>/<version>/partial.json`, and executions appended
+ * to `<root>/_executions.jsonl`. Files are read on every call, so edits show up without a restart.
+ */
+export class FilesystemVaultBackend implements VaultBackend {
+  private promptChangeListeners: Set<() => void> = new Set();
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private root: string) {}
+
+  /**
+   * Create the vault directory if it does not exist yet
+   */
+  async initialize(): Promise<void> {
+    try {
+      await fs.mkdir(this.root, { recursive: true });
+    } catch (error) {
+      throw new PromptHubMCPError(ErrorCodes.EXECUTION_FAILED, `Failed to open vault directory: ${this.root}`, error);
+    }
+  }
+
+  /**
+   * Get a prompt by ID and optional version, range or tag; the highest version when none is given
+   */
+  async getPrompt(promptId: string, version?: string): Promise<VaultPrompt | null> {
+    const dir = join(this.root, this.entryName(promptId, 'prompt ID'));
+    const selected = await this.selectVersion(dir, PROMPT_FILE, version);
+    if (!selected) {
+      return null;
+    }
+
+    return this.readPrompt(promptId, selected, await this.countExecutions());
+  }
+
+  /**
+   * Get a template partial by ID and optional version, range or tag; the highest version when none is given
+   */
+  async getPartial(partialId: string, version?: string): Promise<PromptPartial | null> {
+    const dir = join(this.root, PARTIALS_DIR, this.entryName(partialId, 'partial ID'));
+    const selected = await this.selectVersion(dir, PARTIAL_FILE, version);
+    if (!selected) {
+      return null;
+    }
+
+    const file = join(dir, selected, PARTIAL_FILE);
+    const parsed = PromptPartialSchema.safeParse(await this.readJson(file));
+    if (!parsed.success) {
+      throw new PromptHubMCPError(ErrorCodes.VALIDATION_ERROR, `Invalid partial definition: ${file}`, parsed.error.errors);
+    }
+    if (parsed.data.id !== partialId || parsed.data.version !== selected) {
+      throw new PromptHubMCPError(
+        ErrorCodes.VALIDATION_ERROR,
+        `Partial ${parsed.data.id}@${parsed.data.version} does not match its location ${partialId}/${selected}`
+      );
+    }
+
+    return parsed.data;
+  }
+
+  /**
+   * List the highest version of every prompt, sorted by ID.
+   * `tags` keeps prompts carrying all of the given tags.
+   */
+  async listPrompts(filters: PromptListFilters = {}): Promise<PromptMetadata[]> {
+    const executions = await this.countExecutions();
+    const prompts: PromptMetadata[] = [];
+
+    for (const promptId of await this.listEntries(this.root)) {
+      try {
+        const version = await this.selectVersion(join(this.root, promptId), PROMPT_FILE);
+        if (version) {
+          prompts.push((await this.readPrompt(promptId, version, executions)).metadata);
+        }
+      } catch (error) {
+        // One broken prompt must not hide the rest of the vault
+        console.warn(`Skipping prompt ${promptId}:`, error);
+      }
+    }
+
+    const offset = filters.offset ?? 0;
+    return prompts
+      .filter(prompt => !filters.author || prompt.author === filters.author)
+      .filter(prompt => !filters.tags || filters.tags.every(tag => prompt.tags.includes(tag)))
+      .slice(offset, filters.limit === undefined ? undefined : offset + filters.limit);
+  }
+
+  /**
+   * Subscribe to changes of the vault's prompt list; returns an unsubscribe function.
+   * Only registrations through this backend notify; edits made directly on disk are
+   * picked up by the MCP server's prompt list polling.
+   */
+  onPromptsChanged(listener: () => void): () => void {
+    this.promptChangeListeners.add(listener);
+    return () => {
+      this.promptChangeListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Write a new prompt version; versions are immutable once registered
+   */
+  async registerPrompt(definition: PromptDefinition, metadata: Partial<PromptMetadata>): Promise<string> {
+    const parsed = PromptDefinitionSchema.safeParse(definition);
+    if (!parsed.success) {
+      throw new PromptHubMCPError(ErrorCodes.VALIDATION_ERROR, 'Invalid prompt definition', parsed.error.errors);
+    }
+
+    const dir = join(
+      this.root,
+      this.entryName(parsed.data.id, 'prompt ID'),
+      this.entryName(parsed.data.version, 'version')
+    );
+    if (await this.exists(join(dir, PROMPT_FILE))) {
+      throw new PromptHubMCPError(
+        ErrorCodes.VALIDATION_ERROR,
+        `Prompt ${parsed.data.id}@${parsed.data.version} is already registered`
+      );
+    }
+
+    try {
+      await fs.mkdir(dir, { recursive: true });
+      if (Object.keys(metadata).length > 0) {
+        await this.writeJson(join(dir, METADATA_FILE), metadata);
+      }
+      // The prompt file goes last: a version without it does not exist yet
+      await this.writeJson(join(dir, PROMPT_FILE), parsed.data);
+    } catch (error) {
+      throw new PromptHubMCPError(ErrorCodes.EXECUTION_FAILED, `Failed to register prompt: ${parsed.data.id}`, error);
+    }
+
+    this.notifyPromptsChanged();
+    return parsed.data.id;
+  }
+
+  /**
+   * Append an execution to the execution log; returns the execution ID as its record reference
+   */
+  async recordExecution(
+    promptId: string,
+    executionId: string,
+    inputHash: string,
+    outputHash: string,
+    success: boolean,
+    executionTime: number
+  ): Promise<string> {
+    const record: ExecutionRecord = {
+      promptId,
+      executionId,
+      inputHash,
+      outputHash,
+      success,
+      executionTime,
+      timestamp: Date.now(),
+    };
+
+    // Appends are chained so concurrent records never interleave
+    const append = this.writing.then(() =>
+      fs.appendFile(join(this.root, EXECUTIONS_FILE), `${JSON.stringify(record)}\n`)
+    );
+    this.writing = append.catch(() => undefined);
+
+    try {
+      await append;
+    } catch (error) {
+      throw new PromptHubMCPError(ErrorCodes.EXECUTION_FAILED, 'Failed to record execution', error);
+    }
+    return executionId;
+  }
+
+  /**
+   * Get vault metadata and statistics
+   */
+  async getVaultMetadata(): Promise<VaultMetadata> {
+    const prompts = await this.listPrompts();
+    const executions = await this.countExecutions();
+
+    return {
+      backend: 'filesystem',
+      totalPrompts: prompts.length,
+      totalExecutions: Array.from(executions.values()).reduce((total, count) => total + count, 0),
+      totalAuthors: new Set(prompts.map(prompt => prompt.author)).size,
+      path: this.root,
+    };
+  }
+
+  // Private helper methods
+
+  private notifyPromptsChanged(): void {
+    for (const listener of this.promptChangeListeners) {
+      try {
+        listener();
+      } catch (error) {
+        console.warn('Prompt change listener failed:', error);
+      }
+    }
+  }
+
+  private async readPrompt(
+    promptId: string,
+    version: string,
+    executions: Map<string, number>
+  ): Promise<VaultPrompt> {
+    const dir = join(this.root, promptId, version);
+    const file = join(dir, PROMPT_FILE);
+
+    const contents = await this.readText(file);
+    const parsed = PromptDefinitionSchema.safeParse(this.parseJson(file, contents));
+    if (!parsed.success) {
+      throw new PromptHubMCPError(ErrorCodes.VALIDATION_ERROR, `Invalid prompt definition: ${file}`, parsed.error.errors);
+    }
+    const definition = parsed.data;
+    if (definition.id !== promptId || definition.version !== version) {
+      throw new PromptHubMCPError(
+        ErrorCodes.VALIDATION_ERROR,
+        `Prompt ${definition.id}@${definition.version} does not match its location ${promptId}/${version}`
+      );
+    }
+
+    const overrides = PromptMetadataSchema.partial().safeParse(
+      (await this.exists(join(dir, METADATA_FILE))) ? await this.readJson(join(dir, METADATA_FILE)) : {}
+    );
+    if (!overrides.success) {
+      throw new PromptHubMCPError(
+        ErrorCodes.VALIDATION_ERROR,
+        `Invalid prompt metadata: ${join(dir, METADATA_FILE)}`,
+        overrides.error.errors
+      );
+    }
+
+    const stat = await fs.stat(file);
+    const metadata: PromptMetadata = {
+      name: definition.name,
+      description: definition.description,
+      author: definition.author,
+      license: definition.license,
+      tags: definition.tags || [],
+      createdAt: Math.floor(stat.birthtimeMs || stat.mtimeMs),
+      updatedAt: Math.floor(stat.mtimeMs),
+      executionCount: executions.get(promptId) || 0,
+      accessPolicy: { type: 'public' },
+      royaltyConfig: DEFAULT_ROYALTY_CONFIG,
+      ...(overrides.data as Partial<PromptMetadata>), // Parsed from JSON, so no key holds undefined
+      id: promptId,
+      version,
+    };
+
+    return { definition, metadata, contentHash: createHash('sha256').update(contents).digest('hex') };
+  }
+
+  /**
+   * Resolve a version spec against the version directories, the highest one when none is given;
+   * null when nothing matches. Only directories holding `file` count, so a half-written
+   * registration is ignored.
+   */
+  private async selectVersion(dir: string, file: string, spec?: string): Promise<string | null> {
+    const versions: string[] = [];
+    for (const version of await this.listEntries(dir)) {
+      if (await this.exists(join(dir, version, file))) {
+        versions.push(version);
+      }
+    }
+
+    if (versions.length === 0) {
+      return null;
+    }
+    return resolveVersion(versions, spec || 'latest', await this.readTags(dir));
+  }
+
+  private async readTags(dir: string): Promise<Record<string, string>> {
+    const file = join(dir, TAGS_FILE);
+    if (!(await this.exists(file))) {
+      return {};
+    }
+
+    const parsed = z.record(z.string()).safeParse(await this.readJson(file));
+    if (!parsed.success) {
+      throw new PromptHubMCPError(ErrorCodes.VALIDATION_ERROR, `Invalid version tags: ${file}`, parsed.error.errors);
+    }
+    return parsed.data;
+  }
+
+  private async listEntries(dir: string): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+      return entries
+        .filter(entry => entry.isDirectory() && ENTRY_NAME.test(entry.name))
+        .map(entry => entry.name)
+        .sort();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw new PromptHubMCPError(ErrorCodes.EXECUTION_FAILED, `Failed to read vault directory: ${dir}`, error);
+    }
+  }
+
+  private async countExecutions(): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+
+    let contents: string;
+    try {
+      contents = await fs.readFile(join(this.root, EXECUTIONS_FILE), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return counts;
+      }
+      throw new PromptHubMCPError(ErrorCodes.EXECUTION_FAILED, 'Failed to read execution log', error);
+    }
+
+    for (const line of contents.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        const record = JSON.parse(line) as ExecutionRecord;
+        counts.set(record.promptId, (counts.get(record.promptId) || 0) + 1);
+      } catch {
+        // A partially written last line is ignored
+      }
+    }
+    return counts;
+  }
+
+  /**
+   * Reject names that could leave the vault directory or clash with its reserved entries
+   */
+  private entryName(name: string, kind: string): string {
+    if (!ENTRY_NAME.test(name) || name.includes('..')) {
+      throw new PromptHubMCPError(ErrorCodes.VALIDATION_ERROR, `Invalid ${kind} for the filesystem vault: ${name}`);
+    }
+    return name;
+  }
+
+  private async readJson(file: string): Promise<unknown> {
+    return this.parseJson(file, await this.readText(file));
+  }
+
+  private async readText(file: string): Promise<string> {
+    try {
+      return await fs.readFile(file, 'utf8');
+    } catch (error) {
+      throw new PromptHubMCPError(ErrorCodes.EXECUTION_FAILED, `Failed to read vault file: ${file}`, error);
+    }
+  }
+
+  private parseJson(file: string, contents: string): unknown {
+    try {
+      return JSON.parse(contents);
+    } catch (error) {
+      throw new PromptHubMCPError(ErrorCodes.VALIDATION_ERROR, `Invalid JSON in vault file: ${file}`, error);
+    }
+  }
+
+  private async writeJson(file: string, value: unknown): Promise<void> {
+    // Write to a temporary file first so a crash never leaves a truncated file
+    const temporary = `${file}.tmp`;
+    await fs.writeFile(temporary, `${JSON.stringify(value, null, 2)}\n`);
+    await fs.rename(temporary, file);
+  }
+
+  private async exists(file: string): Promise<boolean> {
+    try {
+      await fs.access(file);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
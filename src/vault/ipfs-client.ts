@@ -0,0 +1,202 @@
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import axios from 'axios';
+import { defaultConfig } from '../config/default';
+import { parseCid, verifyBlock } from './content-integrity';
+import { IpfsConfig, IpfsGatewayConfig, PromptHubMCPError, ErrorCodes } from '../types';
+
+/**
+ * Content read by IpfsClient
+ */
+export interface IpfsContent {
+  content: Buffer;
+  source: string; // URL or cache file the content was read from
+}
+
+interface IpfsSource {
+  url: string;
+  fetch(): Promise<Buffer>;
+}
+
+/**
+ * Fetches IPFS content from a local node and an ordered list of gateways, failing over from
+ * sources that are unreachable, too slow, too large or serving content that fails its check.
+ * Accepted content is kept in an on-disk cache keyed by CID, since it can never change.
+ */
+export class IpfsClient {
+  private gateways: Array<{ url: string; timeout: number; maxFileSize: number }>;
+  private nodeApiUrl: string | undefined;
+  private timeout: number;
+  private maxFileSize: number;
+  private cacheDir: string | undefined;
+  private offline: boolean;
+
+  constructor(config: IpfsConfig = {}) {
+    this.timeout = config.timeout ?? defaultConfig.ipfs.timeout;
+    this.maxFileSize = config.maxFileSize ?? defaultConfig.ipfs.maxFileSize;
+    this.gateways = (config.gateways ?? defaultConfig.ipfs.gateways).map(gateway => {
+      const { url, timeout, maxFileSize }: IpfsGatewayConfig = typeof gateway === 'string' ? { url: gateway } : gateway;
+      return {
+        url: url.endsWith('/') ? url : `${url}/`,
+        timeout: timeout ?? this.timeout,
+        maxFileSize: maxFileSize ?? this.maxFileSize,
+      };
+    });
+    this.nodeApiUrl = (config.nodeApiUrl ?? defaultConfig.ipfs.nodeApiUrl)?.replace(/\/+$/, '');
+    this.cacheDir = config.cacheDir ?? defaultConfig.ipfs.cacheDir;
+    this.offline = config.offline ?? defaultConfig.ipfs.offline;
+
+    if (this.offline && !this.cacheDir) {
+      throw new PromptHubMCPError(ErrorCodes.VALIDATION_ERROR, 'IPFS cacheDir is required to work offline');
+    }
+  }
+
+  /**
+   * Fetch the raw block a CID addresses and return the file it holds, checked against the CID
+   */
+  async fetchBlock(cid: string): Promise<IpfsContent> {
+    if (!parseCid(cid)) {
+      throw new PromptHubMCPError(ErrorCodes.INTEGRITY_CHECK_FAILED, `Unsupported content identifier: ${cid}`);
+    }
+    return this.fetchContent(cid, true, block => verifyBlock(cid, block));
+  }
+
+  /**
+   * Fetch the file at an `ipfs://` URI, or at an HTTP(S) URL as is; `check` throws to reject content.
+   * Only paths rooted at a CID are cached.
+   */
+  async fetchFile(uri: string, check: (content: Buffer) => void): Promise<IpfsContent> {
+    const accept = (content: Buffer) => {
+      check(content);
+      return content;
+    };
+
+    if (/^https?:\/\//.test(uri)) {
+      if (this.offline) {
+        throw new PromptHubMCPError(ErrorCodes.NETWORK_ERROR, `Cannot fetch ${uri} while IPFS is offline`);
+      }
+      return { content: accept(await this.request(uri, this.timeout, this.maxFileSize)), source: uri };
+    }
+    return this.fetchContent(uri.replace(/^ipfs:\/\//, '').replace(/^\/?ipfs\//, ''), false, accept);
+  }
+
+  /**
+   * Read content from the cache or the first source whose response `accept` takes. When every source
+   * fails, the first rejected content's error is thrown, or NETWORK_ERROR listing each failure.
+   */
+  private async fetchContent(path: string, raw: boolean, accept: (bytes: Buffer) => Buffer): Promise<IpfsContent> {
+    const cacheFile = this.cacheFile(path, raw);
+    const cached = cacheFile && await this.readCache(cacheFile);
+    if (cacheFile && cached) {
+      try {
+        return { content: accept(cached), source: cacheFile };
+      } catch (error) {
+        console.warn(`Discarding IPFS cache entry ${cacheFile}:`, error);
+      }
+    }
+
+    if (this.offline) {
+      throw new PromptHubMCPError(ErrorCodes.NETWORK_ERROR, `${path} is not cached and IPFS is offline`);
+    }
+
+    const failures: Array<{ source: string; error: string }> = [];
+    let rejected: unknown;
+    for (const source of this.sources(path, raw)) {
+      let bytes: Buffer;
+      let content: Buffer;
+      try {
+        bytes = await source.fetch();
+      } catch (error) {
+        failures.push({ source: source.url, error: error instanceof Error ? error.message : String(error) });
+        continue;
+      }
+      try {
+        content = accept(bytes);
+      } catch (error) {
+        // A gateway serving altered content is skipped like an unreachable one
+        failures.push({ source: source.url, error: error instanceof Error ? error.message : String(error) });
+        rejected = rejected ?? error;
+        continue;
+      }
+
+      if (cacheFile) {
+        await this.writeCache(cacheFile, bytes);
+      }
+      return { content, source: source.url };
+    }
+
+    if (rejected) {
+      throw rejected;
+    }
+    throw new PromptHubMCPError(ErrorCodes.NETWORK_ERROR, `Failed to fetch from IPFS: ${path}`, failures);
+  }
+
+  /**
+   * The local node first, then the gateways in order
+   */
+  private sources(path: string, raw: boolean): IpfsSource[] {
+    const sources: IpfsSource[] = [];
+
+    if (this.nodeApiUrl) {
+      const url = `${this.nodeApiUrl}/api/v0/${raw ? 'block/get' : 'cat'}?arg=${encodeURIComponent(path)}`;
+      sources.push({ url, fetch: () => this.request(url, this.timeout, this.maxFileSize, 'post') });
+    }
+
+    for (const gateway of this.gateways) {
+      const url = `${gateway.url}${path}`;
+      sources.push({ url, fetch: () => this.request(url, gateway.timeout, gateway.maxFileSize, 'get', raw) });
+    }
+    return sources;
+  }
+
+  private async request(
+    url: string,
+    timeout: number,
+    maxFileSize: number,
+    method: 'get' | 'post' = 'get',
+    raw: boolean = false
+  ): Promise<Buffer> {
+    const config = {
+      timeout,
+      maxContentLength: maxFileSize,
+      responseType: 'arraybuffer' as const,
+      // Trustless gateways serve the block itself, so it can be checked against its CID
+      ...(raw ? { params: { format: 'raw' }, headers: { Accept: 'application/vnd.ipld.raw' } } : {}),
+    };
+    const response = method === 'post' ? await axios.post(url, undefined, config) : await axios.get(url, config);
+
+    const bytes = Buffer.from(response.data);
+    if (bytes.length > maxFileSize) {
+      throw new Error(`Response of ${bytes.length} bytes exceeds maxFileSize ${maxFileSize}`);
+    }
+    return bytes;
+  }
+
+  private cacheFile(path: string, raw: boolean): string | undefined {
+    // Only content addressed by a CID is immutable
+    if (!this.cacheDir || !parseCid(path.split('/')[0]!)) {
+      return undefined;
+    }
+    return raw ? join(this.cacheDir, 'blocks', path) : join(this.cacheDir, 'files', encodeURIComponent(path));
+  }
+
+  private async readCache(file: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(file);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async writeCache(file: string, bytes: Buffer): Promise<void> {
+    const temporary = `${file}.${process.pid}.tmp`;
+    try {
+      await fs.mkdir(join(file, '..'), { recursive: true });
+      await fs.writeFile(temporary, bytes);
+      await fs.rename(temporary, file);
+    } catch (error) {
+      // The content is still served; it is fetched again next time
+      console.warn(`Failed to cache IPFS content in ${file}:`, error);
+    }
+  }
+}
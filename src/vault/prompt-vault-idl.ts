@@ -0,0 +1,116 @@
+import { promises as fs } from 'node:fs';
+import * as anchor from '@coral-xyz/anchor';
+import { PublicKey } from '@solana/web3.js';
+import { PromptHubMCPError, ErrorCodes } from '../types';
+
+type IdlType = NonNullable<anchor.Idl['accounts']>[number]['type']['fields'][number]['type'];
+
+// PromptVault account holding one prompt or partial
+export const PROMPT_ACCOUNT = 'PromptData';
+
+// PromptData.status values
+export const PROMPT_STATUS_ACTIVE = 1;
+
+// PromptData.kind values
+export const PROMPT_KIND_PROMPT = 0;
+export const PROMPT_KIND_PARTIAL = 1;
+
+// Encoded sizes of fixed-size IDL types
+const FIXED_SIZES: Record<string, number> = {
+  bool: 1,
+  u8: 1,
+  i8: 1,
+  u16: 2,
+  i16: 2,
+  u32: 4,
+  i32: 4,
+  f32: 4,
+  u64: 8,
+  i64: 8,
+  f64: 8,
+  u128: 16,
+  i128: 16,
+  u256: 32,
+  i256: 32,
+  publicKey: 32,
+};
+
+/**
+ * Load the PromptVault IDL from a JSON file, or from the IDL account Anchor publishes on chain
+ */
+export async function loadPromptVaultIdl(
+  programId: PublicKey,
+  provider: anchor.Provider,
+  idlPath?: string | undefined
+): Promise<anchor.Idl> {
+  const idl = idlPath
+    ? await readIdlFile(idlPath)
+    : await anchor.Program.fetchIdl(programId, provider);
+
+  if (!idl) {
+    throw new PromptHubMCPError(
+      ErrorCodes.BLOCKCHAIN_ERROR,
+      `No IDL published for program ${programId.toBase58()}; set blockchain.idlPath`
+    );
+  }
+  if (!idl.accounts?.some(account => account.name === PROMPT_ACCOUNT)) {
+    throw new PromptHubMCPError(ErrorCodes.VALIDATION_ERROR, `PromptVault IDL has no ${PROMPT_ACCOUNT} account`);
+  }
+  return idl;
+}
+
+/**
+ * Byte offset of an account field, counting the 8-byte discriminator; undefined when a
+ * variable-size field comes before it, so it cannot be matched with a memcmp filter
+ */
+export function accountFieldOffset(idl: anchor.Idl, accountName: string, fieldName: string): number | undefined {
+  const account = idl.accounts?.find(candidate => candidate.name === accountName);
+  let offset = 8;
+
+  for (const field of account?.type.fields || []) {
+    if (field.name === fieldName) {
+      return offset;
+    }
+    const size = fixedSize(idl, field.type);
+    if (size === undefined) {
+      return undefined;
+    }
+    offset += size;
+  }
+  return undefined;
+}
+
+function fixedSize(idl: anchor.Idl, type: IdlType): number | undefined {
+  if (typeof type === 'string') {
+    return FIXED_SIZES[type];
+  }
+  if ('array' in type) {
+    const element = fixedSize(idl, type.array[0]);
+    return element === undefined ? undefined : element * type.array[1];
+  }
+  if ('defined' in type) {
+    const definition = idl.types?.find(candidate => candidate.name === type.defined);
+    if (definition?.type.kind !== 'struct') {
+      return undefined;
+    }
+    let size = 0;
+    for (const field of definition.type.fields) {
+      const fieldSize = fixedSize(idl, field.type);
+      if (fieldSize === undefined) {
+        return undefined;
+      }
+      size += fieldSize;
+    }
+    return size;
+  }
+  // Options, vectors, strings and bytes vary in length
+  return undefined;
+}
+
+async function readIdlFile(path: string): Promise<anchor.Idl> {
+  try {
+    return JSON.parse(await fs.readFile(path, 'utf8'));
+  } catch (error) {
+    throw new PromptHubMCPError(ErrorCodes.VALIDATION_ERROR, `Failed to read PromptVault IDL: ${path}`, error);
+  }
+}
@@ -0,0 +1,113 @@
+import { TokenGateVerifier } from '../auth/token-gate';
+import { PromptVaultClient } from '../core/vault-client';
+import { FilesystemVaultBackend } from './filesystem-backend';
+import {
+  PromptDefinition,
+  PromptPartial,
+  PromptMetadata,
+  ContentVerification,
+  BlockchainConfig,
+  IpfsConfig,
+  PromptHubMCPError,
+  ErrorCodes,
+} from '../types';
+
+/**
+ * Filters accepted by VaultBackend.listPrompts
+ */
+export interface PromptListFilters {
+  author?: string | undefined;
+  tags?: string[] | undefined;
+  limit?: number | undefined;
+  offset?: number | undefined;
+}
+
+/**
+ * A prompt version resolved by VaultBackend.getPrompt
+ */
+export interface VaultPrompt {
+  definition: PromptDefinition;
+  metadata: PromptMetadata; // `version` is the resolved version
+  contentHash: string; // Hash of the resolved version's definition
+  verification?: ContentVerification | undefined; // Set by backends that check fetched content against contentHash
+}
+
+/**
+ * Vault statistics returned by VaultBackend.getVaultMetadata
+ */
+export interface VaultMetadata {
+  backend: VaultBackendType;
+  totalPrompts: number;
+  totalExecutions: number;
+  totalAuthors: number;
+  networkInfo?: {
+    network: string;
+    programId: string;
+    rpcUrl: string;
+  };
+  path?: string; // Prompt directory of the filesystem backend
+}
+
+/**
+ * Storage of prompts, partials and execution records used by the router and the MCP server
+ */
+export interface VaultBackend {
+  // `version` is an exact version, a range such as `^1.2` or a tag such as `stable` (see resolveVersion)
+  getPrompt(promptId: string, version?: string): Promise<VaultPrompt | null>;
+  getPartial(partialId: string, version?: string): Promise<PromptPartial | null>;
+  listPrompts(filters?: PromptListFilters): Promise<PromptMetadata[]>;
+  registerPrompt(definition: PromptDefinition, metadata: Partial<PromptMetadata>): Promise<string>;
+  recordExecution(
+    promptId: string,
+    executionId: string,
+    inputHash: string,
+    outputHash: string,
+    success: boolean,
+    executionTime: number
+  ): Promise<string>;
+  getVaultMetadata(): Promise<VaultMetadata>;
+  onPromptsChanged(listener: () => void): () => void; // Returns an unsubscribe function
+  initialize?(): Promise<void>;
+  getTokenGateVerifier?(): TokenGateVerifier; // Backends without one cannot serve token- or NFT-gated prompts
+}
+
+export type VaultBackendType = 'solana' | 'filesystem';
+
+/**
+ * Selects and configures the vault backend
+ */
+export interface VaultBackendConfig {
+  backend?: VaultBackendType | undefined; // Defaults to 'solana'
+  path?: string | undefined; // Prompt directory; required by the 'filesystem' backend
+}
+
+/**
+ * Create and initialize the vault backend selected in configuration
+ */
+export async function createVaultBackend(
+  config: VaultBackendConfig = {},
+  blockchain?: BlockchainConfig | undefined,
+  ipfs?: IpfsConfig | undefined
+): Promise<VaultBackend> {
+  const backend = config.backend || 'solana';
+
+  if (backend === 'filesystem') {
+    if (!config.path) {
+      throw new PromptHubMCPError(ErrorCodes.VALIDATION_ERROR, "The 'filesystem' vault backend requires a path");
+    }
+    const vault = new FilesystemVaultBackend(config.path);
+    await vault.initialize();
+    return vault;
+  }
+
+  if (backend === 'solana') {
+    if (!blockchain) {
+      throw new PromptHubMCPError(ErrorCodes.VALIDATION_ERROR, "The 'solana' vault backend requires a blockchain configuration");
+    }
+    const vault = new PromptVaultClient(blockchain, undefined, ipfs);
+    await vault.initialize(blockchain.keypairPath);
+    return vault;
+  }
+
+  throw new PromptHubMCPError(ErrorCodes.VALIDATION_ERROR, `Unknown vault backend: ${backend}`);
+}
@@ -0,0 +1,54 @@
+import { abortable, abortError, createExecutionSignal, delay } from '../src/utils/abort';
+import { PromptHubMCPError, ErrorCodes } from '../src/types';
+
+describe('abort utilities', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should abort with EXECUTION_TIMEOUT once the timeout elapses', () => {
+    const execution = createExecutionSignal(undefined, 1000);
+
+    jest.advanceTimersByTime(999);
+    expect(execution.signal.aborted).toBe(false);
+    jest.advanceTimersByTime(1);
+
+    expect(abortError(execution.signal)).toMatchObject({ code: ErrorCodes.EXECUTION_TIMEOUT });
+  });
+
+  it('should follow the parent signal and keep its reason', () => {
+    const parent = new AbortController();
+    const execution = createExecutionSignal(parent.signal, 1000);
+    const reason = new PromptHubMCPError(ErrorCodes.EXECUTION_CANCELLED, 'Cancelled by client');
+
+    parent.abort(reason);
+
+    expect(execution.signal.aborted).toBe(true);
+    expect(abortError(execution.signal)).toBe(reason);
+  });
+
+  it('should not time out after being disposed', () => {
+    const execution = createExecutionSignal(undefined, 1000);
+
+    execution.dispose();
+    jest.advanceTimersByTime(1000);
+
+    expect(execution.signal.aborted).toBe(false);
+  });
+
+  it('should reject pending work and delays when the signal aborts', async () => {
+    const controller = new AbortController();
+    const work = abortable(new Promise(() => undefined), controller.signal);
+    const wait = delay(5000, controller.signal);
+
+    controller.abort();
+
+    await expect(work).rejects.toMatchObject({ code: ErrorCodes.EXECUTION_CANCELLED });
+    await expect(wait).rejects.toMatchObject({ code: ErrorCodes.EXECUTION_CANCELLED });
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
@@ -0,0 +1,132 @@
+import { generateKeyPairSync, sign } from 'node:crypto';
+import { PublicKey } from '@solana/web3.js';
+import {
+  ApiKeyIdentityProvider,
+  CallerIdentityResolver,
+  HmacTokenIdentityProvider,
+  SolanaSignatureIdentityProvider,
+  createCallerIdentityResolver,
+  credentialsFromHeaders,
+} from '../src/auth/caller-identity';
+
+// Real key handling is needed to verify wallet signatures
+jest.unmock('@solana/web3.js');
+
+describe('caller identity', () => {
+  describe('ApiKeyIdentityProvider', () => {
+    const provider = new ApiKeyIdentityProvider({ 'key-1': 'alice' });
+
+    it('should resolve known keys and reject unknown ones', async () => {
+      await expect(provider.authenticate({ apiKey: 'key-1' })).resolves.toBe('alice');
+      await expect(provider.authenticate({ apiKey: 'key-2' })).rejects.toMatchObject({ code: 'ACCESS_DENIED' });
+      await expect(provider.authenticate({ token: 'abc' })).resolves.toBeNull();
+    });
+  });
+
+  describe('HmacTokenIdentityProvider', () => {
+    const provider = new HmacTokenIdentityProvider('secret');
+
+    it('should accept issued tokens', async () => {
+      await expect(provider.authenticate({ token: provider.issueToken('bob') })).resolves.toBe('bob');
+    });
+
+    it('should reject tampered, foreign and expired tokens', async () => {
+      const [payload, signature] = provider.issueToken('bob').split('.');
+      const forged = Buffer.from(JSON.stringify({ sub: 'admin', exp: Date.now() + 1000 })).toString('base64url');
+
+      await expect(provider.authenticate({ token: `${forged}.${signature}` })).rejects.toThrow('Invalid token signature');
+      await expect(
+        provider.authenticate({ token: new HmacTokenIdentityProvider('other').issueToken('bob') })
+      ).rejects.toThrow('Invalid token signature');
+      await expect(provider.authenticate({ token: `${payload}.${signature}.x` })).rejects.toThrow('Invalid token signature');
+      await expect(provider.authenticate({ token: provider.issueToken('bob', -1) })).rejects.toThrow('Token expired');
+    });
+  });
+
+  describe('SolanaSignatureIdentityProvider', () => {
+    const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+    const wallet = new PublicKey(Buffer.from(publicKey.export({ format: 'jwk' }).x!, 'base64url')).toBase58();
+
+    const signChallenge = (message: string) => sign(null, Buffer.from(message), privateKey).toString('base64');
+
+    it('should resolve the wallet address for a valid signature over a single-use nonce', async () => {
+      const provider = new SolanaSignatureIdentityProvider();
+      const { nonce, message } = provider.createChallenge();
+      const credentials = { wallet: { publicKey: wallet, signature: signChallenge(message), nonce } };
+
+      await expect(provider.authenticate(credentials)).resolves.toBe(wallet);
+      await expect(provider.authenticate(credentials)).rejects.toThrow('Unknown or expired challenge nonce');
+    });
+
+    it('should reject signatures by another key or over another message', async () => {
+      const provider = new SolanaSignatureIdentityProvider();
+      const other = new PublicKey(Buffer.alloc(32, 7)).toBase58();
+
+      const first = provider.createChallenge();
+      await expect(
+        provider.authenticate({ wallet: { publicKey: other, signature: signChallenge(first.message), nonce: first.nonce } })
+      ).rejects.toThrow('Invalid wallet signature');
+
+      const second = provider.createChallenge();
+      await expect(
+        provider.authenticate({ wallet: { publicKey: wallet, signature: signChallenge('hello'), nonce: second.nonce } })
+      ).rejects.toThrow('Invalid wallet signature');
+    });
+
+    it('should reject expired challenges', async () => {
+      const provider = new SolanaSignatureIdentityProvider(-1);
+      const { nonce, message } = provider.createChallenge();
+
+      await expect(
+        provider.authenticate({ wallet: { publicKey: wallet, signature: signChallenge(message), nonce } })
+      ).rejects.toThrow('Unknown or expired challenge nonce');
+    });
+  });
+
+  describe('CallerIdentityResolver', () => {
+    it('should require credentials unless an anonymous caller is configured', async () => {
+      await expect(new CallerIdentityResolver([]).resolve({})).rejects.toMatchObject({
+        code: 'ACCESS_DENIED',
+        message: 'Authentication required',
+      });
+      await expect(new CallerIdentityResolver([], { anonymousCaller: 'guest' }).resolve({})).resolves.toBe('guest');
+    });
+
+    it('should use the provider matching the presented credentials', async () => {
+      const resolver = createCallerIdentityResolver({ apiKeys: { 'key-1': 'alice' }, hmacSecret: 'secret' });
+      const token = resolver.getProvider(HmacTokenIdentityProvider)!.issueToken('bob');
+
+      await expect(resolver.resolve({ apiKey: 'key-1' })).resolves.toBe('alice');
+      await expect(resolver.resolve({ token })).resolves.toBe('bob');
+      expect(resolver.getProvider(SolanaSignatureIdentityProvider)).toBeUndefined();
+    });
+
+    it('should reject credentials no provider handles', async () => {
+      const resolver = createCallerIdentityResolver({ apiKeys: { 'key-1': 'alice' } });
+      await expect(resolver.resolve({ token: 'abc.def' })).rejects.toThrow('Unsupported credentials');
+    });
+  });
+
+  describe('credentialsFromHeaders', () => {
+    it('should read API keys, bearer tokens and wallet signatures', () => {
+      expect(
+        credentialsFromHeaders({
+          'x-api-key': 'key-1',
+          authorization: 'Bearer abc.def',
+          'x-prompthub-wallet': 'wallet',
+          'x-prompthub-signature': 'sig',
+          'x-prompthub-nonce': 'nonce',
+        })
+      ).toEqual({
+        apiKey: 'key-1',
+        token: 'abc.def',
+        wallet: { publicKey: 'wallet', signature: 'sig', nonce: 'nonce' },
+      });
+      expect(credentialsFromHeaders({ authorization: 'Basic xyz' })).toEqual({
+        apiKey: undefined,
+        token: undefined,
+        wallet: undefined,
+      });
+    });
+  });
+});
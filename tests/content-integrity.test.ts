@@ -0,0 +1,76 @@
+import { createHash } from 'node:crypto';
+import {
+  canonicalHash,
+  canonicalJson,
+  isSha256Digest,
+  parseCid,
+  verifyBlock,
+  verifyCanonicalHash,
+} from '../src/vault/content-integrity';
+
+/**
+ * dag-pb block of a single-block UnixFS file, as `ipfs add` writes it
+ */
+function unixfsBlock(content: Buffer): Buffer {
+  const data = Buffer.concat([Buffer.from([0x08, 0x02, 0x12, content.length]), content, Buffer.from([0x18, content.length])]);
+  return Buffer.concat([Buffer.from([0x0a, data.length]), data]);
+}
+
+describe('content integrity', () => {
+  it('should serialize JSON with sorted keys', () => {
+    expect(canonicalJson({ b: [1, { d: true, c: null }], a: 'x', skipped: undefined })).toBe('{"a":"x","b":[1,{"c":null,"d":true}]}');
+    expect(canonicalHash({ b: 1, a: 2 })).toBe(canonicalHash({ a: 2, b: 1 }));
+    expect(isSha256Digest(canonicalHash({}))).toBe(true);
+  });
+
+  it('should parse CIDv0 and CIDv1 with sha2-256 multihashes', () => {
+    expect(parseCid('QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o')).toMatchObject({ version: 0, codec: 0x70 });
+    expect(parseCid('bafkreiag7kl24pb6x3xap65xrnohirgwx2z5j44b7r45pbjqvgzwubesk4')).toMatchObject({ version: 1, codec: 0x55 });
+    expect(parseCid('QmSummarizer120')).toBeNull();
+    expect(parseCid('not-a-cid')).toBeNull();
+  });
+
+  it('should return the file held by a block that matches its CID', () => {
+    // `echo "hello world" | ipfs add`
+    const block = unixfsBlock(Buffer.from('hello world\n'));
+    expect(verifyBlock('QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o', block).toString()).toBe('hello world\n');
+
+    const tampered = unixfsBlock(Buffer.from('hello there\n'));
+    expect(() => verifyBlock('QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o', tampered)).toThrow(
+      expect.objectContaining({ code: 'INTEGRITY_CHECK_FAILED' })
+    );
+  });
+
+  it('should reject blocks linking to further chunks', () => {
+    const link = Buffer.from([0x12, 0x02, 0x0a, 0x00]);
+    const block = Buffer.concat([link, unixfsBlock(Buffer.from('part'))]);
+    const digest = createHash('sha256').update(block).digest();
+    const cid = `b${base32(Buffer.concat([Buffer.from([0x01, 0x70, 0x12, 0x20]), digest]))}`;
+
+    expect(() => verifyBlock(cid, block)).toThrow(/several blocks/);
+  });
+
+  it('should compare definitions with their canonical hash', () => {
+    const definition = { id: 'greet', template: 'Hello' };
+    expect(() => verifyCanonicalHash(canonicalHash({ template: 'Hello', id: 'greet' }), definition)).not.toThrow();
+    expect(() => verifyCanonicalHash(canonicalHash(definition), { ...definition, template: 'Bye' })).toThrow(
+      expect.objectContaining({ code: 'INTEGRITY_CHECK_FAILED' })
+    );
+  });
+});
+
+function base32(bytes: Buffer): string {
+  const alphabet = 'abcdefghijklmnopqrstuvwxyz234567';
+  let output = '';
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = ((buffer << 8) | byte) & 0xfff;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      output += alphabet[(buffer >> bits) & 31];
+    }
+  }
+  return bits ? output + alphabet[(buffer << (5 - bits)) & 31] : output;
+}
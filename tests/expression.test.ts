@@ -0,0 +1,32 @@
+import { compileExpression, evaluateExpression } from '../src/utils/expression';
+
+describe('expression', () => {
+  const scope = {
+    classify: { label: 'spam', score: 0.92, tags: ['a', 'b'] },
+    input: { threshold: 0.5, strict: false },
+  };
+
+  it('should compare paths with literals', () => {
+    expect(evaluateExpression("classify.label == 'spam'", scope)).toBe(true);
+    expect(evaluateExpression('classify.score >= input.threshold', scope)).toBe(true);
+    expect(evaluateExpression("classify.tags[1] != \"b\"", scope)).toBe(false);
+    expect(evaluateExpression('classify.missing == null', scope)).toBe(false);
+  });
+
+  it('should combine with logical operators and parentheses', () => {
+    expect(evaluateExpression("!input.strict && (classify.score > 0.9 || classify.label == 'ham')", scope)).toBe(true);
+    expect(evaluateExpression("classify.reason || 'none'", scope)).toBe('none');
+    expect(evaluateExpression('classify.tags', scope)).toEqual(['a', 'b']);
+  });
+
+  it('should not resolve inherited properties', () => {
+    expect(evaluateExpression('classify.constructor', scope)).toBeUndefined();
+  });
+
+  it.each(['classify.label ==', "classify.label = 'spam'", '(true', 'process.exit()', '1 + 1'])(
+    'should reject %s',
+    source => {
+      expect(() => compileExpression(source)).toThrow(expect.objectContaining({ code: 'VALIDATION_ERROR' }));
+    }
+  );
+});
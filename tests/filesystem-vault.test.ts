@@ -0,0 +1,167 @@
+import { createHash } from 'node:crypto';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FilesystemVaultBackend } from '../src/vault/filesystem-backend';
+import { createVaultBackend } from '../src/vault/vault-backend';
+import { PromptRouter } from '../src/core/prompt-router';
+import { PromptDefinition } from '../src/types';
+
+function definition(id: string, version: string, overrides: Partial<PromptDefinition> = {}): PromptDefinition {
+  return {
+    id,
+    name: `Prompt ${id}`,
+    description: 'A test prompt',
+    version,
+    author: 'alice',
+    license: 'MIT',
+    inputs: { text: { type: 'string', required: true } },
+    template: 'Summarize: {{text}}',
+    output_schema: { type: 'string' },
+    tags: ['text'],
+    ...overrides,
+  };
+}
+
+describe('FilesystemVaultBackend', () => {
+  let directory: string;
+  let vault: FilesystemVaultBackend;
+
+  const write = (path: string, value: unknown) => {
+    mkdirSync(join(directory, path, '..'), { recursive: true });
+    writeFileSync(join(directory, path), JSON.stringify(value));
+  };
+
+  beforeEach(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'prompthub-vault-'));
+    vault = new FilesystemVaultBackend(directory);
+    await vault.initialize();
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should load the highest version unless one is requested', async () => {
+    write('summarize/1.2.0/prompt.json', definition('summarize', '1.2.0'));
+    write('summarize/1.10.0/prompt.json', definition('summarize', '1.10.0'));
+    write('summarize/2.0.0-beta.1/prompt.json', definition('summarize', '2.0.0-beta.1'));
+    write('summarize/2.0.0-beta.1/metadata.json', { accessPolicy: { type: 'private' } });
+
+    await expect(vault.getPrompt('summarize')).resolves.toMatchObject({
+      definition: { version: '2.0.0-beta.1' },
+      metadata: { id: 'summarize', version: '2.0.0-beta.1', author: 'alice', accessPolicy: { type: 'private' } },
+    });
+    await expect(vault.getPrompt('summarize', '1.2.0')).resolves.toMatchObject({
+      metadata: { version: '1.2.0', accessPolicy: { type: 'public' } },
+    });
+    await expect(vault.getPrompt('summarize', '3.0.0')).resolves.toBeNull();
+    await expect(vault.getPrompt('missing')).resolves.toBeNull();
+  });
+
+  it('should resolve ranges and tags and return the content hash', async () => {
+    write('summarize/1.2.0/prompt.json', definition('summarize', '1.2.0'));
+    write('summarize/1.10.0/prompt.json', definition('summarize', '1.10.0'));
+    write('summarize/2.0.0-beta.1/prompt.json', definition('summarize', '2.0.0-beta.1'));
+    write('summarize/tags.json', { stable: '1.2.0' });
+
+    await expect(vault.getPrompt('summarize', '^1.2')).resolves.toMatchObject({ metadata: { version: '1.10.0' } });
+    await expect(vault.getPrompt('summarize', 'stable')).resolves.toMatchObject({ metadata: { version: '1.2.0' } });
+    await expect(vault.getPrompt('summarize', 'beta')).resolves.toMatchObject({ metadata: { version: '2.0.0-beta.1' } });
+    await expect(vault.getPrompt('summarize', '1.2.0')).resolves.toMatchObject({
+      contentHash: createHash('sha256').update(JSON.stringify(definition('summarize', '1.2.0'))).digest('hex'),
+    });
+  });
+
+  it('should reject definitions that do not match their location and IDs outside the vault', async () => {
+    write('summarize/1.0.0/prompt.json', definition('summarize', '1.1.0'));
+
+    await expect(vault.getPrompt('summarize')).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    await expect(vault.getPrompt('../summarize')).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    await expect(vault.getPartial('_partials')).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+  });
+
+  it('should list and filter the latest version of each prompt, skipping broken ones', async () => {
+    write('summarize/1.0.0/prompt.json', definition('summarize', '1.0.0'));
+    write('summarize/1.1.0/prompt.json', definition('summarize', '1.1.0'));
+    write('translate/1.0.0/prompt.json', definition('translate', '1.0.0', { author: 'bob', tags: ['text', 'i18n'] }));
+    write('broken/1.0.0/prompt.json', { id: 'broken' });
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const prompts = await vault.listPrompts();
+    expect(prompts.map(prompt => `${prompt.id}@${prompt.version}`)).toEqual(['summarize@1.1.0', 'translate@1.0.0']);
+    expect(warn).toHaveBeenCalledTimes(1);
+
+    await expect(vault.listPrompts({ author: 'bob' })).resolves.toMatchObject([{ id: 'translate' }]);
+    await expect(vault.listPrompts({ tags: ['text', 'i18n'] })).resolves.toMatchObject([{ id: 'translate' }]);
+    await expect(vault.listPrompts({ offset: 1, limit: 1 })).resolves.toMatchObject([{ id: 'translate' }]);
+    warn.mockRestore();
+  });
+
+  it('should register new versions, refuse to overwrite them and notify listeners', async () => {
+    const listener = jest.fn();
+    vault.onPromptsChanged(listener);
+
+    await expect(vault.registerPrompt(definition('summarize', '1.0.0'), { tags: ['custom'] })).resolves.toBe('summarize');
+    await expect(vault.getPrompt('summarize')).resolves.toMatchObject({ metadata: { tags: ['custom'] } });
+    await expect(vault.registerPrompt(definition('summarize', '1.0.0'), {})).rejects.toMatchObject({
+      code: 'VALIDATION_ERROR',
+    });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should record executions and count them in the metadata', async () => {
+    write('summarize/1.0.0/prompt.json', definition('summarize', '1.0.0'));
+
+    await Promise.all([
+      vault.recordExecution('summarize', 'exec-1', 'in', 'out', true, 10),
+      vault.recordExecution('summarize', 'exec-2', 'in', 'out', true, 12),
+    ]);
+
+    await expect(vault.getPrompt('summarize')).resolves.toMatchObject({ metadata: { executionCount: 2 } });
+    await expect(vault.getVaultMetadata()).resolves.toEqual({
+      backend: 'filesystem',
+      totalPrompts: 1,
+      totalExecutions: 2,
+      totalAuthors: 1,
+      path: directory,
+    });
+  });
+
+  it('should serve prompts and partials to the router', async () => {
+    write('greet/1.0.0/prompt.json', definition('greet', '1.0.0', { template: 'Hello {{text}} {{> signature}}' }));
+    write('_partials/signature/1.0.0/partial.json', { id: 'signature', version: '1.0.0', template: '-- {{text}}' });
+
+    const router = new PromptRouter(await createVaultBackend({ backend: 'filesystem', path: directory }));
+    const module = await router.getPromptModule('greet');
+
+    expect(module.getMetadata()).toMatchObject({ id: 'greet', version: '1.0.0' });
+    expect(router.getTemplateEngine().resolvePartial('signature')).toMatchObject({ version: '1.0.0' });
+  });
+
+  it('should render partials pinned to a range', async () => {
+    write('greet/1.0.0/prompt.json', definition('greet', '1.0.0', { template: 'Hello {{> sig@^1.0.0}}' }));
+    write('_partials/sig/1.2.0/partial.json', { id: 'sig', version: '1.2.0', template: '-- {{text}}' });
+    write('_partials/sig/2.0.0/partial.json', { id: 'sig', version: '2.0.0', template: '== {{text}}' });
+
+    const router = new PromptRouter(vault);
+    const module = await router.getPromptModule('greet');
+
+    expect(module.renderPrompt({ text: 'Ada' })).toBe('Hello -- Ada');
+  });
+
+  it('should reload partials from the vault when the module cache is cleared', async () => {
+    write('greet/1.0.0/prompt.json', definition('greet', '1.0.0', { template: 'Hello {{> sig}}' }));
+    write('_partials/sig/1.0.0/partial.json', { id: 'sig', version: '1.0.0', template: '-- {{text}}' });
+    const router = new PromptRouter(vault);
+    router.getTemplateEngine().registerPartial('local', 'kept');
+
+    expect((await router.getPromptModule('greet')).renderPrompt({ text: 'Ada' })).toBe('Hello -- Ada');
+    write('_partials/sig/1.1.0/partial.json', { id: 'sig', version: '1.1.0', template: '== {{text}}' });
+    router.clearModuleCache();
+
+    expect(router.getTemplateEngine().hasPartial('sig')).toBe(false);
+    expect(router.getTemplateEngine().hasPartial('local')).toBe(true);
+    expect((await router.getPromptModule('greet')).renderPrompt({ text: 'Ada' })).toBe('Hello == Ada');
+  });
+});
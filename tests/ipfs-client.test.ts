@@ -0,0 +1,111 @@
+import { createHash } from 'node:crypto';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import axios from 'axios';
+import { IpfsClient } from '../src/vault/ipfs-client';
+
+const DEFINITION = Buffer.from(JSON.stringify({ id: 'greet', template: 'Hello' }));
+
+/**
+ * CIDv1 of a raw block
+ */
+function rawCid(block: Buffer): string {
+  const bytes = Buffer.concat([Buffer.from([0x01, 0x55, 0x12, 0x20]), createHash('sha256').update(block).digest()]);
+  const alphabet = 'abcdefghijklmnopqrstuvwxyz234567';
+  let cid = 'b';
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = ((buffer << 8) | byte) & 0xfff;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      cid += alphabet[(buffer >> bits) & 31];
+    }
+  }
+  return bits ? cid + alphabet[(buffer << (5 - bits)) & 31] : cid;
+}
+
+describe('IpfsClient', () => {
+  const cid = rawCid(DEFINITION);
+  let cacheDir: string;
+
+  beforeEach(() => {
+    cacheDir = mkdtempSync(join(tmpdir(), 'prompthub-ipfs-'));
+  });
+
+  afterEach(() => {
+    rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should fail over from unreachable, oversized and tampering gateways', async () => {
+    jest.mocked(axios.get).mockImplementation(async (url: string) => {
+      if (url.startsWith('https://down.example')) {
+        throw new Error('timeout of 500ms exceeded');
+      }
+      if (url.startsWith('https://big.example')) {
+        return { data: Buffer.alloc(2048) };
+      }
+      return { data: url.startsWith('https://evil.example') ? Buffer.from('{"id":"greet","template":"Pwned"}') : DEFINITION };
+    });
+    const client = new IpfsClient({
+      gateways: [
+        { url: 'https://down.example/ipfs', timeout: 500 },
+        { url: 'https://big.example/ipfs/', maxFileSize: 1024 },
+        'https://evil.example/ipfs/',
+        'https://good.example/ipfs/',
+      ],
+    });
+
+    await expect(client.fetchBlock(cid)).resolves.toEqual({ content: DEFINITION, source: `https://good.example/ipfs/${cid}` });
+    expect(axios.get).toHaveBeenCalledTimes(4);
+    expect(axios.get).toHaveBeenNthCalledWith(1, `https://down.example/ipfs/${cid}`, expect.objectContaining({
+      timeout: 500,
+      params: { format: 'raw' },
+    }));
+  });
+
+  it('should report altered content when no gateway serves the original', async () => {
+    jest.mocked(axios.get).mockResolvedValue({ data: Buffer.from('{"id":"greet","template":"Pwned"}') });
+    const client = new IpfsClient({ gateways: ['https://evil.example/ipfs/'] });
+
+    await expect(client.fetchBlock(cid)).rejects.toMatchObject({ code: 'INTEGRITY_CHECK_FAILED' });
+
+    jest.mocked(axios.get).mockRejectedValue(new Error('getaddrinfo ENOTFOUND'));
+    await expect(client.fetchBlock(cid)).rejects.toMatchObject({
+      code: 'NETWORK_ERROR',
+      details: [{ source: `https://evil.example/ipfs/${cid}`, error: 'getaddrinfo ENOTFOUND' }],
+    });
+  });
+
+  it('should ask the local node before the gateways', async () => {
+    jest.mocked(axios.post).mockResolvedValue({ data: DEFINITION });
+    const client = new IpfsClient({ nodeApiUrl: 'http://127.0.0.1:5001/', gateways: ['https://ipfs.io/ipfs/'] });
+
+    await expect(client.fetchBlock(cid)).resolves.toMatchObject({
+      source: `http://127.0.0.1:5001/api/v0/block/get?arg=${cid}`,
+    });
+    expect(axios.get).not.toHaveBeenCalled();
+  });
+
+  it('should fetch content once and serve it from the cache offline', async () => {
+    jest.mocked(axios.get).mockResolvedValue({ data: DEFINITION });
+    const check = jest.fn();
+    const online = new IpfsClient({ gateways: ['https://ipfs.io/ipfs/'], cacheDir });
+
+    await online.fetchBlock(cid);
+    await expect(online.fetchBlock(cid)).resolves.toEqual({ content: DEFINITION, source: join(cacheDir, 'blocks', cid) });
+    await online.fetchFile(`ipfs://${cid}/prompt.json`, check);
+    await online.fetchFile(`ipfs://${cid}/prompt.json`, check);
+    expect(axios.get).toHaveBeenCalledTimes(2);
+    expect(check).toHaveBeenCalledTimes(2);
+
+    const offline = new IpfsClient({ cacheDir, offline: true });
+    await expect(offline.fetchBlock(cid)).resolves.toMatchObject({ content: DEFINITION });
+    await expect(offline.fetchFile(`ipfs://${cid}/prompt.json`, check)).resolves.toMatchObject({ content: DEFINITION });
+    await expect(offline.fetchBlock(rawCid(Buffer.from('other')))).rejects.toMatchObject({ code: 'NETWORK_ERROR' });
+    expect(axios.get).toHaveBeenCalledTimes(2);
+    expect(() => new IpfsClient({ offline: true })).toThrow(expect.objectContaining({ code: 'VALIDATION_ERROR' }));
+  });
+});
@@ -0,0 +1,76 @@
+import { inputParametersToJsonSchema, parseJsonResponse, validateJsonSchema } from '../src/utils/json-schema';
+
+describe('json-schema', () => {
+  describe('inputParametersToJsonSchema', () => {
+    it('should convert nested inputs with enums, limits and required properties', () => {
+      const schema = inputParametersToJsonSchema({
+        query: { type: 'string', required: true, description: 'Search text', minLength: 3 },
+        limit: { type: 'number', required: false, default: 10, enum: [10, 50] },
+        filters: {
+          type: 'array',
+          required: false,
+          maxItems: 5,
+          items: {
+            type: 'object',
+            required: false,
+            properties: {
+              field: { type: 'string', required: true, pattern: '^[a-z]+$' },
+              negate: { type: 'boolean', required: false },
+            },
+          },
+        },
+      });
+
+      expect(schema).toEqual({
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Search text', minLength: 3 },
+          limit: { type: 'number', default: 10, enum: [10, 50] },
+          filters: {
+            type: 'array',
+            maxItems: 5,
+            items: {
+              type: 'object',
+              properties: {
+                field: { type: 'string', pattern: '^[a-z]+$' },
+                negate: { type: 'boolean' },
+              },
+              required: ['field'],
+            },
+          },
+        },
+        required: ['query'],
+      });
+    });
+  });
+
+  describe('validateJsonSchema', () => {
+    it('should report violations by JSON pointer', () => {
+      const errors = validateJsonSchema(
+        { items: [{ name: 'a' }, { name: 2 }], 'a/b': 1 },
+        {
+          type: 'object',
+          properties: {
+            items: { type: 'array', items: { type: 'object', properties: { name: { type: 'string' } } } },
+            'a/b': { type: 'string' },
+          },
+          required: ['total'],
+        }
+      );
+
+      expect(errors).toEqual([
+        '/total: required property is missing',
+        '/items/1/name: expected string but got integer',
+        '/a~1b: expected string but got integer',
+      ]);
+    });
+  });
+
+  describe('parseJsonResponse', () => {
+    it('should parse fenced and surrounded JSON', () => {
+      expect(parseJsonResponse('```json\n{"a": 1}\n```')).toEqual({ value: { a: 1 } });
+      expect(parseJsonResponse('Here you go: [1, 2] done')).toEqual({ value: [1, 2] });
+      expect(parseJsonResponse('no json here').error).toBeDefined();
+    });
+  });
+});
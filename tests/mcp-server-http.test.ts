@@ -0,0 +1,196 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { LATEST_PROTOCOL_VERSION } from '@modelcontextprotocol/sdk/types.js';
+import { PromptHubMCPServer, StartOptions } from '../src/core/mcp-server';
+import { PromptRouter } from '../src/core/prompt-router';
+import { FilesystemVaultBackend } from '../src/vault/filesystem-backend';
+import { SESSION_ID_HEADER } from '../src/transports/streamable-http';
+import { delay } from '../src/utils/abort';
+
+const initializeRequest = (id: number) => ({
+  jsonrpc: '2.0',
+  id,
+  method: 'initialize',
+  params: {
+    protocolVersion: LATEST_PROTOCOL_VERSION,
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' },
+  },
+});
+
+const executeRequest = (id: number) => ({
+  jsonrpc: '2.0',
+  id,
+  method: 'tools/call',
+  params: { name: 'execute_prompt', arguments: { promptId: 'summarize', inputs: { text: 'hi' } } },
+});
+
+/**
+ * Server-sent events of a response body as they arrive
+ */
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<{ event: string; data: string }> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let end: number;
+    while ((end = buffer.indexOf('\n\n')) >= 0) {
+      const block = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      yield { event: /^event: (.*)$/m.exec(block)?.[1] || 'message', data: /^data: (.*)$/m.exec(block)?.[1] || '' };
+    }
+  }
+}
+
+describe('PromptHubMCPServer over HTTP', () => {
+  let directory: string;
+  let vault: FilesystemVaultBackend;
+  let router: PromptRouter;
+  let server: PromptHubMCPServer;
+  let baseUrl: string;
+
+  const post = (path: string, body: unknown, sessionId?: string) =>
+    fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(sessionId ? { [SESSION_ID_HEADER]: sessionId } : {}) },
+      body: JSON.stringify(body),
+    });
+
+  // Replace the server started by beforeEach with one started with other options
+  const restart = async (options: StartOptions) => {
+    await server.stop();
+    server = new PromptHubMCPServer('prompthub-test', '1.0.0', vault, router);
+    await server.start({ transport: 'http', host: '127.0.0.1', port: 0, ...options });
+    baseUrl = `http://127.0.0.1:${server.getHttpAddress()!.port}`;
+  };
+
+  const openSession = async (): Promise<string> => {
+    const response = await post('/mcp', initializeRequest(1));
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({ id: 1, result: { serverInfo: { name: 'prompthub-test' } } });
+    return response.headers.get(SESSION_ID_HEADER)!;
+  };
+
+  const listTools = async (sessionId: string) => {
+    const response = await post('/mcp', { jsonrpc: '2.0', id: 2, method: 'tools/list' }, sessionId);
+    return { status: response.status, body: await response.json() as any };
+  };
+
+  beforeEach(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'prompthub-http-'));
+    mkdirSync(join(directory, 'summarize', '1.0.0'), { recursive: true });
+    writeFileSync(join(directory, 'summarize', '1.0.0', 'prompt.json'), JSON.stringify({
+      id: 'summarize',
+      name: 'Summarize',
+      description: 'A test prompt',
+      version: '1.0.0',
+      author: 'alice',
+      license: 'MIT',
+      inputs: { text: { type: 'string', required: true } },
+      template: 'Summarize: {{text}}',
+      output_schema: { type: 'string' },
+    }));
+
+    vault = new FilesystemVaultBackend(directory);
+    await vault.initialize();
+    router = new PromptRouter(vault);
+    server = new PromptHubMCPServer('prompthub-test', '1.0.0', vault, router);
+
+    // Port 0 picks a free port
+    await server.start({ transport: 'http', host: '127.0.0.1', port: 0 });
+    baseUrl = `http://127.0.0.1:${server.getHttpAddress()!.port}`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    process.removeAllListeners('SIGINT');
+    process.removeAllListeners('SIGTERM');
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should serve separate sessions to separate clients', async () => {
+    const first = await openSession();
+    const second = await openSession();
+    expect(first).not.toBe(second);
+
+    for (const sessionId of [first, second]) {
+      const { status, body } = await listTools(sessionId);
+      expect(status).toBe(200);
+      expect(body.result.tools.map((tool: { name: string }) => tool.name)).toContain('execute_prompt');
+    }
+
+    const closed = await fetch(`${baseUrl}/mcp`, { method: 'DELETE', headers: { [SESSION_ID_HEADER]: first } });
+    expect(closed.status).toBe(204);
+    await expect(listTools(first)).resolves.toMatchObject({ status: 404, body: { error: { message: 'Session not found' } } });
+    await expect(listTools(second)).resolves.toMatchObject({ status: 200 });
+  });
+
+  it('should require a session for requests other than initialize', async () => {
+    const response = await post('/mcp', { jsonrpc: '2.0', id: 1, method: 'tools/list' });
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toMatchObject({ error: { message: `Missing ${SESSION_ID_HEADER} header` } });
+
+    await expect(listTools('unknown')).resolves.toMatchObject({ status: 404 });
+  });
+
+  it('should close sessions whose client went away', async () => {
+    await restart({ sessionIdleTimeout: 100 });
+    const abandoned = await openSession();
+    const listening = await openSession();
+    const controller = new AbortController();
+    const stream = await fetch(`${baseUrl}/mcp`, { headers: { [SESSION_ID_HEADER]: listening }, signal: controller.signal });
+    expect(stream.status).toBe(200);
+
+    await delay(400);
+    await expect(listTools(abandoned)).resolves.toMatchObject({ status: 404, body: { error: { message: 'Session not found' } } });
+    // A client with an open event stream is still there
+    await expect(listTools(listening)).resolves.toMatchObject({ status: 200 });
+
+    controller.abort();
+  });
+
+  it('should fall back to the SSE transport for older clients', async () => {
+    await expect(post('/messages?sessionId=unknown', initializeRequest(1))).resolves.toMatchObject({ status: 404 });
+
+    const controller = new AbortController();
+    const stream = await fetch(`${baseUrl}/sse`, { signal: controller.signal });
+    expect(stream.headers.get('content-type')).toBe('text/event-stream');
+    const events = readEvents(stream.body!);
+
+    const endpoint = (await events.next()).value!;
+    expect(endpoint.event).toBe('endpoint');
+    expect(endpoint.data).toMatch(/^\/messages\?sessionId=/);
+
+    const accepted = await post(endpoint.data, initializeRequest(1));
+    expect(accepted.status).toBe(202);
+    const response = (await events.next()).value!;
+    expect(JSON.parse(response.data)).toMatchObject({ id: 1, result: { serverInfo: { name: 'prompthub-test' } } });
+
+    controller.abort();
+  });
+
+  it('should wait for in-flight executions before stopping', async () => {
+    const sessionId = await openSession();
+    const module = await router.getPromptModule('summarize');
+    let started!: () => void;
+    const running = new Promise<void>(resolve => (started = resolve));
+    let finished = false;
+    jest.spyOn(module, 'execute').mockImplementation(async (_inputs, context) => {
+      started();
+      await delay(200, context.signal);
+      finished = true;
+      return { success: true, output: 'done', metadata: {} };
+    });
+
+    const call = post('/mcp', executeRequest(2), sessionId);
+    await running;
+    await server.stop();
+    expect(finished).toBe(true);
+
+    const response = await call;
+    expect(response.status).toBe(200);
+    const { result } = await response.json() as any;
+    expect(JSON.parse(result.content[0].text)).toMatchObject({ success: true, output: 'done' });
+  });
+});
@@ -0,0 +1,215 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { PromptHubMCPServer, PromptHubMCPServerOptions, RATE_LIMITED_ERROR_CODE } from '../src/core/mcp-server';
+import { PromptRouter } from '../src/core/prompt-router';
+import { FilesystemVaultBackend } from '../src/vault/filesystem-backend';
+import { delay } from '../src/utils/abort';
+import { PromptDefinition } from '../src/types';
+
+/**
+ * One end of an in-process connection; messages are delivered to the peer on the next tick
+ */
+class LinkedTransport implements Transport {
+  peer: LinkedTransport | undefined;
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  static pair(): [LinkedTransport, LinkedTransport] {
+    const client = new LinkedTransport();
+    const server = new LinkedTransport();
+    client.peer = server;
+    server.peer = client;
+    return [client, server];
+  }
+
+  async start(): Promise<void> {}
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    setImmediate(() => this.peer?.onmessage?.(message));
+  }
+
+  async close(): Promise<void> {
+    this.onclose?.();
+  }
+}
+
+function definition(id: string, tags: string[] = ['text']): PromptDefinition {
+  return {
+    id,
+    name: `Prompt ${id}`,
+    description: 'A test prompt',
+    version: '1.0.0',
+    author: 'alice',
+    license: 'MIT',
+    inputs: { text: { type: 'string', required: true } },
+    template: 'Summarize: {{text}}',
+    output_schema: { type: 'string' },
+    tags,
+  };
+}
+
+describe('PromptHubMCPServer tool calls', () => {
+  let directory: string;
+  let vault: FilesystemVaultBackend;
+  let router: PromptRouter;
+  let server: PromptHubMCPServer;
+  let client: Client;
+
+  const connect = async (options: PromptHubMCPServerOptions = {}) => {
+    vault = new FilesystemVaultBackend(directory);
+    await vault.initialize();
+    router = new PromptRouter(vault);
+    server = new PromptHubMCPServer('prompthub-test', '1.0.0', vault, router, options);
+
+    const [clientTransport, serverTransport] = LinkedTransport.pair();
+    await server.getServer().connect(serverTransport);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+  };
+
+  // JSON carried by a tool result's text content
+  const parsed = (result: Record<string, unknown>) =>
+    JSON.parse((result['content'] as Array<{ text: string }>)[0]!.text);
+
+  // Execution that runs for `ms` unless its signal aborts first
+  const runFor = async (ms: number) => {
+    const module = await router.getPromptModule('summarize');
+    jest.spyOn(module, 'execute').mockImplementation(async (_inputs, context) => {
+      await delay(ms, context.signal);
+      return { success: true, output: 'done', metadata: {} as any };
+    });
+  };
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'prompthub-server-'));
+    for (const prompt of [definition('summarize'), definition('lint', ['code'])]) {
+      mkdirSync(join(directory, prompt.id, '1.0.0'), { recursive: true });
+      writeFileSync(join(directory, prompt.id, '1.0.0', 'prompt.json'), JSON.stringify(prompt));
+    }
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('prompt tools', () => {
+    it('should load only the prompt a tool call runs', async () => {
+      await connect({ promptTools: { tags: ['text'] } });
+      const listPrompts = jest.spyOn(vault, 'listPrompts');
+      await runFor(0);
+
+      const result = await client.callTool({ name: 'prompt__summarize', arguments: { text: 'hi' } });
+      expect(parsed(result)).toMatchObject({ success: true, output: 'done' });
+
+      for (const name of ['prompt__lint', 'prompt__missing']) {
+        const unknown = await client.callTool({ name, arguments: {} });
+        expect(parsed(unknown).error).toMatchObject({ code: 'INVALID_INPUT', message: `Unknown tool: ${name}` });
+      }
+      expect(listPrompts).not.toHaveBeenCalled();
+    });
+
+    it('should share one vault listing between list requests', async () => {
+      await connect({ promptTools: { tags: ['text'] } });
+      const listPrompts = jest.spyOn(vault, 'listPrompts');
+
+      const { tools } = await client.listTools();
+      expect(tools.map(tool => tool.name)).toContain('prompt__summarize');
+      expect(tools.map(tool => tool.name)).not.toContain('prompt__lint');
+      const { prompts } = await client.listPrompts();
+      expect(prompts.map(prompt => prompt.name).sort()).toEqual(['lint', 'summarize']);
+      expect(listPrompts).toHaveBeenCalledTimes(1);
+
+      // The poll lists the vault again and refreshes the shared listing
+      await server.refreshPromptList();
+      await client.listPrompts();
+      expect(listPrompts).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('native prompts', () => {
+    beforeEach(() => {
+      writeFileSync(join(directory, 'lint', '1.0.0', 'metadata.json'), JSON.stringify({ accessPolicy: { type: 'private' } }));
+    });
+
+    it('should not render private prompts for callers other than the author', async () => {
+      await connect();
+
+      await expect(client.getPrompt({ name: 'lint', arguments: { text: 'hi' } })).rejects.toThrow(
+        'This prompt is private and can only be accessed by the author'
+      );
+      const rendered = await client.getPrompt({ name: 'summarize', arguments: { text: 'hi' } });
+      expect(rendered.messages[0]!.content).toMatchObject({ type: 'text', text: 'Summarize: hi' });
+    });
+
+    it('should list only the prompts the caller may access', async () => {
+      await connect();
+
+      const { prompts } = await client.listPrompts();
+      expect(prompts.map(prompt => prompt.name)).toEqual(['summarize']);
+    });
+  });
+
+  describe('admission', () => {
+    const limits = { rateLimiting: { enabled: true, windowMs: 60000, maxRequests: 1 }, maxConcurrentRequests: 0, maxQueuedRequests: 0, queueTimeout: 0 };
+
+    it('should reject calls over the rate limit with a protocol error', async () => {
+      await connect({ admission: limits });
+
+      await expect(client.callTool({ name: 'get_usage', arguments: {} })).resolves.toMatchObject({ isError: false });
+      await expect(client.callTool({ name: 'get_usage', arguments: {} })).rejects.toMatchObject({
+        code: RATE_LIMITED_ERROR_CODE,
+        message: expect.stringContaining('Caller rate limit of 1 requests per 60000ms exceeded'),
+      });
+    });
+
+    it('should report when to retry in the error data', async () => {
+      await connect({ admission: limits });
+      const caller = { caller: 'alice' };
+      const signal = new AbortController().signal;
+
+      await server['admitToolCall']('get_usage', {}, caller, signal);
+      await expect(server['admitToolCall']('get_usage', {}, caller, signal)).rejects.toMatchObject({
+        code: RATE_LIMITED_ERROR_CODE,
+        data: { code: 'RATE_LIMIT_EXCEEDED', scope: 'caller', retryAfter: expect.any(Number) },
+      });
+    });
+  });
+
+  describe('timeouts', () => {
+    it('should let executions run past the request timeout up to the execution timeout', async () => {
+      await connect({ requestTimeout: 20, executionTimeout: 1000 });
+      await runFor(100);
+
+      const result = await client.callTool({ name: 'execute_prompt', arguments: { promptId: 'summarize', inputs: { text: 'hi' } } });
+      expect(result.isError).toBeFalsy();
+      expect(parsed(result)).toMatchObject({ success: true, output: 'done' });
+    });
+
+    it('should stop executions at the execution timeout', async () => {
+      await connect({ requestTimeout: 1000, executionTimeout: 20 });
+      await runFor(500);
+
+      const result = await client.callTool({ name: 'execute_prompt', arguments: { promptId: 'summarize', inputs: { text: 'hi' } } });
+      expect(result.isError).toBe(true);
+      expect(parsed(result).error).toMatchObject({ code: 'EXECUTION_TIMEOUT', message: 'Execution timed out after 20ms' });
+    });
+
+    it('should apply the execution timeout to DAG runs', async () => {
+      await connect({ requestTimeout: 20, executionTimeout: 1000 });
+      const executeDag = jest.spyOn(router, 'executeDag').mockImplementation(async (_dag, _inputs, options) => {
+        await delay(100, options?.signal);
+        return { success: true, outputs: {}, executionOrder: [], nodeResults: {} } as any;
+      });
+
+      const result = await client.callTool({ name: 'compose_prompt_dag', arguments: { dag: { nodes: [] }, rootInputs: {} } });
+      expect(result.isError).toBeFalsy();
+      expect(executeDag).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -1,12 +1,23 @@
 import { PromptModule } from '../src/core/prompt-module';
+import { ModelProviderManager } from '../src/providers/model-provider';
+import { MockModelAdapter, ModelExecutionRequest, ModelExecutionResponse } from '../src/adapters/base';
+import { PromptTemplateEngine } from '../src/utils/template-engine';
+import { TokenGateConnection, TokenGateVerifier } from '../src/auth/token-gate';
+import { UsageQuota } from '../src/quota/usage-quota';
 import { PromptDefinition, PromptMetadata, ExecutionContext } from '../src/types';
 
 describe('PromptModule', () => {
   let promptDefinition: PromptDefinition;
   let promptMetadata: PromptMetadata;
   let module: PromptModule;
+  let modelProvider: ModelProviderManager;
 
   beforeEach(() => {
+    modelProvider = new ModelProviderManager({
+      adapters: { mock: new MockModelAdapter() },
+      defaultProvider: 'mock',
+    });
+
     promptDefinition = {
       id: 'test-prompt',
       name: 'Test Prompt',
@@ -59,7 +70,7 @@ describe('PromptModule', () => {
       },
     };
 
-    module = new PromptModule(promptDefinition, promptMetadata);
+    module = new PromptModule(promptDefinition, promptMetadata, { modelProvider });
   });
 
   describe('constructor', () => {
@@ -118,6 +129,71 @@ describe('PromptModule', () => {
       expect(result.valid).toBe(true);
       expect(result.warnings).toContain("Unexpected parameter 'unexpected' will be ignored");
     });
+
+    describe('nested inputs', () => {
+      let nestedModule: PromptModule;
+
+      beforeEach(() => {
+        nestedModule = new PromptModule(
+          {
+            ...promptDefinition,
+            inputs: {
+              filters: {
+                type: 'array',
+                required: true,
+                items: {
+                  type: 'object',
+                  required: false,
+                  properties: {
+                    field: { type: 'string', required: true },
+                    limit: { type: 'number', required: false, enum: [10, 50, 100] },
+                    exact: { type: 'boolean', required: false },
+                  },
+                },
+              },
+            },
+          },
+          promptMetadata
+        );
+      });
+
+      it('should report nested violations by JSON pointer', () => {
+        const result = nestedModule.validateInput({
+          filters: [{ field: 'name', limit: 10 }, { field: 3 }, { limit: 20 }],
+        });
+
+        expect(result.valid).toBe(false);
+        expect(result.errors).toEqual([
+          "Parameter '/filters/1/field' must be a string",
+          "Required parameter '/filters/2/field' is missing",
+          "Parameter '/filters/2/limit' must be one of: 10, 50, 100",
+        ]);
+      });
+
+      it('should reject numeric and boolean strings in strict mode', () => {
+        const result = nestedModule.validateInput({ filters: [{ field: 'name', limit: '50', exact: 'true' }] });
+
+        expect(result.valid).toBe(false);
+        expect(result.errors).toContain("Parameter '/filters/0/limit' must be one of: 10, 50, 100");
+        expect(result.errors).toContain("Parameter '/filters/0/exact' must be a boolean");
+      });
+
+      it('should coerce numeric and boolean strings in lenient mode', () => {
+        const result = nestedModule.validateInput(
+          { filters: [{ field: 'name', limit: ' 50 ', exact: 'true' }] },
+          { coerce: true }
+        );
+
+        expect(result.valid).toBe(true);
+        expect(result.value).toEqual({ filters: [{ field: 'name', limit: 50, exact: true }] });
+      });
+
+      it('should not coerce strings that are not numbers or booleans', () => {
+        const result = nestedModule.validateInput({ filters: [{ field: 'name', exact: 'yes' }] }, { coerce: true });
+
+        expect(result.errors).toEqual(["Parameter '/filters/0/exact' must be a boolean"]);
+      });
+    });
   });
 
   describe('execute', () => {
@@ -172,6 +248,64 @@ describe('PromptModule', () => {
       // The template should have been rendered with default format
     });
 
+    it('should return model output and token usage from the adapter', async () => {
+      const result = await module.execute({ text: 'Hello world' }, executionContext);
+
+      expect(result.success).toBe(true);
+      expect(result.output.result).toContain('Process this text in plain format: Hello world');
+      expect(result.metadata?.modelProvider).toBe('mock');
+      expect(result.tokenUsage).toBeDefined();
+      expect(result.tokenUsage!.totalTokens).toBe(
+        result.tokenUsage!.promptTokens + result.tokenUsage!.completionTokens
+      );
+    });
+
+    it('should pass execution_settings to the adapter', async () => {
+      const adapter = new MockModelAdapter();
+      const executeSpy = jest.spyOn(adapter, 'execute');
+      const settingsModule = new PromptModule(
+        { ...promptDefinition, execution_settings: { temperature: 0.1 } },
+        promptMetadata,
+        { modelProvider: new ModelProviderManager({ adapters: { mock: adapter }, defaultProvider: 'mock' }) }
+      );
+
+      await settingsModule.execute({ text: 'Hello world' }, executionContext);
+
+      expect(executeSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ settings: { temperature: 0.1 } })
+      );
+    });
+
+    it('should prefer the context model provider over the definition models', async () => {
+      const manager = new ModelProviderManager({
+        adapters: { mock: new MockModelAdapter(), other: new MockModelAdapter() },
+        defaultProvider: 'mock',
+      });
+      const modelsModule = new PromptModule(
+        { ...promptDefinition, models: ['other'] },
+        promptMetadata,
+        { modelProvider: manager }
+      );
+
+      const fromModels = await modelsModule.execute({ text: 'Hello world' }, executionContext);
+      expect(fromModels.metadata?.modelProvider).toBe('other');
+
+      const fromContext = await modelsModule.execute(
+        { text: 'Hello world' },
+        { ...executionContext, modelProvider: 'mock' }
+      );
+      expect(fromContext.metadata?.modelProvider).toBe('mock');
+    });
+
+    it('should fail when no model provider is configured', async () => {
+      const bareModule = new PromptModule(promptDefinition, promptMetadata);
+
+      const result = await bareModule.execute({ text: 'Hello world' }, executionContext);
+
+      expect(result.success).toBe(false);
+      expect(result.metadata?.error?.code).toBe('EXECUTION_FAILED');
+    });
+
     it('should increment execution count', async () => {
       const inputs = {
         text: 'Hello world',
@@ -183,6 +317,281 @@ describe('PromptModule', () => {
       const newCount = module.getMetadata().executionCount;
       expect(newCount).toBe(initialCount + 1);
     });
+
+    it('should fail with EXECUTION_TIMEOUT when the adapter outlasts the execution timeout', async () => {
+      const adapter = new MockModelAdapter();
+      const executeSpy = jest.spyOn(adapter, 'execute');
+      const timeoutModule = new PromptModule(promptDefinition, promptMetadata, {
+        modelProvider: new ModelProviderManager({ adapters: { mock: adapter }, defaultProvider: 'mock' }),
+        executionTimeout: 20,
+      });
+
+      const result = await timeoutModule.execute({ text: 'Hello world' }, executionContext);
+
+      expect(result.success).toBe(false);
+      expect(result.metadata.error?.code).toBe('EXECUTION_TIMEOUT');
+      expect(executeSpy.mock.calls[0]![0].context.signal?.aborted).toBe(true);
+    });
+
+    it('should fail with EXECUTION_CANCELLED when the caller aborts', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = await module.execute({ text: 'Hello world' }, { ...executionContext, signal: controller.signal });
+
+      expect(result.success).toBe(false);
+      expect(result.metadata.error?.code).toBe('EXECUTION_CANCELLED');
+      expect(module.getMetadata().executionCount).toBe(0);
+    });
+  });
+
+  describe('renderPrompt', () => {
+    it('should render the template with defaults and coerced inputs', () => {
+      const summaryModule = new PromptModule(
+        {
+          ...promptDefinition,
+          inputs: {
+            ...promptDefinition.inputs,
+            points: { type: 'number', required: false },
+          },
+          template: 'Process this text in {{format}} format: {{text}} ({{points}} points) {{module "summary"}}',
+        },
+        promptMetadata
+      );
+
+      expect(summaryModule.renderPrompt({ text: 'Hello world', points: '3' })).toBe(
+        'Process this text in plain format: Hello world (3 points) {{module "summary"}}'
+      );
+    });
+
+    it('should throw INVALID_INPUT for invalid inputs', () => {
+      expect(() => module.renderPrompt({ format: 'json' })).toThrow('Input validation failed');
+    });
+  });
+
+  describe('structured output', () => {
+    class ScriptedAdapter extends MockModelAdapter {
+      requests: ModelExecutionRequest[] = [];
+
+      constructor(private responses: string[]) {
+        super();
+      }
+
+      async execute(request: ModelExecutionRequest): Promise<ModelExecutionResponse> {
+        this.requests.push(request);
+        return {
+          content: this.responses.shift() || '',
+          tokenUsage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+        };
+      }
+    }
+
+    const executionContext: ExecutionContext = {
+      caller: 'test-caller',
+      timestamp: Date.now(),
+      requestId: 'test-request-id',
+    };
+
+    const createStructuredModule = (adapter: MockModelAdapter, outputRepairAttempts?: number) =>
+      new PromptModule(
+        {
+          ...promptDefinition,
+          output_schema: {
+            type: 'object',
+            properties: { result: { type: 'string' }, score: { type: 'number' } },
+            required: ['result', 'score'],
+          },
+        },
+        promptMetadata,
+        {
+          modelProvider: new ModelProviderManager({ adapters: { mock: adapter }, defaultProvider: 'mock' }),
+          ...(outputRepairAttempts !== undefined ? { outputRepairAttempts } : {}),
+        }
+      );
+
+    it('should return parsed JSON output and pass the schema to JSON-mode adapters', async () => {
+      const adapter = new ScriptedAdapter(['```json\n{"result": "ok", "score": 0.9}\n```']);
+
+      const result = await createStructuredModule(adapter).execute({ text: 'Hello world' }, executionContext);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toEqual({ result: 'ok', score: 0.9 });
+      expect(adapter.requests[0].responseSchema).toMatchObject({ type: 'object', required: ['result', 'score'] });
+    });
+
+    it('should retry with a repair prompt when output violates the schema', async () => {
+      const adapter = new ScriptedAdapter(['not json', '{"result": "ok"}', '{"result": "ok", "score": 1}']);
+
+      const result = await createStructuredModule(adapter).execute({ text: 'Hello world' }, executionContext);
+
+      expect(result.success).toBe(true);
+      expect(result.metadata?.attempts).toBe(3);
+      expect(result.tokenUsage).toEqual({ promptTokens: 30, completionTokens: 15, totalTokens: 45 });
+      expect(adapter.requests[1].prompt).toContain('Response is not valid JSON');
+      expect(adapter.requests[2].prompt).toContain('/score: required property is missing');
+    });
+
+    it('should return a VALIDATION_ERROR with violations when repairs are exhausted', async () => {
+      const adapter = new ScriptedAdapter(['{"result": 1, "score": 2}', '{"result": 1, "score": 2}']);
+
+      const result = await createStructuredModule(adapter, 1).execute({ text: 'Hello world' }, executionContext);
+
+      expect(result.success).toBe(false);
+      expect(result.metadata?.error?.code).toBe('VALIDATION_ERROR');
+      expect(result.metadata?.error?.details.violations).toEqual(['/result: expected string but got integer']);
+      expect(adapter.requests).toHaveLength(2);
+    });
+  });
+
+  describe('template rendering', () => {
+    const executionContext: ExecutionContext = {
+      caller: 'test-caller',
+      timestamp: Date.now(),
+      requestId: 'test-request-id',
+    };
+
+    const renderWith = async (
+      template: string,
+      inputs: Record<string, any>,
+      extraInputs: Record<string, any>,
+      templateEngine?: PromptTemplateEngine
+    ) => {
+      const adapter = new MockModelAdapter();
+      const executeSpy = jest.spyOn(adapter, 'execute');
+      const renderModule = new PromptModule(
+        { ...promptDefinition, template, inputs: { ...promptDefinition.inputs, ...extraInputs } },
+        promptMetadata,
+        {
+          modelProvider: new ModelProviderManager({ adapters: { mock: adapter }, defaultProvider: 'mock' }),
+          templateEngine,
+        }
+      );
+      const result = await renderModule.execute(inputs, executionContext);
+      expect(result.success).toBe(true);
+      return executeSpy.mock.calls[0][0].prompt;
+    };
+
+    it('should render helpers, conditionals and loops through the template engine', async () => {
+      const prompt = await renderWith(
+        '{{uppercase text}}{{#if points}}: {{#each points}}{{this}};{{/each}}{{/if}}',
+        { text: 'hi', points: ['a', 'b'] },
+        { points: { type: 'array' } }
+      );
+      expect(prompt).toBe('HI: a;b;');
+    });
+
+    it('should handle input keys containing regex metacharacters', async () => {
+      const prompt = await renderWith('Cost: {{price$}}', { text: 'x', price$: '5' }, { price$: { type: 'string' } });
+      expect(prompt).toBe('Cost: 5');
+    });
+
+    it('should use helpers registered on an injected engine', async () => {
+      const engine = new PromptTemplateEngine();
+      engine.registerHelper('shout', (value: string) => `${value}!`);
+      const prompt = await renderWith('{{shout text}}', { text: 'hey' }, {}, engine);
+      expect(prompt).toBe('hey!');
+    });
+
+    it('should reject definitions targeting an unsupported template dialect', () => {
+      expect(
+        () => new PromptModule({ ...promptDefinition, template_dialect: '3.0' }, promptMetadata)
+      ).toThrow('Template dialect 3.0 is not supported');
+      expect(
+        () => new PromptModule({ ...promptDefinition, template_dialect: '2.0' }, promptMetadata)
+      ).not.toThrow();
+    });
+  });
+
+  describe('dependencies', () => {
+    let executionContext: ExecutionContext;
+    let modules: Map<string, PromptModule>;
+    let loader: { getPromptModule: jest.Mock };
+
+    const createDependencyModule = (id: string, template: string, dependencies?: string[]) =>
+      new PromptModule(
+        {
+          ...promptDefinition,
+          id,
+          template,
+          ...(dependencies ? { dependencies } : {}),
+        },
+        { ...promptMetadata, id },
+        { modelProvider, dependencyLoader: loader }
+      );
+
+    beforeEach(() => {
+      executionContext = {
+        caller: 'test-caller',
+        timestamp: Date.now(),
+        requestId: 'test-request-id',
+      };
+      modules = new Map();
+      loader = {
+        getPromptModule: jest.fn(async (id: string) => {
+          const found = modules.get(id);
+          if (!found) {
+            throw new Error(`Prompt not found: ${id}`);
+          }
+          return found;
+        }),
+      };
+    });
+
+    it('should inject dependency outputs into module references', async () => {
+      modules.set('summary', createDependencyModule('summary', 'Summarize: {{text}}'));
+      const parent = createDependencyModule('parent', 'Context: {{module "summary"}}', ['summary']);
+
+      const result = await parent.execute({ text: 'Hello world' }, executionContext);
+
+      expect(result.success).toBe(true);
+      expect(result.output.result).toContain('Context: {"result":"Mock response for prompt');
+      expect(loader.getPromptModule).toHaveBeenCalledWith('summary');
+    });
+
+    it('should execute a shared dependency only once', async () => {
+      const shared = createDependencyModule('shared', 'Shared: {{text}}');
+      const executeSpy = jest.spyOn(shared, 'execute');
+      modules.set('shared', shared);
+      modules.set('left', createDependencyModule('left', 'L {{module "shared"}}', ['shared']));
+      modules.set('right', createDependencyModule('right', 'R {{module "shared"}}', ['shared']));
+      const root = createDependencyModule('root', '{{module "left"}} {{module "right"}}', ['left', 'right']);
+
+      const result = await root.execute({ text: 'Hello world' }, executionContext);
+
+      expect(result.success).toBe(true);
+      expect(executeSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should detect circular dependencies', async () => {
+      modules.set('a', createDependencyModule('a', '{{module "b"}}', ['b']));
+      modules.set('b', createDependencyModule('b', '{{module "a"}}', ['a']));
+
+      const result = await modules.get('a')!.execute({ text: 'Hello world' }, executionContext);
+
+      expect(result.success).toBe(false);
+      expect(result.metadata?.error?.code).toBe('VALIDATION_ERROR');
+      expect(result.metadata?.error?.message).toContain('a -> b -> a');
+    });
+
+    it('should enforce the maximum dependency depth', async () => {
+      const chain = ['d0', 'd1', 'd2', 'd3'];
+      chain.forEach((id, index) => {
+        const next = chain[index + 1];
+        modules.set(
+          id,
+          new PromptModule(
+            { ...promptDefinition, id, ...(next ? { dependencies: [next] } : {}) },
+            { ...promptMetadata, id },
+            { modelProvider, dependencyLoader: loader, maxDependencyDepth: 2 }
+          )
+        );
+      });
+
+      const result = await modules.get('d0')!.execute({ text: 'Hello world' }, executionContext);
+
+      expect(result.success).toBe(false);
+      expect(result.metadata?.error?.message).toContain('Dependency depth exceeds maximum of 2');
+    });
   });
 
   describe('access control', () => {
@@ -242,6 +651,74 @@ describe('PromptModule', () => {
       const result = await module.execute(inputs, context);
       expect(result.success).toBe(true);
     });
+
+    describe('token-gated prompts', () => {
+      const context = { caller: 'holder-wallet', timestamp: Date.now(), requestId: 'test-request' };
+      const connectionWithBalance = (amount: string) => ({
+        getParsedTokenAccountsByOwner: jest.fn().mockResolvedValue({
+          context: { slot: 1 },
+          value: [{ account: { data: { parsed: { info: { tokenAmount: { amount, decimals: 6 } } } } } }],
+        }),
+        getMultipleAccountsInfo: jest.fn(),
+      }) as unknown as TokenGateConnection;
+
+      const gatedModule = (tokenGate?: TokenGateVerifier) => new PromptModule(
+        promptDefinition,
+        { ...promptMetadata, accessPolicy: { type: 'token_gated', tokenAddress: 'gate-mint', minimumBalance: '1000' } },
+        { modelProvider, tokenGate }
+      );
+
+      it('should allow callers holding the minimum balance', async () => {
+        const result = await gatedModule(new TokenGateVerifier(connectionWithBalance('1000'))).execute({ text: 'Hi' }, context);
+        expect(result.success).toBe(true);
+      });
+
+      it('should report INSUFFICIENT_BALANCE below the minimum', async () => {
+        const result = await gatedModule(new TokenGateVerifier(connectionWithBalance('999'))).execute({ text: 'Hi' }, context);
+        expect(result.success).toBe(false);
+        expect(result.metadata.error?.code).toBe('INSUFFICIENT_BALANCE');
+      });
+
+      it('should deny access when no verifier is configured', async () => {
+        const result = await gatedModule().execute({ text: 'Hi' }, context);
+        expect(result.metadata.error?.code).toBe('ACCESS_DENIED');
+      });
+    });
+
+    it('should enforce maxUsagePerDay per caller', async () => {
+      const limitedModule = new PromptModule(
+        promptDefinition,
+        { ...promptMetadata, accessPolicy: { type: 'public', maxUsagePerDay: 1 } },
+        { modelProvider, usageQuota: new UsageQuota() }
+      );
+      const context = (caller: string) => ({ caller, timestamp: Date.now(), requestId: 'test-request' });
+
+      expect((await limitedModule.execute({ text: 'Hi' }, context('alice'))).success).toBe(true);
+      const limited = await limitedModule.execute({ text: 'Hi' }, context('alice'));
+      expect(limited.metadata.error?.code).toBe('RATE_LIMIT_EXCEEDED');
+      expect((await limitedModule.execute({ text: 'Hi' }, context('bob'))).success).toBe(true);
+    });
+
+    it('should not count failed executions against maxUsagePerDay', async () => {
+      const adapter = new MockModelAdapter();
+      jest.spyOn(adapter, 'execute').mockRejectedValueOnce(new Error('Model unavailable'));
+      const usageQuota = new UsageQuota();
+      const limitedModule = new PromptModule(
+        promptDefinition,
+        { ...promptMetadata, accessPolicy: { type: 'public', maxUsagePerDay: 1 } },
+        { modelProvider: new ModelProviderManager({ adapters: { mock: adapter }, defaultProvider: 'mock' }), usageQuota }
+      );
+
+      const context = { caller: 'alice', timestamp: Date.now(), requestId: 'test-request' };
+
+      const failed = await limitedModule.execute({ text: 'Hi' }, context);
+      expect(failed.success).toBe(false);
+      await expect(usageQuota.getUsage('alice', 'test-prompt', 1)).resolves.toMatchObject({ used: 0 });
+
+      expect((await limitedModule.execute({ text: 'Hi' }, context)).success).toBe(true);
+      const limited = await limitedModule.execute({ text: 'Hi' }, context);
+      expect(limited.metadata?.error?.code).toBe('RATE_LIMIT_EXCEEDED');
+    });
   });
 
   describe('metadata management', () => {
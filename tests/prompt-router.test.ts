@@ -0,0 +1,396 @@
+import { PromptRouter, DAGDefinition } from '../src/core/prompt-router';
+import { PromptVaultClient } from '../src/core/vault-client';
+import { VaultPrompt } from '../src/vault/vault-backend';
+import { PromptExecutionResult } from '../src/types';
+
+describe('PromptRouter', () => {
+  let vaultClient: PromptVaultClient;
+  let router: PromptRouter;
+  let executePrompt: jest.SpyInstance;
+
+  const succeed = (output: any): PromptExecutionResult => ({ success: true, output, metadata: {} as any });
+  const fail = (code: string = 'EXECUTION_FAILED'): PromptExecutionResult =>
+    ({ success: false, output: null, metadata: {} as any, error: { code, message: 'boom' } });
+
+  // Every vault prompt accepts the inputs these tests pass; 'missing' is not in the vault
+  const declaredInputs = ['text', 'tone', 'heading', 'topic', 'language', 'doc', 'item', 'accumulator'];
+  const promptData = (id: string, version: string = '1.0.0'): VaultPrompt => ({
+    definition: {
+      id,
+      name: id,
+      description: `Test prompt ${id}`,
+      version,
+      author: 'test-author',
+      license: 'MIT',
+      inputs: Object.fromEntries(declaredInputs.map(key => [key, { type: 'string' as const, required: false }])),
+      template: 'Run {{text}}',
+      output_schema: { type: 'string' },
+    },
+    metadata: {
+      id,
+      name: id,
+      description: `Test prompt ${id}`,
+      version,
+      author: 'test-author',
+      license: 'MIT',
+      tags: [],
+      createdAt: 1,
+      updatedAt: 1,
+      executionCount: 0,
+      accessPolicy: { type: 'public' },
+      royaltyConfig: { creatorShare: 7000, daoShare: 1000, validatorShare: 1000, burnShare: 1000 },
+    },
+    contentHash: `hash-${id}@${version}`,
+  });
+
+  beforeEach(() => {
+    vaultClient = new PromptVaultClient({
+      network: 'localnet',
+      rpcUrl: 'http://localhost:8899',
+      programId: 'PromptVault11111111111111111111111111111111',
+    });
+    jest.spyOn(vaultClient, 'getPrompt').mockImplementation(async id => (id === 'missing' ? null : promptData(id)));
+    router = new PromptRouter(vaultClient, { maxDagConcurrency: 2 });
+    executePrompt = jest.spyOn(router, 'executePrompt');
+  });
+
+  describe('getPromptModule', () => {
+    it('should cache modules by the version a spec resolves to', async () => {
+      const getPrompt = jest.mocked(vaultClient.getPrompt).mockImplementation(async (id, version) =>
+        version === '^2' ? null : promptData(id, '1.4.0')
+      );
+
+      const latest = await router.getPromptModule('summarize');
+      await expect(router.getPromptModule('summarize', '^1.2')).resolves.toBe(latest);
+      await expect(router.getPromptModule('summarize', '^1.2')).resolves.toBe(latest);
+      await expect(router.getPromptModule('summarize', '^2')).rejects.toMatchObject({ code: 'PROMPT_NOT_FOUND' });
+      expect(getPrompt).toHaveBeenCalledTimes(3);
+
+      jest.spyOn(latest, 'execute').mockResolvedValue(succeed('done'));
+      const result = await router.executePrompt('summarize', {}, { caller: '', timestamp: 0 }, '^1.2');
+      expect(result.metadata.version).toBe('1.4.0');
+    });
+
+    it('should keep the content verification reported by the vault', async () => {
+      const verification = { verified: true, method: 'cid' as const, contentHash: 'bafk', source: 'https://ipfs.io/ipfs/bafk', verifiedAt: 1 };
+      jest.mocked(vaultClient.getPrompt).mockResolvedValue({ ...promptData('summarize'), verification });
+
+      const module = await router.getPromptModule('summarize');
+      expect(module.getContentVerification()).toBe(verification);
+    });
+  });
+
+  describe('executeDag', () => {
+    const dag = (overrides: Partial<DAGDefinition>): DAGDefinition => ({
+      id: 'dag',
+      name: 'DAG',
+      description: 'Test DAG',
+      nodes: [],
+      edges: [],
+      ...overrides,
+    });
+
+    it('should run independent nodes concurrently up to the limit', async () => {
+      let active = 0;
+      let peak = 0;
+      executePrompt.mockImplementation(async (promptId: string) => {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        active--;
+        return succeed({ [promptId]: true });
+      });
+
+      const result = await router.executeDag(dag({
+        nodes: ['a', 'b', 'c'].map(id => ({ id, promptId: id, inputs: {}, dependencies: [] }))
+          .concat({ id: 'd', promptId: 'd', inputs: {}, dependencies: ['a', 'b', 'c'] }),
+      }), {});
+
+      expect(result.success).toBe(true);
+      expect(peak).toBe(2);
+      expect(result.executionOrder.slice(-1)).toEqual(['d']);
+      expect(executePrompt).toHaveBeenLastCalledWith('d', { a: true, b: true, c: true }, expect.anything(), undefined);
+    });
+
+    it('should map output fields to inputs along edges', async () => {
+      executePrompt.mockImplementation(async (promptId: string) =>
+        promptId === 'outline'
+          ? succeed({ title: 'Plan', sections: [{ heading: 'Intro' }], extra: 'unused' })
+          : succeed({ text: 'done' })
+      );
+
+      const result = await router.executeDag(dag({
+        nodes: [
+          { id: 'outline', promptId: 'outline', inputs: {}, dependencies: [] },
+          { id: 'write', promptId: 'write', inputs: { tone: 'formal', heading: 'static' }, dependencies: ['outline'] },
+        ],
+        edges: [
+          { from: 'outline', to: 'write', outputKey: '$.sections[0].heading', inputKey: 'heading' },
+          { from: 'outline', to: 'write', outputKey: 'title', inputKey: 'topic' },
+        ],
+      }), { tone: 'casual', topic: 'root', language: 'en' });
+
+      expect(result.executionOrder).toEqual(['outline', 'write']);
+      expect(executePrompt).toHaveBeenLastCalledWith(
+        'write',
+        { language: 'en', tone: 'formal', heading: 'Intro', topic: 'Plan' },
+        expect.anything(),
+        undefined
+      );
+    });
+
+    it('should stop starting nodes after a failure and keep completed results', async () => {
+      executePrompt.mockImplementation(async (promptId: string) => (promptId === 'bad' ? fail() : succeed({})));
+
+      const result = await router.executeDag(dag({
+        nodes: [
+          { id: 'ok', promptId: 'ok', inputs: {}, dependencies: [] },
+          { id: 'bad', promptId: 'bad', inputs: {}, dependencies: [] },
+          { id: 'after', promptId: 'after', inputs: {}, dependencies: ['bad'] },
+        ],
+      }), {});
+
+      expect(result.success).toBe(false);
+      expect(result.error?.nodeId).toBe('bad');
+      expect(Object.keys(result.results).sort()).toEqual(['bad', 'ok']);
+      expect(executePrompt).not.toHaveBeenCalledWith('after', expect.anything(), expect.anything(), undefined);
+      expect(result.nodes).toEqual({
+        ok: { status: 'succeeded', attempts: 1 },
+        bad: { status: 'failed', attempts: 1, error: expect.objectContaining({ code: 'EXECUTION_FAILED' }) },
+        after: { status: 'skipped', attempts: 0 },
+      });
+    });
+
+    it('should retry failed nodes and then run the fallback prompt', async () => {
+      const responses: Record<string, PromptExecutionResult[]> = {
+        flaky: [fail(), succeed({ text: 'second try' })],
+        broken: [fail(), fail()],
+        backup: [succeed({ text: 'from backup' })],
+      };
+      executePrompt.mockImplementation(async (promptId: string) => responses[promptId]!.shift());
+
+      const result = await router.executeDag(dag({
+        nodes: [
+          { id: 'a', promptId: 'flaky', inputs: {}, dependencies: [], retries: 2, retryDelay: 1 },
+          { id: 'b', promptId: 'broken', inputs: {}, dependencies: [], retries: 1, retryDelay: 1, fallbackPromptId: 'backup' },
+        ],
+      }), {});
+
+      expect(result.success).toBe(true);
+      expect(result.nodes).toEqual({
+        a: { status: 'succeeded', attempts: 2 },
+        b: { status: 'fallback', attempts: 3 },
+      });
+      expect(result.results.b.output).toEqual({ text: 'from backup' });
+    });
+
+    it('should report the attempts made before an abort during the retry delay', async () => {
+      const controller = new AbortController();
+      executePrompt.mockImplementation(async () => {
+        if (executePrompt.mock.calls.length === 2) {
+          setTimeout(() => controller.abort(), 10);
+        }
+        return fail();
+      });
+
+      const result = await router.executeDag(dag({
+        nodes: [{ id: 'a', promptId: 'a', inputs: {}, dependencies: [], retries: 3, retryDelay: 1000 }],
+      }), {}, { signal: controller.signal });
+
+      expect(result.success).toBe(false);
+      expect(executePrompt).toHaveBeenCalledTimes(2);
+      expect(result.nodes['a']).toMatchObject({ status: 'failed', attempts: 2 });
+    });
+
+    it('should not retry failures a retry cannot fix', async () => {
+      executePrompt.mockResolvedValue(fail('INVALID_INPUT'));
+
+      const result = await router.executeDag(dag({
+        nodes: [{ id: 'a', promptId: 'a', inputs: {}, dependencies: [], retries: 3, retryDelay: 1 }],
+      }), {});
+
+      expect(result.nodes['a']).toMatchObject({ status: 'failed', attempts: 1 });
+    });
+
+    it('should pass null for failed optional nodes and collect errors across branches', async () => {
+      executePrompt.mockImplementation(async (promptId: string) =>
+        promptId.startsWith('bad') ? fail() : succeed({ from: promptId })
+      );
+
+      const result = await router.executeDag(dag({
+        errorMode: 'collectErrors',
+        nodes: [
+          { id: 'extra', promptId: 'bad-extra', inputs: {}, dependencies: [], optional: true },
+          { id: 'main', promptId: 'main', inputs: {}, dependencies: ['extra'] },
+          { id: 'broken', promptId: 'bad-broken', inputs: {}, dependencies: [] },
+          { id: 'downstream', promptId: 'downstream', inputs: {}, dependencies: ['broken'] },
+          { id: 'other', promptId: 'other', inputs: {}, dependencies: ['main'] },
+        ],
+      }), {});
+
+      expect(result.success).toBe(false);
+      expect(result.results.extra.output).toBeNull();
+      expect(result.errors).toEqual([{ nodeId: 'broken', error: expect.objectContaining({ code: 'EXECUTION_FAILED' }) }]);
+      expect(result.nodes).toMatchObject({
+        extra: { status: 'failed' },
+        main: { status: 'succeeded' },
+        broken: { status: 'failed' },
+        downstream: { status: 'skipped' },
+        other: { status: 'succeeded' },
+      });
+    });
+
+    it('should run only the branch selected by a condition node', async () => {
+      executePrompt.mockImplementation(async (promptId: string, inputs: Record<string, any>) =>
+        succeed(promptId === 'classify' ? { label: 'spam' } : { handledBy: promptId, ...inputs })
+      );
+
+      const result = await router.executeDag(dag({
+        nodes: [
+          { id: 'classify', promptId: 'classify', inputs: {}, dependencies: [] },
+          { id: 'route', kind: 'condition', expression: 'classify.label', inputs: {}, dependencies: ['classify'] },
+          { id: 'quarantine', promptId: 'quarantine', inputs: {}, dependencies: ['route'] },
+          { id: 'reply', promptId: 'reply', inputs: {}, dependencies: ['route'] },
+          { id: 'escalate', promptId: 'escalate', inputs: {}, dependencies: ['reply'] },
+          { id: 'log', promptId: 'log', inputs: {}, dependencies: ['quarantine', 'reply'] },
+        ],
+        edges: [
+          { from: 'route', to: 'quarantine', when: 'spam' },
+          { from: 'route', to: 'reply' },
+        ],
+      }), {});
+
+      expect(result.success).toBe(true);
+      expect(result.nodes).toMatchObject({
+        route: { status: 'succeeded', attempts: 0 },
+        quarantine: { status: 'succeeded' },
+        reply: { status: 'skipped' },
+        escalate: { status: 'skipped' },
+        log: { status: 'succeeded' },
+      });
+      expect(result.results.route.output).toBe('spam');
+    });
+
+    it('should map a prompt over items with bounded concurrency and reduce the outputs', async () => {
+      let active = 0;
+      let peak = 0;
+      executePrompt.mockImplementation(async (promptId: string, inputs: Record<string, any>) => {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        active--;
+        return succeed(promptId === 'summarize' ? `summary of ${inputs.doc}` : `${inputs.accumulator} + ${inputs.item}`);
+      });
+
+      const result = await router.executeDag(dag({
+        nodes: [
+          {
+            id: 'summaries',
+            kind: 'map',
+            promptId: 'summarize',
+            items: 'input.documents',
+            itemInput: 'doc',
+            concurrency: 2,
+            inputs: {},
+            dependencies: [],
+          },
+          { id: 'combined', kind: 'reduce', promptId: 'combine', items: 'summaries', initial: 'start', inputs: {}, dependencies: ['summaries'] },
+        ],
+      }), { documents: ['a', 'b', 'c'] });
+
+      expect(result.results.summaries.output).toEqual(['summary of a', 'summary of b', 'summary of c']);
+      expect(result.results.combined.output).toBe('start + summary of a + summary of b + summary of c');
+      expect(result.nodes).toEqual({
+        summaries: { status: 'succeeded', attempts: 3 },
+        combined: { status: 'succeeded', attempts: 3 },
+      });
+      expect(peak).toBe(2);
+    });
+
+    it('should limit the expanded graph size', async () => {
+      const small = new PromptRouter(vaultClient, { maxDagNodes: 3 });
+      jest.spyOn(small, 'executePrompt').mockResolvedValue(succeed('ok'));
+
+      const result = await small.executeDag(dag({
+        nodes: [{ id: 'each', kind: 'map', promptId: 'p', items: 'input.list', inputs: {}, dependencies: [] }],
+      }), { list: [1, 2, 3] });
+
+      expect(result.nodes['each']).toMatchObject({ status: 'failed', error: { code: 'VALIDATION_ERROR' } });
+    });
+
+    it('should reject edges to unknown nodes, invalid paths and cycles created by edges', async () => {
+      const nodes = [
+        { id: 'a', promptId: 'a', inputs: {}, dependencies: [] },
+        { id: 'b', promptId: 'b', inputs: {}, dependencies: ['a'] },
+      ];
+
+      for (const edges of [
+        [{ from: 'a', to: 'missing' }],
+        [{ from: 'a', to: 'b', outputKey: 'items[x]' }],
+        [{ from: 'b', to: 'a' }],
+        [{ from: 'a', to: 'b', when: true }],
+      ]) {
+        const result = await router.executeDag(dag({ nodes, edges }), {});
+        expect(result.error).toMatchObject({ nodeId: 'validation', error: { code: 'VALIDATION_ERROR' } });
+      }
+      expect(executePrompt).not.toHaveBeenCalled();
+    });
+
+    it('should report every problem found against the vault at once', async () => {
+      const validation = await router.validateDag(dag({
+        nodes: [
+          { id: 'a', promptId: 'missing', inputs: {}, dependencies: [] },
+          { id: 'b', promptId: 'b', fallbackPromptId: 'missing', inputs: { unknown: 1 }, dependencies: [] },
+          { id: 'c', kind: 'map', promptId: 'c', items: 'input.list', itemInput: 'element', inputs: {}, dependencies: [] },
+        ],
+        edges: [{ from: 'a', to: 'c', inputKey: 'context' }],
+      }));
+
+      expect(validation.valid).toBe(false);
+      expect(validation.errors.sort()).toEqual([
+        'Edge a -> c: a is not listed in the dependencies of c',
+        "Node a: unknown prompt 'missing'",
+        "Node b: prompt 'b' does not declare input 'unknown'",
+        "Node b: unknown prompt 'missing'",
+        "Node c: prompt 'c' does not declare input 'context'",
+        "Node c: prompt 'c' does not declare input 'element'",
+      ]);
+      expect(validation.warnings).toEqual([]);
+    });
+
+    it('should enforce the size and depth limits', async () => {
+      const limited = new PromptRouter(vaultClient, { maxDagNodes: 3, maxDagDepth: 2 });
+      const chain = ['a', 'b', 'c'].map((id, index, ids) => ({
+        id,
+        promptId: id,
+        inputs: {},
+        dependencies: index > 0 ? [ids[index - 1]!] : [],
+      }));
+
+      await expect(limited.validateDag(dag({ nodes: chain }))).resolves.toMatchObject({
+        errors: ['DAG is 3 nodes deep; the limit is 2'],
+      });
+      await expect(limited.validateDag(dag({ nodes: [...chain, { id: 'd', promptId: 'd', inputs: {}, dependencies: [] }] })))
+        .resolves.toMatchObject({ errors: ['DAG has 4 nodes; the limit is 3', 'DAG is 3 nodes deep; the limit is 2'] });
+    });
+
+    it('should reject definitions that do not match the schema', async () => {
+      const result = await router.executeDag({ id: 'dag', nodes: [{ promptId: 'a' }] } as any, {});
+
+      expect(result.error?.error).toMatchObject({ code: 'VALIDATION_ERROR' });
+      expect(result.error?.error.details.errors).toEqual(expect.arrayContaining(['name: Required', 'nodes.0.id: Required']));
+    });
+
+    it('should reject nodes missing the fields their kind needs', async () => {
+      for (const node of [
+        { id: 'c', kind: 'condition' as const, inputs: {}, dependencies: [] },
+        { id: 'c', kind: 'condition' as const, expression: 'a ==', inputs: {}, dependencies: [] },
+        { id: 'm', kind: 'map' as const, promptId: 'p', inputs: {}, dependencies: [] },
+        { id: 'p', inputs: {}, dependencies: [] },
+      ]) {
+        const result = await router.executeDag(dag({ nodes: [node] }), {});
+        expect(result.error).toMatchObject({ nodeId: 'validation', error: { code: 'VALIDATION_ERROR' } });
+      }
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { RequestAdmission, Semaphore, TokenBucket, admissionConfigFrom, AdmissionConfig } from '../src/quota/request-admission';
+import { getConfig } from '../src/config/default';
+
+function config(overrides: Partial<AdmissionConfig> = {}, rateLimiting: Partial<AdmissionConfig['rateLimiting']> = {}): AdmissionConfig {
+  return {
+    rateLimiting: { enabled: true, windowMs: 1000, maxRequests: 2, ...rateLimiting },
+    maxConcurrentRequests: 0,
+    maxQueuedRequests: 0,
+    queueTimeout: 1000,
+    ...overrides,
+  };
+}
+
+describe('request admission', () => {
+  let now: jest.SpyInstance<number, []>;
+
+  beforeEach(() => {
+    now = jest.spyOn(Date, 'now').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    now.mockRestore();
+  });
+
+  describe('TokenBucket', () => {
+    it('should refill continuously over the window', () => {
+      const bucket = new TokenBucket(2, 1000, 0);
+
+      expect(bucket.take(0)).toBe(true);
+      expect(bucket.take(0)).toBe(true);
+      expect(bucket.take(0)).toBe(false);
+      expect(bucket.retryAfter(0)).toBe(500);
+      expect(bucket.take(500)).toBe(true);
+    });
+  });
+
+  describe('RequestAdmission', () => {
+    it('should rate limit each caller separately', async () => {
+      const admission = new RequestAdmission(config());
+
+      await admission.admit('alice');
+      await admission.admit('alice');
+      await expect(admission.admit('alice')).rejects.toMatchObject({
+        code: 'RATE_LIMIT_EXCEEDED',
+        details: { scope: 'caller', limit: 2, retryAfter: 500 },
+      });
+      await expect(admission.admit('bob')).resolves.toBeInstanceOf(Function);
+
+      now.mockReturnValue(500);
+      await expect(admission.admit('alice')).resolves.toBeInstanceOf(Function);
+    });
+
+    it('should apply the global limit across callers', async () => {
+      const admission = new RequestAdmission(config({}, { globalMaxRequests: 3 }));
+
+      await admission.admit('alice');
+      await admission.admit('bob');
+      await admission.admit('carol');
+      await expect(admission.admit('dave')).rejects.toMatchObject({ details: { scope: 'global' } });
+
+      now.mockReturnValue(400);
+      await admission.admit('alice');
+      await expect(admission.admit('alice')).rejects.toMatchObject({ details: { scope: 'caller' } });
+    });
+
+    it('should not rate limit when disabled', async () => {
+      const admission = new RequestAdmission(config({}, { enabled: false }));
+
+      for (let i = 0; i < 5; i++) {
+        await admission.admit('alice');
+      }
+    });
+  });
+
+  describe('Semaphore', () => {
+    beforeEach(() => {
+      now.mockRestore();
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should queue requests beyond the limit and hand slots over in order', async () => {
+      const semaphore = new Semaphore(1, 2, 1000);
+      const order: string[] = [];
+
+      const release = await semaphore.acquire();
+      const second = semaphore.acquire().then(next => {
+        order.push('second');
+        return next;
+      });
+      const third = semaphore.acquire().then(next => {
+        order.push('third');
+        return next;
+      });
+      await expect(semaphore.acquire()).rejects.toMatchObject({ code: 'RATE_LIMIT_EXCEEDED' });
+      expect(semaphore.getStats()).toEqual({ active: 1, queued: 2 });
+
+      release();
+      release(); // Releasing twice frees only one slot
+      (await second)();
+      (await third)();
+
+      expect(order).toEqual(['second', 'third']);
+      expect(semaphore.getStats()).toEqual({ active: 0, queued: 0 });
+    });
+
+    it('should reject queued requests after the queue timeout', async () => {
+      const semaphore = new Semaphore(1, 5, 1000);
+      await semaphore.acquire();
+
+      const queued = semaphore.acquire();
+      jest.advanceTimersByTime(1000);
+
+      await expect(queued).rejects.toMatchObject({
+        code: 'RATE_LIMIT_EXCEEDED',
+        details: { scope: 'concurrency', retryAfter: 1000 },
+      });
+      expect(semaphore.getStats()).toEqual({ active: 1, queued: 0 });
+    });
+
+    it('should drop queued requests whose signal aborts', async () => {
+      const semaphore = new Semaphore(1, 5, 1000);
+      const release = await semaphore.acquire();
+
+      const controller = new AbortController();
+      const cancelled = semaphore.acquire(controller.signal);
+      const next = semaphore.acquire();
+      controller.abort();
+
+      await expect(cancelled).rejects.toMatchObject({ code: 'EXECUTION_CANCELLED' });
+      expect(semaphore.getStats()).toEqual({ active: 1, queued: 1 });
+
+      release();
+      (await next)();
+      expect(semaphore.getStats()).toEqual({ active: 0, queued: 0 });
+      await expect(semaphore.acquire(controller.signal)).rejects.toMatchObject({ code: 'EXECUTION_CANCELLED' });
+    });
+  });
+
+  describe('admissionConfigFrom', () => {
+    it('should apply environment overrides', () => {
+      expect(admissionConfigFrom().rateLimiting).toMatchObject({ enabled: true, maxRequests: 100 });
+      expect(admissionConfigFrom(getConfig('production')).rateLimiting).toMatchObject({ enabled: true, maxRequests: 50 });
+      expect(admissionConfigFrom(getConfig('development')).rateLimiting.enabled).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { compareVersions, isValidRange, resolveVersion, satisfiesRange } from '../src/utils/semver';
+
+describe('semver', () => {
+  it('should order releases above their prereleases', () => {
+    expect(['1.10.0', '1.2.0', '2.0.0-beta.2', '2.0.0-beta.10', '2.0.0'].sort(compareVersions)).toEqual([
+      '1.2.0',
+      '1.10.0',
+      '2.0.0-beta.2',
+      '2.0.0-beta.10',
+      '2.0.0',
+    ]);
+  });
+
+  it.each([
+    ['1.2.3', '1.2.3', true],
+    ['1.2.4', '=1.2.3', false],
+    ['1.9.0', '^1.2', true],
+    ['2.0.0', '^1.2', false],
+    ['0.2.9', '^0.2.3', true],
+    ['0.3.0', '^0.2.3', false],
+    ['0.0.4', '^0.0.3', false],
+    ['2.0.9', '~2.0.1', true],
+    ['2.1.0', '~2.0.1', false],
+    ['1.5.0', '1.x', true],
+    ['1.2.7', '1.2', true],
+    ['1.3.0', '>1.2', true],
+    ['1.2.9', '>1.2', false],
+    ['1.2.9', '<=1.2', true],
+    ['1.4.0', '>= 1.2.0 <1.5.0', true],
+    ['3.0.0', '^1.0 || ^3.0', true],
+    ['7.0.0', '*', true],
+    ['2.0.0-beta.1', '^1.2', false],
+    ['2.0.0-beta.2', '>=2.0.0-beta.1', true],
+    ['2.0.1-beta.1', '>=2.0.0-beta.1', false],
+  ])('should check %s against %s', (version, range, expected) => {
+    expect(satisfiesRange(version, range)).toBe(expected);
+  });
+
+  it('should reject malformed ranges', () => {
+    expect(isValidRange('^1.2')).toBe(true);
+    expect(isValidRange('1.x.3')).toBe(false);
+    expect(isValidRange('^banana')).toBe(false);
+  });
+
+  describe('resolveVersion', () => {
+    const versions = ['1.0.0', '1.1.0', '1.2.0', '2.0.0-beta.1', '2.0.0-rc.1'];
+
+    it('should pick the highest version in a range', () => {
+      expect(resolveVersion(versions, '^1.0')).toBe('1.2.0');
+      expect(resolveVersion(versions, '~1.1')).toBe('1.1.0');
+      expect(resolveVersion(versions, '1.0.0')).toBe('1.0.0');
+      expect(resolveVersion(versions, '^3')).toBeNull();
+    });
+
+    it('should resolve tags, then latest, stable and prerelease channels', () => {
+      expect(resolveVersion(versions, 'latest')).toBe('2.0.0-rc.1');
+      expect(resolveVersion(versions, 'stable')).toBe('1.2.0');
+      expect(resolveVersion(versions, 'beta')).toBe('2.0.0-beta.1');
+      expect(resolveVersion(versions, 'stable', { stable: '1.1.0' })).toBe('1.1.0');
+      expect(resolveVersion(versions, 'stable', { stable: '9.9.9' })).toBeNull();
+      expect(resolveVersion(versions, 'nightly')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { PromptTemplateEngine } from '../src/utils/template-engine';
+
+describe('PromptTemplateEngine', () => {
+  let engine: PromptTemplateEngine;
+
+  beforeEach(() => {
+    engine = new PromptTemplateEngine();
+  });
+
+  describe('render', () => {
+    it('should render variables and dotted paths', () => {
+      const result = engine.render('Hello {{user.name}} from {{user.address.city}}!', {
+        variables: { user: { name: 'Ada', address: { city: 'London' } } },
+      });
+      expect(result).toBe('Hello Ada from London!');
+    });
+
+    it('should render missing variables as empty strings', () => {
+      expect(engine.render('[{{missing}}]', { variables: {} })).toBe('[]');
+    });
+
+    it('should support nested blocks inside each', () => {
+      const template = '{{#each items}}{{#if this.done}}[x]{{else}}[ ]{{/if}} {{this.title}}\n{{/each}}';
+      const result = engine.render(template, {
+        variables: {
+          items: [
+            { title: 'Write parser', done: true },
+            { title: 'Ship it', done: false },
+          ],
+        },
+      });
+      expect(result).toBe('[x] Write parser\n[ ] Ship it\n');
+    });
+
+    it('should expose @index, @first and @last inside each', () => {
+      const template = '{{#each tags}}{{@index}}:{{this}}{{#unless @last}}, {{/unless}}{{/each}}';
+      expect(engine.render(template, { variables: { tags: ['a', 'b', 'c'] } })).toBe('0:a, 1:b, 2:c');
+
+      const firstTemplate = '{{#each tags}}{{#if @first}}first={{this}}{{/if}}{{/each}}';
+      expect(engine.render(firstTemplate, { variables: { tags: ['a', 'b'] } })).toBe('first=a');
+    });
+
+    it('should render the else branch of each for empty arrays', () => {
+      expect(engine.render('{{#each items}}{{this}}{{else}}none{{/each}}', { variables: { items: [] } })).toBe('none');
+    });
+
+    it('should support else if chains', () => {
+      const template = '{{#if a}}A{{else if b}}B{{else}}C{{/if}}';
+      expect(engine.render(template, { variables: { a: false, b: true } })).toBe('B');
+      expect(engine.render(template, { variables: { a: false, b: false } })).toBe('C');
+    });
+
+    it('should resolve parent scope and root references inside each', () => {
+      const template = '{{#each items}}{{this}} for {{../audience}}/{{@root.audience}};{{/each}}';
+      expect(engine.render(template, { variables: { items: ['x'], audience: 'devs' } })).toBe('x for devs/devs;');
+    });
+
+    it('should call helpers with multiple arguments', () => {
+      expect(engine.render('{{join tags ", "}}', { variables: { tags: ['a', 'b'] } })).toBe('a, b');
+      expect(engine.render('{{uppercase name}}', { variables: { name: 'ada' } })).toBe('ADA');
+      expect(engine.render('{{default missing "fallback"}}', { variables: {} })).toBe('fallback');
+    });
+
+    it('should replace module references with dependency outputs', () => {
+      const result = engine.render('Summary: {{module "summarizer" length="short"}}', {
+        variables: {},
+        dependencies: { summarizer: 'short summary' },
+      });
+      expect(result).toBe('Summary: short summary');
+    });
+
+    it('should leave escaped braces and comments out of rendering', () => {
+      expect(engine.render('\\{{literal}} {{! note }}{{name}}', { variables: { name: 'x' } })).toBe('{{literal}} x');
+    });
+
+    it('should report syntax errors with line and column', () => {
+      expect(() => engine.render('line one\n  {{#if ok}}never closed', { variables: {} })).toThrow(
+        'Unclosed block {{#if}} at line 2, column 3'
+      );
+    });
+  });
+
+  describe('partials', () => {
+    it('should render registered partials in the current scope', () => {
+      engine.registerPartial('preamble', 'You are a {{role}}.');
+      expect(engine.render('{{> preamble}} Answer: {{question}}', {
+        variables: { role: 'tutor', question: 'why?' },
+      })).toBe('You are a tutor. Answer: why?');
+    });
+
+    it('should pass hash arguments and context to partials', () => {
+      engine.registerPartial('item', '- {{title}} ({{owner}})');
+      const result = engine.render('{{#each items}}{{> item owner=@root.owner}}\n{{/each}}', {
+        variables: { owner: 'ops', items: [{ title: 'a' }, { title: 'b' }] },
+      });
+      expect(result).toBe('- a (ops)\n- b (ops)\n');
+    });
+
+    it('should use the newest version unless one is pinned', () => {
+      engine.registerPartial('format', 'v1', '1.0.0');
+      engine.registerPartial('format', 'v2', '1.10.0');
+      engine.registerPartial('format', 'v1.2', '1.2.0');
+      expect(engine.render('{{> format}}', { variables: {} })).toBe('v2');
+      expect(engine.render('{{> format@1.0.0}}', { variables: {} })).toBe('v1');
+      expect(engine.getPartialVersions('format')).toEqual(['1.0.0', '1.2.0', '1.10.0']);
+    });
+
+    it('should resolve partials pinned to a range', () => {
+      engine.registerPartial('format', 'v1', '1.0.0');
+      engine.registerPartial('format', 'v1.2', '1.2.0');
+      engine.registerPartial('format', 'v2', '2.0.0');
+      expect(engine.render('{{> format@^1.0.0}}', { variables: {} })).toBe('v1.2');
+      expect(engine.render('{{> format@~1.0}}', { variables: {} })).toBe('v1');
+      expect(engine.validateTemplate('{{> format@^3}}').errors).toEqual(['Unknown partial: format@^3 at line 1, column 1']);
+    });
+
+    it('should detect circular partials', () => {
+      engine.registerPartial('a', 'A {{> b}}');
+      engine.registerPartial('b', 'B {{> a}}');
+      expect(() => engine.render('{{> a}}', { variables: {} })).toThrow('Circular partial reference: a -> b -> a');
+      expect(engine.validateTemplate('{{> a}}').errors[0]).toContain('Circular partial reference: a -> b -> a');
+    });
+
+    it('should report unknown partials', () => {
+      expect(engine.validateTemplate('{{> missing}}').errors).toEqual(['Unknown partial: missing at line 1, column 1']);
+    });
+
+    it('should extract variables used inside partials', () => {
+      engine.registerPartial('footer', 'Signed {{author}} for {{audience}}');
+      expect(engine.extractVariables('{{> footer audience="all"}} {{topic}}').sort()).toEqual(['author', 'topic']);
+    });
+  });
+
+  describe('validateTemplate', () => {
+    it('should accept a valid template', () => {
+      expect(engine.validateTemplate('{{#each items}}{{uppercase this}}{{/each}}')).toEqual({ valid: true, errors: [] });
+    });
+
+    it('should report mismatched closing tags', () => {
+      const result = engine.validateTemplate('{{#if a}}{{#each b}}{{/if}}{{/each}}');
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toBe('Mismatched closing tag: expected {{/each}} but found {{/if}} at line 1, column 21');
+    });
+
+    it('should report unknown helpers', () => {
+      const result = engine.validateTemplate('{{shout name}}');
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('Unknown helper: shout at line 1, column 1');
+    });
+
+    it('should report unclosed tags', () => {
+      expect(engine.validateTemplate('Hello {{name').errors).toEqual(['Unclosed tag at line 1, column 7']);
+    });
+  });
+
+  describe('extractVariables', () => {
+    it('should extract root variables from paths, helpers and blocks', () => {
+      const variables = engine.extractVariables(
+        '{{user.name}} {{join tags ", "}} {{#if verbose}}{{#each items}}{{this.title}} {{../audience}}{{/each}}{{/if}} {{now}}'
+      );
+      expect(variables.sort()).toEqual(['audience', 'items', 'tags', 'user', 'verbose']);
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { Keypair, PublicKey } from '@solana/web3.js';
+import {
+  TOKEN_METADATA_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  TokenGateConnection,
+  TokenGateVerifier,
+  readVerifiedCollection,
+} from '../src/auth/token-gate';
+
+// Real keys are needed to derive metadata addresses
+jest.unmock('@solana/web3.js');
+
+const owner = Keypair.generate().publicKey.toBase58();
+const mint = Keypair.generate().publicKey.toBase58();
+const nftMint = Keypair.generate().publicKey;
+const collection = Keypair.generate().publicKey;
+
+function tokenAccount(mintAddress: string, amount: string, decimals: number) {
+  return {
+    pubkey: Keypair.generate().publicKey,
+    account: { data: { parsed: { info: { mint: mintAddress, tokenAmount: { amount, decimals } } } } },
+  };
+}
+
+/**
+ * Serialize the leading fields of a Metaplex metadata account up to the collection
+ */
+function metadataAccount(collectionKey: PublicKey, verified: boolean): Buffer {
+  const string = (value: string) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(value.length);
+    return Buffer.concat([length, Buffer.from(value)]);
+  };
+
+  return Buffer.concat([
+    Buffer.from([4]),
+    Buffer.alloc(32),
+    nftMint.toBuffer(),
+    string('Gate Pass'),
+    string('GATE'),
+    string('https://example.com/gate.json'),
+    Buffer.from([0xf4, 0x01]), // seller fee basis points
+    Buffer.from([1, 1, 0, 0, 0]), // one creator
+    Buffer.alloc(34),
+    Buffer.from([1, 1]), // primary sale happened, is mutable
+    Buffer.from([1, 255]), // edition nonce
+    Buffer.from([0]), // no token standard
+    Buffer.from([1, verified ? 1 : 0]),
+    collectionKey.toBuffer(),
+  ]);
+}
+
+function fakeConnection(accounts: ReturnType<typeof tokenAccount>[], metadata: Buffer | null = null) {
+  return {
+    getParsedTokenAccountsByOwner: jest.fn(async (_owner: PublicKey, filter: { mint?: PublicKey; programId?: PublicKey }) => ({
+      context: { slot: 1 },
+      value: accounts.filter(entry =>
+        filter.mint
+          ? entry.account.data.parsed.info.mint === filter.mint.toBase58()
+          : filter.programId!.toBase58() === TOKEN_PROGRAM_ID
+      ),
+    })),
+    getMultipleAccountsInfo: jest.fn(async (addresses: PublicKey[]) =>
+      addresses.map(() => (metadata ? { data: metadata } : null))
+    ),
+  };
+}
+
+describe('TokenGateVerifier', () => {
+  it('should sum balances across token accounts and enforce the minimum', async () => {
+    const connection = fakeConnection([tokenAccount(mint, '600', 6), tokenAccount(mint, '500', 6)]);
+    const verifier = new TokenGateVerifier(connection as unknown as TokenGateConnection);
+
+    await expect(verifier.getTokenBalance(owner, mint)).resolves.toBe(1100n);
+    await expect(
+      verifier.assertAccess(owner, { type: 'token_gated', tokenAddress: mint, minimumBalance: '1000' })
+    ).resolves.toBeUndefined();
+    await expect(
+      verifier.assertAccess(owner, { type: 'token_gated', tokenAddress: mint, minimumBalance: '2000' })
+    ).rejects.toMatchObject({ code: 'INSUFFICIENT_BALANCE' });
+  });
+
+  it('should cache results per caller until the TTL expires', async () => {
+    const connection = fakeConnection([tokenAccount(mint, '5', 0)]);
+    const verifier = new TokenGateVerifier(connection as unknown as TokenGateConnection, { cacheTtl: 1000 });
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+
+    try {
+      await verifier.getTokenBalance(owner, mint);
+      await verifier.getTokenBalance(owner, mint);
+      expect(connection.getParsedTokenAccountsByOwner).toHaveBeenCalledTimes(1);
+
+      now.mockReturnValue(1500);
+      await verifier.getTokenBalance(owner, mint);
+      expect(connection.getParsedTokenAccountsByOwner).toHaveBeenCalledTimes(2);
+    } finally {
+      now.mockRestore();
+    }
+  });
+
+  it('should not cache RPC failures', async () => {
+    const connection = fakeConnection([tokenAccount(mint, '5', 0)]);
+    connection.getParsedTokenAccountsByOwner.mockRejectedValueOnce(new Error('RPC unavailable'));
+    const verifier = new TokenGateVerifier(connection as unknown as TokenGateConnection);
+
+    await expect(verifier.getTokenBalance(owner, mint)).rejects.toMatchObject({ code: 'BLOCKCHAIN_ERROR' });
+    await expect(verifier.getTokenBalance(owner, mint)).resolves.toBe(5n);
+  });
+
+  it('should deny callers that are not wallet addresses', async () => {
+    const verifier = new TokenGateVerifier(fakeConnection([]) as unknown as TokenGateConnection);
+
+    await expect(
+      verifier.assertAccess('mcp-client', { type: 'token_gated', tokenAddress: mint, minimumBalance: '1' })
+    ).rejects.toMatchObject({ code: 'ACCESS_DENIED' });
+  });
+
+  describe('NFT gating', () => {
+    it('should accept the gated mint itself', async () => {
+      const connection = fakeConnection([tokenAccount(nftMint.toBase58(), '1', 0)]);
+      const verifier = new TokenGateVerifier(connection as unknown as TokenGateConnection);
+
+      await expect(verifier.ownsNft(owner, nftMint.toBase58())).resolves.toBe(true);
+      expect(connection.getMultipleAccountsInfo).not.toHaveBeenCalled();
+    });
+
+    it('should accept NFTs in a verified collection', async () => {
+      const connection = fakeConnection([tokenAccount(nftMint.toBase58(), '1', 0)], metadataAccount(collection, true));
+      const verifier = new TokenGateVerifier(connection as unknown as TokenGateConnection);
+
+      await expect(
+        verifier.assertAccess(owner, { type: 'nft_gated', tokenAddress: collection.toBase58() })
+      ).resolves.toBeUndefined();
+
+      const [metadataAddress] = PublicKey.findProgramAddressSync(
+        [Buffer.from('metadata'), new PublicKey(TOKEN_METADATA_PROGRAM_ID).toBuffer(), nftMint.toBuffer()],
+        new PublicKey(TOKEN_METADATA_PROGRAM_ID)
+      );
+      expect(connection.getMultipleAccountsInfo.mock.calls[0]![0]).toEqual([metadataAddress]);
+    });
+
+    it('should deny unverified collections and fungible tokens', async () => {
+      const unverified = fakeConnection([tokenAccount(nftMint.toBase58(), '1', 0)], metadataAccount(collection, false));
+      await expect(
+        new TokenGateVerifier(unverified as unknown as TokenGateConnection)
+          .assertAccess(owner, { type: 'nft_gated', tokenAddress: collection.toBase58() })
+      ).rejects.toMatchObject({ code: 'ACCESS_DENIED' });
+
+      const fungible = fakeConnection([tokenAccount(nftMint.toBase58(), '1', 6)]);
+      await expect(
+        new TokenGateVerifier(fungible as unknown as TokenGateConnection).ownsNft(owner, nftMint.toBase58())
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('readVerifiedCollection', () => {
+    it('should return null when the metadata has no collection', () => {
+      const data = metadataAccount(collection, true);
+      expect(readVerifiedCollection(data)).toBe(collection.toBase58());
+      expect(readVerifiedCollection(data.subarray(0, data.length - 34))).toBeNull();
+    });
+  });
+});
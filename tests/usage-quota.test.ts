@@ -0,0 +1,109 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileUsageStore, MemoryUsageStore, USAGE_WINDOW_MS, UsageQuota } from '../src/quota/usage-quota';
+
+describe('UsageQuota', () => {
+  let now: jest.SpyInstance<number, []>;
+
+  beforeEach(() => {
+    now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+  });
+
+  afterEach(() => {
+    now.mockRestore();
+  });
+
+  it('should count executions per caller and prompt', async () => {
+    const quota = new UsageQuota();
+
+    await expect(quota.consume('alice', 'summarize', 2)).resolves.toMatchObject({ used: 1, remaining: 1 });
+    await expect(quota.consume('alice', 'summarize', 2)).resolves.toMatchObject({ used: 2, remaining: 0 });
+    await expect(quota.consume('bob', 'summarize', 2)).resolves.toMatchObject({ used: 1 });
+    await expect(quota.consume('alice', 'translate', 2)).resolves.toMatchObject({ used: 1 });
+  });
+
+  it('should reject with reset details once the limit is reached', async () => {
+    const quota = new UsageQuota();
+    await quota.consume('alice', 'summarize', 2);
+    now.mockReturnValue(1_000_500);
+    await quota.consume('alice', 'summarize', 2);
+
+    await expect(quota.consume('alice', 'summarize', 2)).rejects.toMatchObject({
+      code: 'RATE_LIMIT_EXCEEDED',
+      details: {
+        limit: 2,
+        used: 2,
+        remaining: 0,
+        retryAt: 1_000_000 + USAGE_WINDOW_MS,
+        retryAfter: USAGE_WINDOW_MS - 500,
+      },
+    });
+  });
+
+  it('should free allowance as executions leave the rolling window', async () => {
+    const quota = new UsageQuota();
+    await quota.consume('alice', 'summarize', 1);
+
+    now.mockReturnValue(1_000_000 + USAGE_WINDOW_MS - 1);
+    await expect(quota.consume('alice', 'summarize', 1)).rejects.toMatchObject({ code: 'RATE_LIMIT_EXCEEDED' });
+
+    now.mockReturnValue(1_000_000 + USAGE_WINDOW_MS);
+    await expect(quota.consume('alice', 'summarize', 1)).resolves.toMatchObject({ used: 1, remaining: 0 });
+  });
+
+  it('should not exceed the limit under concurrent executions', async () => {
+    const quota = new UsageQuota();
+    const results = await Promise.allSettled(Array.from({ length: 5 }, () => quota.consume('alice', 'summarize', 3)));
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(3);
+    await expect(quota.getUsage('alice', 'summarize', 3)).resolves.toMatchObject({ used: 3, remaining: 0 });
+  });
+
+  it('should give back refunded executions', async () => {
+    const quota = new UsageQuota();
+    await quota.consume('alice', 'summarize', 2);
+    now.mockReturnValue(1_000_500);
+    const { recordedAt } = await quota.consume('alice', 'summarize', 2);
+
+    await quota.refund('alice', 'summarize', recordedAt);
+    await expect(quota.getUsage('alice', 'summarize', 2)).resolves.toMatchObject({ used: 1, resetAt: 1_000_000 + USAGE_WINDOW_MS });
+    await expect(quota.consume('alice', 'summarize', 2)).resolves.toMatchObject({ used: 2 });
+  });
+
+  it('should report usage without consuming it', async () => {
+    const quota = new UsageQuota({ store: new MemoryUsageStore() });
+    await quota.consume('alice', 'summarize', 5);
+
+    await expect(quota.getUsage('alice', 'summarize', 5)).resolves.toEqual({
+      promptId: 'summarize',
+      limit: 5,
+      used: 1,
+      remaining: 4,
+      resetAt: 1_000_000 + USAGE_WINDOW_MS,
+    });
+    await expect(quota.getUsage('alice', 'summarize')).resolves.toMatchObject({ limit: null, remaining: null });
+    await expect(quota.listPrompts('alice')).resolves.toEqual(['summarize']);
+  });
+
+  describe('FileUsageStore', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = mkdtempSync(join(tmpdir(), 'prompthub-usage-'));
+    });
+
+    afterEach(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should keep counts across restarts', async () => {
+      const path = join(directory, 'nested', 'usage.json');
+      await new UsageQuota({ store: new FileUsageStore(path) }).consume('alice', 'summarize', 1);
+
+      const restarted = new UsageQuota({ store: new FileUsageStore(path) });
+      await expect(restarted.consume('alice', 'summarize', 1)).rejects.toMatchObject({ code: 'RATE_LIMIT_EXCEEDED' });
+      await expect(restarted.consume('bob', 'summarize', 1)).resolves.toMatchObject({ used: 1 });
+    });
+  });
+});
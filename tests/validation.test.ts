@@ -0,0 +1,102 @@
+import { validatePromptDSL } from '../src/utils/validation';
+import { PromptTemplateEngine } from '../src/utils/template-engine';
+
+describe('validatePromptDSL', () => {
+  let promptDSL: Record<string, any>;
+
+  beforeEach(() => {
+    promptDSL = {
+      id: 'summarize',
+      name: 'Summarize',
+      description: 'Summarize a document',
+      version: '1.2.0',
+      author: 'test-author',
+      license: 'MIT',
+      inputs: {
+        text: { type: 'string', required: true },
+        style: { type: 'string', default: 'brief', enum: ['brief', 'detailed'] },
+      },
+      template: 'Write a {{style}} summary of: {{text}}',
+      output_schema: { type: 'string' },
+      models: ['gpt-4o', 'anthropic'],
+    };
+  });
+
+  it('should accept a valid definition', () => {
+    const result = validatePromptDSL(promptDSL);
+    expect(result).toEqual({ valid: true, errors: [], warnings: [] });
+  });
+
+  it('should report schema errors with their path', () => {
+    delete promptDSL.template;
+    promptDSL.inputs.text.type = 'text';
+
+    const result = validatePromptDSL(promptDSL);
+    expect(result.valid).toBe(false);
+    expect(result.errors.some(error => error.startsWith('template: '))).toBe(true);
+    expect(result.errors.some(error => error.startsWith('inputs.text.type: '))).toBe(true);
+  });
+
+  it('should report template syntax errors', () => {
+    promptDSL.template = '{{#if text}}{{text}}';
+
+    const result = validatePromptDSL(promptDSL);
+    expect(result.errors).toEqual(['Template: Unclosed block {{#if}} at line 1, column 1']);
+  });
+
+  it('should cross-check template variables against inputs', () => {
+    promptDSL.template = 'Summarize {{text}} for {{audience}}';
+
+    const result = validatePromptDSL(promptDSL);
+    expect(result.errors).toEqual(["Template variable 'audience' is not declared in inputs"]);
+    expect(result.warnings).toEqual(["Input 'style' is not used by the template"]);
+  });
+
+  it('should report invalid patterns and defaults that fail their own constraints', () => {
+    promptDSL.inputs.style.default = 'verbose';
+    promptDSL.inputs.code = { type: 'string', pattern: '([a-z', default: 'x' };
+    promptDSL.inputs.limits = {
+      type: 'object',
+      default: { max: 'ten' },
+      properties: { max: { type: 'number', required: true } },
+    };
+    promptDSL.template += ' {{code}} {{limits.max}}';
+
+    const result = validatePromptDSL(promptDSL);
+    expect(result.errors).toHaveLength(3);
+    expect(result.errors).toContain(
+      "Default value of input 'style' is invalid: Parameter 'style' must be one of: brief, detailed"
+    );
+    expect(result.errors.some(error => error.startsWith("Input 'code' has an invalid pattern"))).toBe(true);
+    expect(result.errors).toContain(
+      "Default value of input 'limits' is invalid: Parameter '/limits/max' must be a number"
+    );
+  });
+
+  it('should require a semantic version', () => {
+    promptDSL.version = 'v2';
+
+    const result = validatePromptDSL(promptDSL);
+    expect(result.errors).toEqual(["Version 'v2' is not a valid semantic version (major.minor.patch)"]);
+  });
+
+  it('should warn about unknown models unless they are configured as known', () => {
+    promptDSL.models = ['gpt-4o', 'llama-3'];
+
+    expect(validatePromptDSL(promptDSL).warnings).toEqual(["Unknown model 'llama-3'"]);
+    expect(validatePromptDSL(promptDSL, { knownModels: ['llama-3'] }).warnings).toEqual([]);
+  });
+
+  it('should use helpers and partials of the given template engine', () => {
+    promptDSL.template = '{{> header}}{{shout text}} ({{style}})';
+
+    const defaultResult = validatePromptDSL(promptDSL);
+    expect(defaultResult.errors).toEqual(['Template: Unknown helper: shout at line 1, column 13']);
+    expect(defaultResult.warnings).toEqual(['Template: Unknown partial: header at line 1, column 1']);
+
+    const engine = new PromptTemplateEngine();
+    engine.registerHelper('shout', (value: string) => value.toUpperCase());
+    engine.registerPartial('header', 'Task:');
+    expect(validatePromptDSL(promptDSL, { templateEngine: engine })).toEqual({ valid: true, errors: [], warnings: [] });
+  });
+});